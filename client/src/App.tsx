@@ -2,6 +2,7 @@ import { useEffect, useState, useCallback } from 'react';
 import { useParams, useNavigate } from 'react-router-dom';
 import { ProjectList } from './components/ProjectList';
 import { ProjectBoard } from './components/ProjectBoard';
+import { Toast } from './components/Toast';
 import { useWorkspace, useProject } from './hooks/useApi';
 import { generateUUID } from './utils/uuid';
 
@@ -9,7 +10,21 @@ export function App() {
   const { workspaceId } = useParams<{ workspaceId: string }>();
   const navigate = useNavigate();
   const [userSelectedProjectId, setUserSelectedProjectId] = useState<string | null>(null);
-  const { projects, loading: loadingProjects, loadProjects, createProject } = useWorkspace(workspaceId || '');
+  const {
+    projects,
+    loading: loadingProjects,
+    activity,
+    members,
+    currentMemberId,
+    loadProjects,
+    createProject,
+    clearActivity,
+    loadMembers,
+    addMember,
+    updateMember,
+    removeMember,
+    setCurrentMemberId,
+  } = useWorkspace(workspaceId || '');
 
   // Derive effective project ID: user selection, or fall back to first project
   const selectedProjectId = userSelectedProjectId ?? projects[0]?.id ?? null;
@@ -30,6 +45,20 @@ export function App() {
     deleteCard,
     addDependency,
     removeDependency,
+    createLabel,
+    renameLabel,
+    deleteLabel,
+    labelCard,
+    unlabelCard,
+    assignCard,
+    unassignCard,
+    addChecklistItem,
+    updateChecklistItem,
+    deleteChecklistItem,
+    undoToast,
+    undo,
+    redo,
+    dismissUndoToast,
   } = useProject(selectedProjectId);
 
   // Redirect to new workspace if no workspaceId
@@ -44,8 +73,9 @@ export function App() {
   useEffect(() => {
     if (workspaceId) {
       loadProjects();
+      loadMembers();
     }
-  }, [workspaceId, loadProjects]);
+  }, [workspaceId, loadProjects, loadMembers]);
 
   // Load project when selected
   useEffect(() => {
@@ -54,6 +84,13 @@ export function App() {
     }
   }, [selectedProjectId, loadProject]);
 
+  // Activity on the open board is already visible
+  useEffect(() => {
+    if (selectedProjectId && activity[selectedProjectId]) {
+      clearActivity(selectedProjectId);
+    }
+  }, [selectedProjectId, activity, clearActivity]);
+
   const handleDeleteProject = useCallback(async () => {
     await deleteProject();
     setUserSelectedProjectId(null);
@@ -72,8 +109,15 @@ export function App() {
           <ProjectList
             projects={projects}
             selectedProjectId={selectedProjectId}
+            activity={activity}
             onSelectProject={setUserSelectedProjectId}
             onCreateProject={createProject}
+            members={members}
+            currentMemberId={currentMemberId}
+            onAddMember={addMember}
+            onUpdateMember={updateMember}
+            onRemoveMember={removeMember}
+            onSetCurrentMember={setCurrentMemberId}
           />
         </div>
       </div>
@@ -92,6 +136,8 @@ export function App() {
           ) : (
             <ProjectBoard
               project={project}
+              members={members}
+              currentMemberId={currentMemberId}
               onUpdateProject={updateProject}
               onDeleteProject={handleDeleteProject}
               onAddColumn={addColumn}
@@ -104,6 +150,16 @@ export function App() {
               onDeleteCard={deleteCard}
               onAddDependency={addDependency}
               onRemoveDependency={removeDependency}
+              onCreateLabel={createLabel}
+              onRenameLabel={renameLabel}
+              onDeleteLabel={deleteLabel}
+              onLabelCard={labelCard}
+              onUnlabelCard={unlabelCard}
+              onAssignCard={assignCard}
+              onUnassignCard={unassignCard}
+              onAddChecklistItem={addChecklistItem}
+              onUpdateChecklistItem={updateChecklistItem}
+              onDeleteChecklistItem={deleteChecklistItem}
             />
           )
         ) : (
@@ -124,6 +180,15 @@ export function App() {
           </div>
         )}
       </div>
+
+      {undoToast && (
+        <Toast
+          message={undoToast.message}
+          actionLabel={undoToast.action === 'undo' ? 'Undo' : undoToast.action === 'redo' ? 'Redo' : undefined}
+          onAction={undoToast.action === 'undo' ? undo : redo}
+          onDismiss={dismissUndoToast}
+        />
+      )}
     </div>
   );
 }
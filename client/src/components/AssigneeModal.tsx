@@ -0,0 +1,55 @@
+import { Modal } from './Modal';
+import { MemberAvatar } from './MemberAvatar';
+import type { Card, Member } from '../types';
+
+interface AssigneeModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  card: Card | null;
+  members: Member[];
+  onAssign: (memberId: string) => void;
+  onUnassign: (memberId: string) => void;
+}
+
+export function AssigneeModal({
+  isOpen,
+  onClose,
+  card,
+  members,
+  onAssign,
+  onUnassign,
+}: AssigneeModalProps) {
+  if (!card) return null;
+
+  const assigned = new Set(card.assignees);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Assignees: ${card.title}`}>
+      {members.length > 0 ? (
+        <ul className="space-y-2">
+          {members.map((member) => (
+            <li key={member.id}>
+              <label className="flex items-center gap-3 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={assigned.has(member.id)}
+                  onChange={() => (assigned.has(member.id) ? onUnassign(member.id) : onAssign(member.id))}
+                  className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+                />
+                <MemberAvatar member={member} />
+                <span className="text-sm text-gray-900 dark:text-white flex-1 truncate">{member.name}</span>
+                {member.kind === 'agent' && (
+                  <span className="text-xs text-gray-500 dark:text-gray-400">agent</span>
+                )}
+              </label>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          This workspace has no members yet. Add them from the sidebar.
+        </p>
+      )}
+    </Modal>
+  );
+}
@@ -1,7 +1,12 @@
 import { useState, useRef, useEffect, useCallback, memo } from 'react';
 import { Draggable } from '@hello-pangea/dnd';
 import { useClickOutside } from '../hooks/useClickOutside';
-import type { Card as CardType } from '../types';
+import { LabelChip } from './LabelChip';
+import { MemberAvatar } from './MemberAvatar';
+import { formatDate } from '../utils/dates';
+import type { DueStatus } from '../utils/dates';
+import { PRIORITIES } from '../utils/priority';
+import type { Card as CardType, CardUpdates, Label, Member, Priority } from '../types';
 
 const MoreDotsIcon = (
   <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
@@ -15,30 +20,74 @@ const DependencyIcon = (
   </svg>
 );
 
+const ChecklistIcon = (
+  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M9 12l2 2 4-4m6 2a9 9 0 11-18 0 9 9 0 0118 0z" />
+  </svg>
+);
+
+const CalendarIcon = (
+  <svg className="w-3 h-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+    <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 7V3m8 4V3m-9 8h10M5 21h14a2 2 0 002-2V7a2 2 0 00-2-2H5a2 2 0 00-2 2v12a2 2 0 002 2z" />
+  </svg>
+);
+
+const DUE_STATUS_STYLES: Record<DueStatus, string> = {
+  overdue: 'text-red-600 dark:text-red-400 font-medium',
+  soon: 'text-amber-600 dark:text-amber-400 font-medium',
+};
+
+const PRIORITY_STYLES: Record<Priority, string> = {
+  P0: 'bg-red-100 text-red-700 dark:bg-red-900/40 dark:text-red-300',
+  P1: 'bg-orange-100 text-orange-700 dark:bg-orange-900/40 dark:text-orange-300',
+  P2: 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300',
+  P3: 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300',
+};
+
 interface CardProps {
   card: CardType;
   index: number;
-  onUpdate: (cardId: string, updates: { title?: string; description?: string }) => void;
+  labelsById: Map<string, Label>;
+  activeLabelId: string | null;
+  membersById: Map<string, Member>;
+  onUpdate: (cardId: string, updates: CardUpdates) => void;
   onDelete: (cardId: string) => void;
   onShowDependencies: (card: CardType) => void;
   onShowHistory: (card: CardType) => void;
+  onShowLabels: (card: CardType) => void;
+  onShowAssignees: (card: CardType) => void;
+  onShowChecklist: (card: CardType) => void;
+  onLabelClick: (labelId: string) => void;
   hasDependencies: boolean;
   hasUnresolvedDependencies: boolean;
+  dueStatus: DueStatus | null;
 }
 
 export const Card = memo(function Card({
   card,
   index,
+  labelsById,
+  activeLabelId,
+  membersById,
   onUpdate,
   onDelete,
   onShowDependencies,
   onShowHistory,
+  onShowLabels,
+  onShowAssignees,
+  onShowChecklist,
+  onLabelClick,
   hasDependencies,
   hasUnresolvedDependencies,
+  dueStatus,
 }: CardProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editTitle, setEditTitle] = useState(card.title);
   const [editDescription, setEditDescription] = useState(card.description);
+  const [editStartDate, setEditStartDate] = useState(card.start_date ?? '');
+  const [editDueDate, setEditDueDate] = useState(card.due_date ?? '');
+  const [editPriority, setEditPriority] = useState<Priority | ''>(card.priority ?? '');
+  const [editEstimate, setEditEstimate] = useState(card.estimate?.toString() ?? '');
   const [showMenu, setShowMenu] = useState(false);
   const titleRef = useRef<HTMLInputElement>(null);
   const menuRef = useRef<HTMLDivElement>(null);
@@ -53,9 +102,34 @@ export const Card = memo(function Card({
   const closeMenu = useCallback(() => setShowMenu(false), []);
   useClickOutside(menuRef, closeMenu);
 
+  const labels = card.labels.map((id) => labelsById.get(id)).filter(Boolean) as Label[];
+  const assignees = card.assignees.map((id) => membersById.get(id)).filter(Boolean) as Member[];
+  const checkedItems = card.checklist.filter((item) => item.checked).length;
+
+  const datesInvalid = editStartDate !== '' && editDueDate !== '' && editStartDate > editDueDate;
+  const estimate = editEstimate.trim() === '' ? null : Number(editEstimate);
+  const estimateInvalid = estimate !== null && (!Number.isFinite(estimate) || estimate < 0);
+
+  const resetEdits = () => {
+    setEditTitle(card.title);
+    setEditDescription(card.description);
+    setEditStartDate(card.start_date ?? '');
+    setEditDueDate(card.due_date ?? '');
+    setEditPriority(card.priority ?? '');
+    setEditEstimate(card.estimate?.toString() ?? '');
+  };
+
   const handleSave = () => {
+    if (datesInvalid || estimateInvalid) return;
     if (editTitle.trim()) {
-      onUpdate(card.id, { title: editTitle.trim(), description: editDescription });
+      onUpdate(card.id, {
+        title: editTitle.trim(),
+        description: editDescription,
+        ...(editStartDate !== (card.start_date ?? '') && { start_date: editStartDate || null }),
+        ...(editDueDate !== (card.due_date ?? '') && { due_date: editDueDate || null }),
+        ...(editPriority !== (card.priority ?? '') && { priority: editPriority || null }),
+        ...(estimate !== (card.estimate ?? null) && { estimate }),
+      });
     }
     setIsEditing(false);
   };
@@ -66,8 +140,7 @@ export const Card = memo(function Card({
       handleSave();
     }
     if (e.key === 'Escape') {
-      setEditTitle(card.title);
-      setEditDescription(card.description);
+      resetEdits();
       setIsEditing(false);
     }
   };
@@ -83,6 +156,7 @@ export const Card = memo(function Card({
             bg-white dark:bg-gray-800 rounded-lg border p-3 mb-2 cursor-grab
             transition-shadow
             ${snapshot.isDragging ? 'shadow-card-hover ring-2 ring-primary-500' : 'shadow-card hover:shadow-card-hover'}
+            ${!snapshot.isDragging && dueStatus === 'overdue' ? 'ring-1 ring-red-400 dark:ring-red-500' : ''}
             ${hasUnresolvedDependencies ? 'border-l-4 border-l-amber-400' : 'border-gray-200 dark:border-gray-600'}
           `}
         >
@@ -105,17 +179,70 @@ export const Card = memo(function Card({
                 placeholder="Description (optional)"
                 rows={2}
               />
+              <div className="flex gap-2">
+                <label className="flex-1 text-xs text-gray-500 dark:text-gray-400">
+                  Start
+                  <input
+                    type="date"
+                    value={editStartDate}
+                    onChange={(e) => setEditStartDate(e.target.value)}
+                    className="w-full px-1 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </label>
+                <label className="flex-1 text-xs text-gray-500 dark:text-gray-400">
+                  Due
+                  <input
+                    type="date"
+                    value={editDueDate}
+                    onChange={(e) => setEditDueDate(e.target.value)}
+                    className="w-full px-1 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </label>
+              </div>
+              {datesInvalid && (
+                <p className="text-xs text-red-600 dark:text-red-400">The start date is after the due date</p>
+              )}
+              <div className="flex gap-2">
+                <label className="flex-1 text-xs text-gray-500 dark:text-gray-400">
+                  Priority
+                  <select
+                    value={editPriority}
+                    onChange={(e) => setEditPriority(e.target.value as Priority | '')}
+                    className="w-full px-1 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  >
+                    <option value="">None</option>
+                    {PRIORITIES.map((priority) => (
+                      <option key={priority} value={priority}>{priority}</option>
+                    ))}
+                  </select>
+                </label>
+                <label className="flex-1 text-xs text-gray-500 dark:text-gray-400">
+                  Estimate
+                  <input
+                    type="number"
+                    min={0}
+                    step="any"
+                    value={editEstimate}
+                    onChange={(e) => setEditEstimate(e.target.value)}
+                    onKeyDown={handleKeyDown}
+                    className="w-full px-1 py-0.5 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  />
+                </label>
+              </div>
+              {estimateInvalid && (
+                <p className="text-xs text-red-600 dark:text-red-400">The estimate must be a number of at least 0</p>
+              )}
               <div className="flex gap-2">
                 <button
                   onClick={handleSave}
-                  className="px-2 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700"
+                  disabled={datesInvalid || estimateInvalid}
+                  className="px-2 py-1 text-xs bg-primary-600 text-white rounded hover:bg-primary-700 disabled:opacity-50"
                 >
                   Save
                 </button>
                 <button
                   onClick={() => {
-                    setEditTitle(card.title);
-                    setEditDescription(card.description);
+                    resetEdits();
                     setIsEditing(false);
                   }}
                   className="px-2 py-1 text-xs text-gray-600 dark:text-gray-300 hover:text-gray-800 dark:hover:text-white"
@@ -126,7 +253,30 @@ export const Card = memo(function Card({
             </div>
           ) : (
             <div className="group">
+              {labels.length > 0 && (
+                <div className="mb-2 flex flex-wrap gap-1">
+                  {labels.map((label) => (
+                    <LabelChip
+                      key={label.id}
+                      label={label}
+                      active={label.id === activeLabelId}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onLabelClick(label.id);
+                      }}
+                    />
+                  ))}
+                </div>
+              )}
               <div className="flex items-start justify-between gap-2">
+                {card.priority && (
+                  <span
+                    className={`mt-0.5 px-1.5 rounded text-xs font-semibold ${PRIORITY_STYLES[card.priority]}`}
+                    title="Priority"
+                  >
+                    {card.priority}
+                  </span>
+                )}
                 <h4
                   className="text-sm font-medium text-gray-900 dark:text-white flex-1 cursor-pointer"
                   onClick={() => setIsEditing(true)}
@@ -160,6 +310,33 @@ export const Card = memo(function Card({
                       >
                         Dependencies
                       </button>
+                      <button
+                        onClick={() => {
+                          onShowLabels(card);
+                          setShowMenu(false);
+                        }}
+                        className="w-full px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        Labels
+                      </button>
+                      <button
+                        onClick={() => {
+                          onShowAssignees(card);
+                          setShowMenu(false);
+                        }}
+                        className="w-full px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        Assign
+                      </button>
+                      <button
+                        onClick={() => {
+                          onShowChecklist(card);
+                          setShowMenu(false);
+                        }}
+                        className="w-full px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                      >
+                        Checklist
+                      </button>
                       <button
                         onClick={() => {
                           onShowHistory(card);
@@ -185,6 +362,38 @@ export const Card = memo(function Card({
               {card.description && (
                 <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 line-clamp-2">{card.description}</p>
               )}
+              {(card.start_date || card.due_date) && (
+                <div
+                  className={`mt-2 flex items-center gap-1 text-xs ${dueStatus ? DUE_STATUS_STYLES[dueStatus] : 'text-gray-400'}`}
+                  title={dueStatus === 'overdue' ? 'Overdue' : dueStatus === 'soon' ? 'Due soon' : undefined}
+                >
+                  {CalendarIcon}
+                  <span>
+                    {card.start_date && formatDate(card.start_date)}
+                    {card.start_date && card.due_date && ' – '}
+                    {card.due_date && `${card.start_date ? '' : 'Due '}${formatDate(card.due_date)}`}
+                  </span>
+                  {dueStatus === 'overdue' && <span className="ml-1">(overdue)</span>}
+                </div>
+              )}
+              {card.checklist.length > 0 && (
+                <button
+                  type="button"
+                  onClick={() => onShowChecklist(card)}
+                  className={`mt-2 flex items-center gap-1 text-xs hover:underline ${
+                    checkedItems === card.checklist.length ? 'text-green-600 dark:text-green-400' : 'text-gray-400'
+                  }`}
+                  title="Checklist"
+                >
+                  {ChecklistIcon}
+                  <span>{checkedItems}/{card.checklist.length}</span>
+                </button>
+              )}
+              {card.estimate !== undefined && (
+                <div className="mt-2 text-xs text-gray-400" title="Estimate">
+                  Estimate: {card.estimate}
+                </div>
+              )}
               {hasDependencies && (
                 <div className="mt-2 flex items-center gap-1 text-xs text-gray-400">
                   {DependencyIcon}
@@ -194,6 +403,13 @@ export const Card = memo(function Card({
                   )}
                 </div>
               )}
+              {assignees.length > 0 && (
+                <div className="mt-2 flex justify-end -space-x-1">
+                  {assignees.map((member) => (
+                    <MemberAvatar key={member.id} member={member} />
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -42,6 +42,30 @@ function getEventDescription(event: CardEvent): string {
       return `Added dependency`;
     case 'DependencyRemoved':
       return `Removed dependency`;
+    case 'CardLabeled':
+      return 'Added label';
+    case 'CardUnlabeled':
+      return 'Removed label';
+    case 'CardAssigned':
+      return 'Assigned';
+    case 'CardUnassigned':
+      return 'Unassigned';
+    case 'CardScheduled':
+      return 'Changed dates';
+    case 'CardPlanned':
+      return 'Changed priority or estimate';
+    case 'ChecklistItemAdded':
+      return 'Added checklist item';
+    case 'ChecklistItemRenamed':
+      return 'Renamed checklist item';
+    case 'ChecklistItemChecked':
+      return 'Checked checklist item';
+    case 'ChecklistItemUnchecked':
+      return 'Unchecked checklist item';
+    case 'ChecklistItemMoved':
+      return 'Moved checklist item';
+    case 'ChecklistItemDeleted':
+      return 'Deleted checklist item';
     default:
       return event.event_type;
   }
@@ -88,7 +112,7 @@ export function CardHistoryModal({
         {!loading && !error && events.length > 0 && (
           <div className="space-y-3">
             {events.map((event) => {
-              const isMcp = event.event_data._source === 'mcp';
+              const isMcp = event.metadata?.source === 'mcp';
               return (
                 <div
                   key={event.id}
@@ -0,0 +1,133 @@
+import { useState } from 'react';
+import { Modal } from './Modal';
+import { Input } from './Input';
+import { Button } from './Button';
+import type { Card, ChecklistItemUpdates } from '../types';
+
+interface ChecklistModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  card: Card | null;
+  onAdd: (text: string) => void;
+  onUpdate: (itemId: string, updates: ChecklistItemUpdates) => void;
+  onDelete: (itemId: string) => void;
+}
+
+export function ChecklistModal({
+  isOpen,
+  onClose,
+  card,
+  onAdd,
+  onUpdate,
+  onDelete,
+}: ChecklistModalProps) {
+  const [newText, setNewText] = useState('');
+
+  if (!card) return null;
+
+  const done = card.checklist.filter((item) => item.checked).length;
+  const total = card.checklist.length;
+
+  const handleAdd = () => {
+    if (!newText.trim()) return;
+    onAdd(newText.trim());
+    setNewText('');
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Checklist: ${card.title}`}>
+      <div className="space-y-4">
+        {total > 0 ? (
+          <>
+            <div className="flex items-center gap-2">
+              <div className="flex-1 h-2 bg-gray-200 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className="h-full bg-green-500 transition-all"
+                  style={{ width: `${(done / total) * 100}%` }}
+                />
+              </div>
+              <span className="text-xs text-gray-500 dark:text-gray-400">{done}/{total}</span>
+            </div>
+            <ul className="space-y-1">
+              {card.checklist.map((item, index) => (
+                <li key={item.id} className="group flex items-center gap-2">
+                  <input
+                    type="checkbox"
+                    checked={item.checked}
+                    onChange={() => onUpdate(item.id, { checked: !item.checked })}
+                    className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+                  />
+                  <input
+                    key={item.text}
+                    type="text"
+                    defaultValue={item.text}
+                    onBlur={(e) => {
+                      const text = e.target.value.trim();
+                      if (text && text !== item.text) {
+                        onUpdate(item.id, { text });
+                      } else {
+                        e.target.value = item.text;
+                      }
+                    }}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter') e.currentTarget.blur();
+                    }}
+                    className={`
+                      flex-1 min-w-0 px-2 py-1 text-sm bg-transparent border border-transparent rounded
+                      hover:border-gray-300 dark:hover:border-gray-600 focus:outline-none focus:ring-2 focus:ring-primary-500
+                      ${item.checked ? 'line-through text-gray-400' : 'text-gray-900 dark:text-white'}
+                    `}
+                  />
+                  <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                    <button
+                      onClick={() => onUpdate(item.id, { position: index - 1 })}
+                      disabled={index === 0}
+                      className="px-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      ↑
+                    </button>
+                    <button
+                      onClick={() => onUpdate(item.id, { position: index + 1 })}
+                      disabled={index === total - 1}
+                      className="px-1 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      ↓
+                    </button>
+                    <button
+                      onClick={() => onDelete(item.id)}
+                      className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 text-xs"
+                    >
+                      Delete
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          </>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No items yet. Break the card into steps that can be ticked off.
+          </p>
+        )}
+
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4 flex items-center gap-2">
+          <div className="flex-1">
+            <Input
+              value={newText}
+              onChange={(e) => setNewText(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAdd();
+              }}
+              placeholder="New item..."
+            />
+          </div>
+          <Button size="sm" onClick={handleAdd} disabled={!newText.trim()}>
+            Add
+          </Button>
+        </div>
+      </div>
+    </Modal>
+  );
+}
@@ -2,7 +2,9 @@ import { useState, useRef, useEffect, useCallback, memo } from 'react';
 import { Droppable, Draggable } from '@hello-pangea/dnd';
 import { Card } from './Card';
 import { useClickOutside } from '../hooks/useClickOutside';
-import type { Column as ColumnType, Card as CardType } from '../types';
+import { getDueStatus, todayString } from '../utils/dates';
+import { totalEstimate } from '../utils/priority';
+import type { Column as ColumnType, Card as CardType, CardUpdates, Label, Member } from '../types';
 
 const MoreDotsIcon = (
   <svg className="w-4 h-4" fill="currentColor" viewBox="0 0 20 20">
@@ -14,21 +16,35 @@ interface ColumnProps {
   column: ColumnType;
   index: number;
   allCards: Map<string, CardType>;
+  labelsById: Map<string, Label>;
+  activeLabelId: string | null;
+  membersById: Map<string, Member>;
   doneColumnId: string | null;
+  sortByPriority: boolean;
+  onToggleSortByPriority: (columnId: string) => void;
   onRename: (columnId: string, name: string) => void;
   onDelete: (columnId: string) => void;
   onAddCard: (columnId: string, title: string, description?: string) => void;
-  onUpdateCard: (cardId: string, updates: { title?: string; description?: string }) => void;
+  onUpdateCard: (cardId: string, updates: CardUpdates) => void;
   onDeleteCard: (cardId: string) => void;
   onShowDependencies: (card: CardType) => void;
   onShowHistory: (card: CardType) => void;
+  onShowLabels: (card: CardType) => void;
+  onShowAssignees: (card: CardType) => void;
+  onShowChecklist: (card: CardType) => void;
+  onLabelClick: (labelId: string) => void;
 }
 
 export const Column = memo(function Column({
   column,
   index,
   allCards,
+  labelsById,
+  activeLabelId,
+  membersById,
   doneColumnId,
+  sortByPriority,
+  onToggleSortByPriority,
   onRename,
   onDelete,
   onAddCard,
@@ -36,6 +52,10 @@ export const Column = memo(function Column({
   onDeleteCard,
   onShowDependencies,
   onShowHistory,
+  onShowLabels,
+  onShowAssignees,
+  onShowChecklist,
+  onLabelClick,
 }: ColumnProps) {
   const [isEditing, setIsEditing] = useState(false);
   const [editName, setEditName] = useState(column.name);
@@ -77,6 +97,9 @@ export const Column = memo(function Column({
     }
   };
 
+  const today = todayString();
+  const estimate = totalEstimate(column.cards);
+
   const checkUnresolvedDependencies = (card: CardType): boolean => {
     if (card.dependencies.length === 0) return false;
     return card.dependencies.some((depId) => {
@@ -123,6 +146,11 @@ export const Column = memo(function Column({
               </h3>
             )}
             <div className="flex items-center gap-1">
+              {estimate !== null && (
+                <span className="text-xs text-gray-400" title="Total estimate">
+                  Σ {estimate}
+                </span>
+              )}
               <span className="text-xs text-gray-400 px-2">{column.cards.length}</span>
               <div className="relative" ref={menuRef}>
                 <button
@@ -142,6 +170,15 @@ export const Column = memo(function Column({
                     >
                       Rename
                     </button>
+                    <button
+                      onClick={() => {
+                        onToggleSortByPriority(column.id);
+                        setShowMenu(false);
+                      }}
+                      className="w-full px-3 py-1.5 text-left text-sm text-gray-700 dark:text-gray-200 hover:bg-gray-100 dark:hover:bg-gray-700"
+                    >
+                      {sortByPriority ? 'Sort manually' : 'Sort by priority'}
+                    </button>
                     <button
                       onClick={() => {
                         onDelete(column.id);
@@ -173,12 +210,20 @@ export const Column = memo(function Column({
                     key={card.id}
                     card={card}
                     index={cardIndex}
+                    labelsById={labelsById}
+                    activeLabelId={activeLabelId}
+                    membersById={membersById}
                     onUpdate={onUpdateCard}
                     onDelete={onDeleteCard}
                     onShowDependencies={onShowDependencies}
                     onShowHistory={onShowHistory}
+                    onShowLabels={onShowLabels}
+                    onShowAssignees={onShowAssignees}
+                    onShowChecklist={onShowChecklist}
+                    onLabelClick={onLabelClick}
                     hasDependencies={card.dependencies.length > 0}
                     hasUnresolvedDependencies={checkUnresolvedDependencies(card)}
+                    dueStatus={column.id !== doneColumnId ? getDueStatus(card.due_date, today) : null}
                   />
                 ))}
                 {provided.placeholder}
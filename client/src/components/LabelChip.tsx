@@ -0,0 +1,28 @@
+import type { Label } from '../types';
+
+interface LabelChipProps {
+  label: Label;
+  active?: boolean;
+  onClick?: (e: React.MouseEvent) => void;
+}
+
+export function LabelChip({ label, active = false, onClick }: LabelChipProps) {
+  const className = `
+    inline-flex items-center px-2 py-0.5 rounded-full text-xs font-medium text-white truncate max-w-[10rem]
+    ${onClick ? 'cursor-pointer hover:opacity-80' : ''}
+    ${active ? 'ring-2 ring-offset-1 ring-gray-900 dark:ring-white dark:ring-offset-gray-800' : ''}
+  `;
+
+  if (onClick) {
+    return (
+      <button type="button" onClick={onClick} className={className} style={{ backgroundColor: label.color }} title={label.name}>
+        {label.name}
+      </button>
+    );
+  }
+  return (
+    <span className={className} style={{ backgroundColor: label.color }} title={label.name}>
+      {label.name}
+    </span>
+  );
+}
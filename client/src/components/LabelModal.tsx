@@ -0,0 +1,51 @@
+import { Modal } from './Modal';
+import { LabelChip } from './LabelChip';
+import type { Card, Label } from '../types';
+
+interface LabelModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  card: Card | null;
+  labels: Label[];
+  onLabel: (labelId: string) => void;
+  onUnlabel: (labelId: string) => void;
+}
+
+export function LabelModal({
+  isOpen,
+  onClose,
+  card,
+  labels,
+  onLabel,
+  onUnlabel,
+}: LabelModalProps) {
+  if (!card) return null;
+
+  const applied = new Set(card.labels);
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title={`Labels: ${card.title}`}>
+      {labels.length > 0 ? (
+        <ul className="space-y-2">
+          {labels.map((label) => (
+            <li key={label.id}>
+              <label className="flex items-center gap-3 p-2 bg-gray-50 dark:bg-gray-700 rounded-lg cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={applied.has(label.id)}
+                  onChange={() => (applied.has(label.id) ? onUnlabel(label.id) : onLabel(label.id))}
+                  className="rounded border-gray-300 dark:border-gray-600 text-primary-600 focus:ring-primary-500"
+                />
+                <LabelChip label={label} />
+              </label>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          This project has no labels yet. Create them in the project settings.
+        </p>
+      )}
+    </Modal>
+  );
+}
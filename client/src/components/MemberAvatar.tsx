@@ -0,0 +1,27 @@
+import type { Member } from '../types';
+
+interface MemberAvatarProps {
+  member: Member;
+  size?: 'sm' | 'md';
+}
+
+function initials(name: string): string {
+  const words = name.trim().split(/\s+/);
+  const letters = words.length > 1 ? words[0][0] + words[words.length - 1][0] : name.slice(0, 2);
+  return letters.toUpperCase();
+}
+
+// People are round, agents are square
+export function MemberAvatar({ member, size = 'sm' }: MemberAvatarProps) {
+  const sizeClass = size === 'sm' ? 'w-6 h-6 text-[10px]' : 'w-8 h-8 text-xs';
+  const shapeClass = member.kind === 'agent' ? 'rounded-md' : 'rounded-full';
+  return (
+    <span
+      className={`inline-flex items-center justify-center flex-shrink-0 font-semibold text-white ring-2 ring-white dark:ring-gray-800 ${sizeClass} ${shapeClass}`}
+      style={{ backgroundColor: member.color }}
+      title={member.kind === 'agent' ? `${member.name} (agent)` : member.name}
+    >
+      {initials(member.name)}
+    </span>
+  );
+}
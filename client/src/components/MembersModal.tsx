@@ -0,0 +1,168 @@
+import { useState } from 'react';
+import { Modal } from './Modal';
+import { Input } from './Input';
+import { Button } from './Button';
+import { MemberAvatar } from './MemberAvatar';
+import type { Member, MemberKind } from '../types';
+
+const DEFAULT_MEMBER_COLOR = '#8b5cf6';
+
+interface MembersModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  members: Member[];
+  currentMemberId: string | null;
+  onAddMember: (name: string, color: string, kind: MemberKind) => Promise<Member>;
+  onUpdateMember: (memberId: string, updates: { name?: string; color?: string; kind?: MemberKind }) => Promise<void>;
+  onRemoveMember: (memberId: string) => Promise<void>;
+  onSetCurrentMember: (memberId: string | null) => void;
+}
+
+export function MembersModal({
+  isOpen,
+  onClose,
+  members,
+  currentMemberId,
+  onAddMember,
+  onUpdateMember,
+  onRemoveMember,
+  onSetCurrentMember,
+}: MembersModalProps) {
+  const [newName, setNewName] = useState('');
+  const [newColor, setNewColor] = useState(DEFAULT_MEMBER_COLOR);
+  const [newKind, setNewKind] = useState<MemberKind>('human');
+  const [error, setError] = useState<string | null>(null);
+
+  const run = async (action: () => Promise<unknown>) => {
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      setError((err as Error).message);
+    }
+  };
+
+  const handleAdd = () => {
+    if (!newName.trim()) return;
+    run(async () => {
+      await onAddMember(newName.trim(), newColor, newKind);
+      setNewName('');
+    });
+  };
+
+  return (
+    <Modal isOpen={isOpen} onClose={onClose} title="Members">
+      <div className="space-y-4">
+        {members.length > 0 ? (
+          <ul className="space-y-2">
+            {members.map((member) => (
+              <li key={member.id} className="flex items-center gap-2">
+                <MemberAvatar member={member} size="md" />
+                <input
+                  key={member.name}
+                  type="text"
+                  defaultValue={member.name}
+                  onBlur={(e) => {
+                    const name = e.target.value.trim();
+                    if (name && name !== member.name) {
+                      run(() => onUpdateMember(member.id, { name }));
+                    } else {
+                      e.target.value = member.name;
+                    }
+                  }}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') e.currentTarget.blur();
+                  }}
+                  className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                />
+                <input
+                  key={member.color}
+                  type="color"
+                  defaultValue={member.color}
+                  onBlur={(e) => {
+                    if (e.target.value !== member.color) {
+                      run(() => onUpdateMember(member.id, { color: e.target.value }));
+                    }
+                  }}
+                  className="w-8 h-8 p-0 border-0 bg-transparent cursor-pointer"
+                  title="Avatar color"
+                />
+                <select
+                  value={member.kind}
+                  onChange={(e) => run(() => onUpdateMember(member.id, { kind: e.target.value as MemberKind }))}
+                  className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+                >
+                  <option value="human">Human</option>
+                  <option value="agent">Agent</option>
+                </select>
+                <label className="flex items-center gap-1 text-xs text-gray-600 dark:text-gray-300 whitespace-nowrap" title="The board's 'Assigned to me' filter shows this member's cards">
+                  <input
+                    type="radio"
+                    name="current-member"
+                    checked={member.id === currentMemberId}
+                    onChange={() => onSetCurrentMember(member.id)}
+                  />
+                  Me
+                </label>
+                <button
+                  onClick={() => {
+                    if (confirm(`Remove ${member.name}? They will be unassigned from every card.`)) {
+                      run(() => onRemoveMember(member.id));
+                    }
+                  }}
+                  className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 text-xs"
+                >
+                  Remove
+                </button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            No members yet. Add the people and agents that work on this workspace's boards.
+          </p>
+        )}
+        {currentMemberId && (
+          <button
+            onClick={() => onSetCurrentMember(null)}
+            className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+          >
+            I am none of these
+          </button>
+        )}
+
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-4 flex items-center gap-2">
+          <input
+            type="color"
+            value={newColor}
+            onChange={(e) => setNewColor(e.target.value)}
+            className="w-8 h-8 p-0 border-0 bg-transparent cursor-pointer"
+            title="Avatar color"
+          />
+          <div className="flex-1">
+            <Input
+              value={newName}
+              onChange={(e) => setNewName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleAdd();
+              }}
+              placeholder="New member..."
+            />
+          </div>
+          <select
+            value={newKind}
+            onChange={(e) => setNewKind(e.target.value as MemberKind)}
+            className="px-2 py-2 text-sm border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-800 text-gray-900 dark:text-white"
+          >
+            <option value="human">Human</option>
+            <option value="agent">Agent</option>
+          </select>
+          <Button size="sm" onClick={handleAdd} disabled={!newName.trim()}>
+            Add
+          </Button>
+        </div>
+        {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+      </div>
+    </Modal>
+  );
+}
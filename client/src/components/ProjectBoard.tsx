@@ -1,14 +1,28 @@
-import { useState, useCallback, useMemo, lazy, Suspense } from 'react';
+import { useState, useCallback, useEffect, useMemo, lazy, Suspense } from 'react';
 import { DragDropContext, Droppable, DropResult } from '@hello-pangea/dnd';
 import { Column } from './Column';
 import { CopyMcpCommand } from './CopyMcpCommand';
 import { Button } from './Button';
 import { Input } from './Input';
 import { Modal } from './Modal';
-import type { Project, Card as CardType } from '../types';
+import { LabelChip } from './LabelChip';
+import { compareByPriority } from '../utils/priority';
+import type { Project, Card as CardType, CardUpdates, ChecklistItemUpdates, Label, Member } from '../types';
 
 const DependencyModal = lazy(() => import('./DependencyModal').then(m => ({ default: m.DependencyModal })));
 const CardHistoryModal = lazy(() => import('./CardHistoryModal').then(m => ({ default: m.CardHistoryModal })));
+const LabelModal = lazy(() => import('./LabelModal').then(m => ({ default: m.LabelModal })));
+const AssigneeModal = lazy(() => import('./AssigneeModal').then(m => ({ default: m.AssigneeModal })));
+const ChecklistModal = lazy(() => import('./ChecklistModal').then(m => ({ default: m.ChecklistModal })));
+
+// The assignee filter: anyone, the member this browser acts as, or a member id
+const ME = 'me';
+
+const DEFAULT_LABEL_COLOR = '#3b82f6';
+
+function readPrioritySorted(key: string): ReadonlySet<string> {
+  return new Set<string>(JSON.parse(localStorage.getItem(key) ?? '[]'));
+}
 
 const SettingsIcon = (
   <svg className="w-4 h-4 mr-1" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -19,6 +33,8 @@ const SettingsIcon = (
 
 interface ProjectBoardProps {
   project: Project;
+  members: Member[];
+  currentMemberId: string | null;
   onUpdateProject: (updates: { name?: string; description?: string }) => void;
   onDeleteProject: () => void;
   onAddColumn: (name: string) => void;
@@ -26,15 +42,27 @@ interface ProjectBoardProps {
   onMoveColumn: (columnId: string, position: number) => void;
   onDeleteColumn: (columnId: string) => void;
   onAddCard: (columnId: string, title: string, description?: string) => void;
-  onUpdateCard: (cardId: string, updates: { title?: string; description?: string }) => void;
+  onUpdateCard: (cardId: string, updates: CardUpdates) => void;
   onMoveCard: (cardId: string, columnId: string, position?: number) => void;
   onDeleteCard: (cardId: string) => void;
   onAddDependency: (cardId: string, dependsOnCardId: string) => void;
   onRemoveDependency: (cardId: string, dependsOnCardId: string) => void;
+  onCreateLabel: (name: string, color: string) => void;
+  onRenameLabel: (labelId: string, name: string) => void;
+  onDeleteLabel: (labelId: string) => void;
+  onLabelCard: (cardId: string, labelId: string) => void;
+  onUnlabelCard: (cardId: string, labelId: string) => void;
+  onAssignCard: (cardId: string, memberId: string) => void;
+  onUnassignCard: (cardId: string, memberId: string) => void;
+  onAddChecklistItem: (cardId: string, text: string) => void;
+  onUpdateChecklistItem: (cardId: string, itemId: string, updates: ChecklistItemUpdates) => void;
+  onDeleteChecklistItem: (cardId: string, itemId: string) => void;
 }
 
 export function ProjectBoard({
   project,
+  members,
+  currentMemberId,
   onUpdateProject,
   onDeleteProject,
   onAddColumn,
@@ -47,6 +75,16 @@ export function ProjectBoard({
   onDeleteCard,
   onAddDependency,
   onRemoveDependency,
+  onCreateLabel,
+  onRenameLabel,
+  onDeleteLabel,
+  onLabelCard,
+  onUnlabelCard,
+  onAssignCard,
+  onUnassignCard,
+  onAddChecklistItem,
+  onUpdateChecklistItem,
+  onDeleteChecklistItem,
 }: ProjectBoardProps) {
   const [isEditingTitle, setIsEditingTitle] = useState(false);
   const [editTitle, setEditTitle] = useState(project.name);
@@ -55,6 +93,30 @@ export function ProjectBoard({
   const [newColumnName, setNewColumnName] = useState('');
   const [dependencyCard, setDependencyCard] = useState<CardType | null>(null);
   const [historyCard, setHistoryCard] = useState<CardType | null>(null);
+  const [labelCardId, setLabelCardId] = useState<string | null>(null);
+  const [labelFilter, setLabelFilter] = useState<string | null>(null);
+  const [assigneeCardId, setAssigneeCardId] = useState<string | null>(null);
+  const [assigneeFilter, setAssigneeFilter] = useState<string | null>(null);
+  const [checklistCardId, setChecklistCardId] = useState<string | null>(null);
+  const [newLabelName, setNewLabelName] = useState('');
+  const [newLabelColor, setNewLabelColor] = useState(DEFAULT_LABEL_COLOR);
+
+  // Columns sorted by priority rather than manual position, remembered per project
+  const prioritySortKey = `priority-sort:${project.id}`;
+  const [prioritySorted, setPrioritySorted] = useState(() => readPrioritySorted(prioritySortKey));
+
+  useEffect(() => {
+    setPrioritySorted(readPrioritySorted(prioritySortKey));
+  }, [prioritySortKey]);
+
+  const toggleSortByPriority = useCallback((columnId: string) => {
+    setPrioritySorted((current) => {
+      // Columns deleted since are dropped
+      const next = new Set(project.columns.map((col) => col.id).filter((id) => current.has(id) !== (id === columnId)));
+      localStorage.setItem(prioritySortKey, JSON.stringify([...next]));
+      return next;
+    });
+  }, [project.columns, prioritySortKey]);
 
   // Build a map of all cards for quick lookup
   const allCards = useMemo(() => {
@@ -67,12 +129,63 @@ export function ProjectBoard({
     return map;
   }, [project.columns]);
 
+  const labelsById = useMemo(
+    () => new Map<string, Label>(project.labels.map((label) => [label.id, label])),
+    [project.labels]
+  );
+
+  const membersById = useMemo(
+    () => new Map<string, Member>(members.map((member) => [member.id, member])),
+    [members]
+  );
+
+  // A filter on a label that has since been deleted no longer applies
+  const activeLabelId = labelFilter && labelsById.has(labelFilter) ? labelFilter : null;
+
+  // Likewise a filter on a removed member, or on "me" when this browser is nobody
+  const assigneeId = assigneeFilter === ME ? currentMemberId : assigneeFilter;
+  const activeAssigneeId = assigneeId && membersById.has(assigneeId) ? assigneeId : null;
+
+  // Whether a card passes the active filters, or null when nothing is filtered
+  const isShown = useMemo(
+    () => activeLabelId || activeAssigneeId
+      ? (card: CardType) => (!activeLabelId || card.labels.includes(activeLabelId))
+        && (!activeAssigneeId || card.assignees.includes(activeAssigneeId))
+      : null,
+    [activeLabelId, activeAssigneeId]
+  );
+
   // Sort columns by position (memoized, immutable)
   const sortedColumns = useMemo(
     () => project.columns.toSorted((a, b) => a.position - b.position),
     [project.columns]
   );
 
+  // Columns as shown: with a filter, only the cards that pass it, and in
+  // priority order where the column is sorted by priority
+  const visibleColumns = useMemo(
+    () => isShown || prioritySorted.size > 0
+      ? sortedColumns.map((col) => {
+        const cards = isShown ? col.cards.filter(isShown) : col.cards;
+        return { ...col, cards: prioritySorted.has(col.id) ? cards.toSorted(compareByPriority) : cards };
+      })
+      : sortedColumns,
+    [sortedColumns, isShown, prioritySorted]
+  );
+
+  const toggleLabelFilter = useCallback((labelId: string) => {
+    setLabelFilter((current) => (current === labelId ? null : labelId));
+  }, []);
+
+  const showLabels = useCallback((card: CardType) => setLabelCardId(card.id), []);
+  const labelCard = labelCardId ? allCards.get(labelCardId) ?? null : null;
+
+  const showAssignees = useCallback((card: CardType) => setAssigneeCardId(card.id), []);
+  const assigneeCard = assigneeCardId ? allCards.get(assigneeCardId) ?? null : null;
+
+  const showChecklist = useCallback((card: CardType) => setChecklistCardId(card.id), []);
+  const checklistCard = checklistCardId ? allCards.get(checklistCardId) ?? null : null;
+
   // Find the "Done" column (last column by convention)
   const doneColumnId = useMemo(() => {
     return sortedColumns.length > 0 ? sortedColumns[sortedColumns.length - 1].id : null;
@@ -91,12 +204,27 @@ export function ProjectBoard({
         // Moving a column
         const columnId = draggableId.replace('column-', '');
         onMoveColumn(columnId, destination.index);
+      } else if (prioritySorted.has(destination.droppableId)) {
+        // The order of a column sorted by priority is not manual: a card
+        // dropped in from elsewhere goes to the end of its manual order
+        if (destination.droppableId !== source.droppableId) {
+          onMoveCard(draggableId, destination.droppableId);
+        }
+      } else if (isShown) {
+        // Only some cards are shown: drop next to the shown card at that index
+        const cards = (sortedColumns.find((col) => col.id === destination.droppableId)?.cards ?? [])
+          .filter((card) => card.id !== draggableId);
+        const shown = cards.filter(isShown);
+        const position = destination.index < shown.length
+          ? cards.indexOf(shown[destination.index])
+          : shown.length > 0 ? cards.indexOf(shown[shown.length - 1]) + 1 : cards.length;
+        onMoveCard(draggableId, destination.droppableId, position);
       } else {
         // Moving a card
         onMoveCard(draggableId, destination.droppableId, destination.index);
       }
     },
-    [onMoveColumn, onMoveCard]
+    [onMoveColumn, onMoveCard, sortedColumns, isShown, prioritySorted]
   );
 
   const handleSaveTitle = () => {
@@ -106,6 +234,13 @@ export function ProjectBoard({
     setIsEditingTitle(false);
   };
 
+  const handleCreateLabel = () => {
+    if (newLabelName.trim()) {
+      onCreateLabel(newLabelName.trim(), newLabelColor);
+      setNewLabelName('');
+    }
+  };
+
   const handleAddColumn = () => {
     if (newColumnName.trim()) {
       onAddColumn(newColumnName.trim());
@@ -155,6 +290,51 @@ export function ProjectBoard({
         </div>
       </div>
 
+      {/* Filters */}
+      {(project.labels.length > 0 || members.length > 0) && (
+        <div className="px-6 py-2 border-b border-gray-200 dark:border-gray-700 flex items-center gap-2 flex-wrap bg-white dark:bg-gray-900">
+          {members.length > 0 && (
+            <select
+              value={activeAssigneeId ? assigneeFilter! : ''}
+              onChange={(e) => setAssigneeFilter(e.target.value || null)}
+              className="px-2 py-1 text-xs border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-700 dark:text-gray-200"
+            >
+              <option value="">Assigned to anyone</option>
+              {currentMemberId && <option value={ME}>Assigned to me</option>}
+              {members.map((member) => (
+                <option key={member.id} value={member.id}>
+                  Assigned to {member.name}{member.kind === 'agent' ? ' (agent)' : ''}
+                </option>
+              ))}
+            </select>
+          )}
+          {project.labels.length > 0 && (
+            <>
+              <span className="text-xs text-gray-500 dark:text-gray-400">Filter by label:</span>
+              {project.labels.map((label) => (
+                <LabelChip
+                  key={label.id}
+                  label={label}
+                  active={label.id === activeLabelId}
+                  onClick={() => toggleLabelFilter(label.id)}
+                />
+              ))}
+            </>
+          )}
+          {isShown && (
+            <button
+              onClick={() => {
+                setLabelFilter(null);
+                setAssigneeFilter(null);
+              }}
+              className="text-xs text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
+            >
+              Clear
+            </button>
+          )}
+        </div>
+      )}
+
       {/* Board */}
       <div className="flex-1 overflow-x-auto bg-gray-50 dark:bg-gray-800 p-6">
         <DragDropContext onDragEnd={handleDragEnd}>
@@ -165,13 +345,18 @@ export function ProjectBoard({
                 {...provided.droppableProps}
                 className="flex gap-4 h-full items-start"
               >
-                {sortedColumns.map((column, index) => (
+                {visibleColumns.map((column, index) => (
                     <Column
                       key={column.id}
                       column={column}
                       index={index}
                       allCards={allCards}
+                      labelsById={labelsById}
+                      activeLabelId={activeLabelId}
+                      membersById={membersById}
                       doneColumnId={doneColumnId}
+                      sortByPriority={prioritySorted.has(column.id)}
+                      onToggleSortByPriority={toggleSortByPriority}
                       onRename={onRenameColumn}
                       onDelete={onDeleteColumn}
                       onAddCard={onAddCard}
@@ -179,6 +364,10 @@ export function ProjectBoard({
                       onDeleteCard={onDeleteCard}
                       onShowDependencies={setDependencyCard}
                       onShowHistory={setHistoryCard}
+                      onShowLabels={showLabels}
+                      onShowAssignees={showAssignees}
+                      onShowChecklist={showChecklist}
+                      onLabelClick={toggleLabelFilter}
                     />
                   ))}
                 {provided.placeholder}
@@ -254,6 +443,68 @@ export function ProjectBoard({
             />
           </div>
 
+          <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
+            <h4 className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">Labels</h4>
+            {project.labels.length > 0 && (
+              <ul className="space-y-2 mb-3">
+                {project.labels.map((label) => (
+                  <li key={label.id} className="flex items-center gap-2">
+                    <span className="w-4 h-4 rounded-full flex-shrink-0" style={{ backgroundColor: label.color }} />
+                    <input
+                      key={label.name}
+                      type="text"
+                      defaultValue={label.name}
+                      onBlur={(e) => {
+                        const name = e.target.value.trim();
+                        if (name && name !== label.name) {
+                          onRenameLabel(label.id, name);
+                        } else {
+                          e.target.value = label.name;
+                        }
+                      }}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') e.currentTarget.blur();
+                      }}
+                      className="flex-1 px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-800 text-gray-900 dark:text-white focus:outline-none focus:ring-2 focus:ring-primary-500"
+                    />
+                    <button
+                      onClick={() => {
+                        if (confirm(`Delete the label "${label.name}"? It will be removed from every card.`)) {
+                          onDeleteLabel(label.id);
+                        }
+                      }}
+                      className="text-red-500 hover:text-red-700 dark:text-red-400 dark:hover:text-red-300 text-xs"
+                    >
+                      Delete
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <div className="flex items-center gap-2">
+              <input
+                type="color"
+                value={newLabelColor}
+                onChange={(e) => setNewLabelColor(e.target.value)}
+                className="w-8 h-8 p-0 border-0 bg-transparent cursor-pointer"
+                title="Label color"
+              />
+              <div className="flex-1">
+                <Input
+                  value={newLabelName}
+                  onChange={(e) => setNewLabelName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') handleCreateLabel();
+                  }}
+                  placeholder="New label..."
+                />
+              </div>
+              <Button size="sm" onClick={handleCreateLabel} disabled={!newLabelName.trim()}>
+                Add
+              </Button>
+            </div>
+          </div>
+
           <div className="border-t border-gray-200 dark:border-gray-700 pt-4">
             <CopyMcpCommand projectId={project.id} />
           </div>
@@ -295,6 +546,62 @@ export function ProjectBoard({
         </Suspense>
       )}
 
+      {/* Label Modal */}
+      {labelCard && (
+        <Suspense fallback={null}>
+          <LabelModal
+            isOpen
+            onClose={() => setLabelCardId(null)}
+            card={labelCard}
+            labels={project.labels}
+            onLabel={(labelId) => {
+              onLabelCard(labelCard.id, labelId);
+            }}
+            onUnlabel={(labelId) => {
+              onUnlabelCard(labelCard.id, labelId);
+            }}
+          />
+        </Suspense>
+      )}
+
+      {/* Assignee Modal */}
+      {assigneeCard && (
+        <Suspense fallback={null}>
+          <AssigneeModal
+            isOpen
+            onClose={() => setAssigneeCardId(null)}
+            card={assigneeCard}
+            members={members}
+            onAssign={(memberId) => {
+              onAssignCard(assigneeCard.id, memberId);
+            }}
+            onUnassign={(memberId) => {
+              onUnassignCard(assigneeCard.id, memberId);
+            }}
+          />
+        </Suspense>
+      )}
+
+      {/* Checklist Modal */}
+      {checklistCard && (
+        <Suspense fallback={null}>
+          <ChecklistModal
+            isOpen
+            onClose={() => setChecklistCardId(null)}
+            card={checklistCard}
+            onAdd={(text) => {
+              onAddChecklistItem(checklistCard.id, text);
+            }}
+            onUpdate={(itemId, updates) => {
+              onUpdateChecklistItem(checklistCard.id, itemId, updates);
+            }}
+            onDelete={(itemId) => {
+              onDeleteChecklistItem(checklistCard.id, itemId);
+            }}
+          />
+        </Suspense>
+      )}
+
       {/* History Modal */}
       {historyCard && (
         <Suspense fallback={null}>
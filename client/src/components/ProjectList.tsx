@@ -1,24 +1,41 @@
 import { useState } from 'react';
-import type { Project } from '../types';
+import type { Member, MemberKind, Project, ProjectActivity } from '../types';
 import { Modal } from './Modal';
 import { Input } from './Input';
 import { Button } from './Button';
 import { ThemeToggle } from './ThemeToggle';
+import { MemberAvatar } from './MemberAvatar';
+import { MembersModal } from './MembersModal';
 
 interface ProjectListProps {
   projects: Project[];
   selectedProjectId: string | null;
+  activity?: Record<string, ProjectActivity>;
   onSelectProject: (projectId: string) => void;
   onCreateProject: (name: string, description?: string) => Promise<Project>;
+  members: Member[];
+  currentMemberId: string | null;
+  onAddMember: (name: string, color: string, kind: MemberKind) => Promise<Member>;
+  onUpdateMember: (memberId: string, updates: { name?: string; color?: string; kind?: MemberKind }) => Promise<void>;
+  onRemoveMember: (memberId: string) => Promise<void>;
+  onSetCurrentMember: (memberId: string | null) => void;
 }
 
 export function ProjectList({
   projects,
   selectedProjectId,
+  activity = {},
   onSelectProject,
   onCreateProject,
+  members,
+  currentMemberId,
+  onAddMember,
+  onUpdateMember,
+  onRemoveMember,
+  onSetCurrentMember,
 }: ProjectListProps) {
   const [isCreating, setIsCreating] = useState(false);
+  const [showMembers, setShowMembers] = useState(false);
   const [newName, setNewName] = useState('');
   const [newDescription, setNewDescription] = useState('');
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -52,33 +69,72 @@ export function ProjectList({
           </div>
         ) : (
           <ul className="space-y-1">
-            {projects.map((project) => (
-              <li key={project.id}>
-                <button
-                  onClick={() => onSelectProject(project.id)}
-                  className={`
-                    w-full px-3 py-2 text-left rounded-lg transition-colors
-                    ${selectedProjectId === project.id
-                      ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300'
-                      : 'hover:bg-gray-100 text-gray-700 dark:hover:bg-gray-800 dark:text-gray-200'
-                    }
-                  `}
-                >
-                  <span className="font-medium text-sm truncate block">
-                    {project.name}
-                  </span>
-                  {project.description && (
-                    <span className="text-xs text-gray-500 dark:text-gray-400 truncate block">
-                      {project.description}
+            {projects.map((project) => {
+              const projectActivity = project.id !== selectedProjectId ? activity[project.id] : undefined;
+              return (
+                <li key={project.id}>
+                  <button
+                    onClick={() => onSelectProject(project.id)}
+                    className={`
+                      w-full px-3 py-2 text-left rounded-lg transition-colors
+                      ${selectedProjectId === project.id
+                        ? 'bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300'
+                        : 'hover:bg-gray-100 text-gray-700 dark:hover:bg-gray-800 dark:text-gray-200'
+                      }
+                    `}
+                  >
+                    <span className="flex items-center gap-2">
+                      <span className="font-medium text-sm truncate block flex-1">
+                        {project.name}
+                      </span>
+                      {projectActivity && (
+                        <span
+                          className="flex-shrink-0 inline-flex items-center px-1.5 py-0.5 rounded-full text-[10px] font-medium bg-primary-100 text-primary-700 dark:bg-primary-900/30 dark:text-primary-300"
+                          title={`Last change: ${new Date(projectActivity.timestamp).toLocaleString()}`}
+                        >
+                          {projectActivity.event_count} new
+                        </span>
+                      )}
                     </span>
-                  )}
-                </button>
-              </li>
-            ))}
+                    {project.description && (
+                      <span className="text-xs text-gray-500 dark:text-gray-400 truncate block">
+                        {project.description}
+                      </span>
+                    )}
+                  </button>
+                </li>
+              );
+            })}
           </ul>
         )}
       </div>
 
+      <div className="px-4 py-3 border-t border-gray-200 dark:border-gray-700">
+        <div className="flex items-center justify-between mb-2">
+          <h3 className="text-xs font-semibold uppercase tracking-wide text-gray-500 dark:text-gray-400">Members</h3>
+          <button
+            onClick={() => setShowMembers(true)}
+            className="text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400 dark:hover:text-primary-300"
+          >
+            Manage
+          </button>
+        </div>
+        {members.length > 0 ? (
+          <div className="flex flex-wrap gap-1">
+            {members.map((member) => (
+              <span
+                key={member.id}
+                className={member.id === currentMemberId ? 'rounded-full ring-2 ring-primary-500' : undefined}
+              >
+                <MemberAvatar member={member} />
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-400">No members yet</p>
+        )}
+      </div>
+
       <div className="p-4 border-t border-gray-200 dark:border-gray-700">
         <Button
           onClick={() => setIsCreating(true)}
@@ -88,6 +144,17 @@ export function ProjectList({
         </Button>
       </div>
 
+      <MembersModal
+        isOpen={showMembers}
+        onClose={() => setShowMembers(false)}
+        members={members}
+        currentMemberId={currentMemberId}
+        onAddMember={onAddMember}
+        onUpdateMember={onUpdateMember}
+        onRemoveMember={onRemoveMember}
+        onSetCurrentMember={onSetCurrentMember}
+      />
+
       <Modal
         isOpen={isCreating}
         onClose={() => {
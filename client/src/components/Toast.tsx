@@ -0,0 +1,39 @@
+import { useEffect } from 'react';
+
+interface ToastProps {
+  message: string;
+  actionLabel?: string;
+  onAction?: () => void;
+  onDismiss: () => void;
+  duration?: number;
+}
+
+export function Toast({ message, actionLabel, onAction, onDismiss, duration = 8000 }: ToastProps) {
+  // Restart the timer whenever the toast shows something new
+  useEffect(() => {
+    const timeout = setTimeout(onDismiss, duration);
+    return () => clearTimeout(timeout);
+  }, [message, actionLabel, onDismiss, duration]);
+
+  return (
+    <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 px-4 py-3 rounded-lg shadow-lg bg-gray-900 text-white dark:bg-gray-700 text-sm">
+      <span className="max-w-sm truncate">{message}</span>
+      {actionLabel && onAction && (
+        <button
+          onClick={onAction}
+          className="font-semibold text-primary-300 hover:text-primary-200 transition-colors"
+        >
+          {actionLabel}
+        </button>
+      )}
+      <button
+        onClick={onDismiss}
+        className="text-gray-400 hover:text-gray-200 transition-colors"
+      >
+        <svg className="w-4 h-4" fill="none" viewBox="0 0 24 24" stroke="currentColor">
+          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
+        </svg>
+      </button>
+    </div>
+  );
+}
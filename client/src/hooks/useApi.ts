@@ -1,6 +1,7 @@
 import { useState, useCallback, useRef, useEffect } from 'react';
-import type { Project, Card, Column, CardEvent } from '../types';
+import type { Project, Card, CardUpdates, ChecklistItemUpdates, Column, Label, Member, MemberKind, CardEvent, ProjectActivity, UndoEntry, UndoStatus } from '../types';
 import { useProjectEvents } from './useProjectEvents';
+import { useWorkspaceEvents } from './useWorkspaceEvents';
 
 const API_BASE = '/api';
 
@@ -9,6 +10,7 @@ async function fetchApi<T>(path: string, options?: RequestInit): Promise<T> {
     ...options,
     headers: {
       'Content-Type': 'application/json',
+      'X-Source': 'web',
       ...options?.headers,
     },
   });
@@ -47,16 +49,131 @@ export function useWorkspace(workspaceId: string) {
     }
   }, [workspaceId]);
 
+  // Background refresh for changes made elsewhere; keeps the current list on
+  // screen instead of showing the loading state
+  const refreshProjects = useCallback(async () => {
+    if (!workspaceId) return;
+    try {
+      const data = await fetchApi<Project[]>(`/workspaces/${workspaceId}/projects`);
+      setProjects(data);
+    } catch {
+      // Keep the current list; the next event triggers another refresh
+    }
+  }, [workspaceId]);
+
   const createProject = useCallback(async (name: string, description?: string) => {
     const project = await fetchApi<Project>(`/workspaces/${workspaceId}/projects`, {
       method: 'POST',
       body: JSON.stringify({ name, description }),
     });
-    setProjects((prev) => [...prev, project]);
+    setProjects((prev) => prev.some((p) => p.id === project.id) ? prev : [...prev, project]);
     return project;
   }, [workspaceId]);
 
-  return { projects, loading, error, loadProjects, createProject };
+  // Member directory
+  const [members, setMembers] = useState<Member[]>([]);
+
+  const loadMembers = useCallback(async () => {
+    if (!workspaceId) return;
+    try {
+      setMembers(await fetchApi<Member[]>(`/workspaces/${workspaceId}/members`));
+    } catch {
+      // Keep the current list; the next event triggers another refresh
+    }
+  }, [workspaceId]);
+
+  const addMember = useCallback(async (name: string, color: string, kind: MemberKind) => {
+    const member = await fetchApi<Member>(`/workspaces/${workspaceId}/members`, {
+      method: 'POST',
+      body: JSON.stringify({ name, color, kind }),
+    });
+    await loadMembers();
+    return member;
+  }, [workspaceId, loadMembers]);
+
+  const updateMember = useCallback(async (memberId: string, updates: { name?: string; color?: string; kind?: MemberKind }) => {
+    await fetchApi(`/workspaces/${workspaceId}/members/${memberId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+    await loadMembers();
+  }, [workspaceId, loadMembers]);
+
+  const removeMember = useCallback(async (memberId: string) => {
+    await fetchApi(`/workspaces/${workspaceId}/members/${memberId}`, { method: 'DELETE' });
+    await loadMembers();
+  }, [workspaceId, loadMembers]);
+
+  // Which member this browser acts as, remembered per workspace
+  const meKey = `member:${workspaceId}`;
+  const [storedMeId, setStoredMeId] = useState<string | null>(() => localStorage.getItem(meKey));
+
+  useEffect(() => {
+    setStoredMeId(localStorage.getItem(meKey));
+  }, [meKey]);
+
+  const setCurrentMemberId = useCallback((memberId: string | null) => {
+    if (memberId) {
+      localStorage.setItem(meKey, memberId);
+    } else {
+      localStorage.removeItem(meKey);
+    }
+    setStoredMeId(memberId);
+  }, [meKey]);
+
+  // A remembered member that has since been removed is nobody
+  const currentMemberId = storedMeId && members.some((m) => m.id === storedMeId) ? storedMeId : null;
+
+  // Recent activity per project, reported by the workspace stream
+  const [activity, setActivity] = useState<Record<string, ProjectActivity>>({});
+
+  const clearActivity = useCallback((projectId: string) => {
+    setActivity((prev) => {
+      if (!prev[projectId]) return prev;
+      const { [projectId]: _cleared, ...rest } = prev;
+      return rest;
+    });
+  }, []);
+
+  const { status: sseStatus } = useWorkspaceEvents(workspaceId || null, {
+    onProjectsChanged: refreshProjects,
+    onMembersChanged: loadMembers,
+    onActivity: useCallback((event: ProjectActivity) => {
+      setActivity((prev) => {
+        const previous = prev[event.project_id];
+        return {
+          ...prev,
+          [event.project_id]: {
+            ...event,
+            event_count: (previous?.event_count ?? 0) + event.event_count,
+          },
+        };
+      });
+    }, []),
+  });
+
+  return {
+    projects,
+    loading,
+    error,
+    sseStatus,
+    activity,
+    members,
+    currentMemberId,
+    loadProjects,
+    createProject,
+    clearActivity,
+    loadMembers,
+    addMember,
+    updateMember,
+    removeMember,
+    setCurrentMemberId,
+  };
+}
+
+interface UndoToast {
+  message: string;
+  action: 'undo' | 'redo' | null;
 }
 
 export function useProject(projectId: string | null) {
@@ -81,6 +198,40 @@ export function useProject(projectId: string | null) {
     }
   }, [projectId]);
 
+  // What the undo toast offers: undoing the change just made from this
+  // client, or redoing what was just undone
+  const [undoToast, setUndoToast] = useState<UndoToast | null>(null);
+
+  useEffect(() => {
+    setUndoToast(null);
+  }, [projectId]);
+
+  const offerUndo = useCallback(async () => {
+    if (!projectId) return;
+    const status = await fetchApi<UndoStatus>(`/projects/${projectId}/undo`);
+    setUndoToast(status.undo ? { message: status.undo.summary, action: 'undo' } : null);
+  }, [projectId]);
+
+  const reverse = useCallback(async (action: 'undo' | 'redo') => {
+    if (!projectId) return;
+    try {
+      const result = await fetchApi<UndoStatus & { reversed: UndoEntry; project: Project }>(
+        `/projects/${projectId}/${action}`,
+        { method: 'POST' }
+      );
+      setProject(result.project);
+      setUndoToast(action === 'undo'
+        ? { message: `Undone: ${result.reversed.summary}`, action: result.redo ? 'redo' : null }
+        : { message: `Redone: ${result.reversed.summary}`, action: result.undo ? 'undo' : null });
+    } catch (err) {
+      setUndoToast({ message: (err as Error).message, action: null });
+    }
+  }, [projectId]);
+
+  const undo = useCallback(() => reverse('undo'), [reverse]);
+  const redo = useCallback(() => reverse('redo'), [reverse]);
+  const dismissUndoToast = useCallback(() => setUndoToast(null), []);
+
   // Keep ref updated for SSE callback
   useEffect(() => {
     loadProjectRef.current = loadProject;
@@ -101,8 +252,9 @@ export function useProject(projectId: string | null) {
       body: JSON.stringify(updates),
     });
     setProject(updated);
+    await offerUndo();
     return updated;
-  }, [projectId]);
+  }, [projectId, offerUndo]);
 
   const deleteProject = useCallback(async () => {
     if (!projectId) return;
@@ -118,7 +270,8 @@ export function useProject(projectId: string | null) {
       body: JSON.stringify({ name, position }),
     });
     await loadProject();
-  }, [projectId, loadProject]);
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
 
   const renameColumn = useCallback(async (columnId: string, name: string) => {
     if (!projectId) return;
@@ -127,7 +280,8 @@ export function useProject(projectId: string | null) {
       body: JSON.stringify({ project_id: projectId, name }),
     });
     await loadProject();
-  }, [projectId, loadProject]);
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
 
   const moveColumn = useCallback(async (columnId: string, position: number) => {
     if (!projectId || !projectRef.current) return;
@@ -157,10 +311,11 @@ export function useProject(projectId: string | null) {
         body: JSON.stringify({ project_id: projectId, position }),
       });
       await loadProject();
+      await offerUndo();
     } catch {
       setProject(previousProject);
     }
-  }, [projectId, loadProject]);
+  }, [projectId, loadProject, offerUndo]);
 
   const deleteColumn = useCallback(async (columnId: string) => {
     if (!projectId) return;
@@ -169,7 +324,8 @@ export function useProject(projectId: string | null) {
       body: JSON.stringify({ project_id: projectId }),
     });
     await loadProject();
-  }, [projectId, loadProject]);
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
 
   // Card operations
   const addCard = useCallback(async (columnId: string, title: string, description?: string) => {
@@ -179,16 +335,18 @@ export function useProject(projectId: string | null) {
       body: JSON.stringify({ project_id: projectId, title, description }),
     });
     await loadProject();
-  }, [projectId, loadProject]);
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
 
-  const updateCard = useCallback(async (cardId: string, updates: { title?: string; description?: string }) => {
+  const updateCard = useCallback(async (cardId: string, updates: CardUpdates) => {
     if (!projectId) return;
     await fetchApi(`/cards/${cardId}`, {
       method: 'PUT',
       body: JSON.stringify({ project_id: projectId, ...updates }),
     });
     await loadProject();
-  }, [projectId, loadProject]);
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
 
   const moveCard = useCallback(async (cardId: string, columnId: string, position?: number) => {
     if (!projectId || !projectRef.current) return;
@@ -257,11 +415,12 @@ export function useProject(projectId: string | null) {
       });
       // Reload to get the authoritative state from server
       await loadProject();
+      await offerUndo();
     } catch {
       // Revert on error
       setProject(previousProject);
     }
-  }, [projectId, loadProject]);
+  }, [projectId, loadProject, offerUndo]);
 
   const deleteCard = useCallback(async (cardId: string) => {
     if (!projectId) return;
@@ -270,7 +429,8 @@ export function useProject(projectId: string | null) {
       body: JSON.stringify({ project_id: projectId }),
     });
     await loadProject();
-  }, [projectId, loadProject]);
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
 
   // Dependency operations
   const addDependency = useCallback(async (cardId: string, dependsOnCardId: string) => {
@@ -280,7 +440,8 @@ export function useProject(projectId: string | null) {
       body: JSON.stringify({ project_id: projectId, depends_on_card_id: dependsOnCardId }),
     });
     await loadProject();
-  }, [projectId, loadProject]);
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
 
   const removeDependency = useCallback(async (cardId: string, dependsOnCardId: string) => {
     if (!projectId) return;
@@ -289,7 +450,110 @@ export function useProject(projectId: string | null) {
       body: JSON.stringify({ project_id: projectId }),
     });
     await loadProject();
-  }, [projectId, loadProject]);
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  // Label operations
+  const createLabel = useCallback(async (name: string, color: string) => {
+    if (!projectId) return;
+    await fetchApi<Label>(`/projects/${projectId}/labels`, {
+      method: 'POST',
+      body: JSON.stringify({ name, color }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  const renameLabel = useCallback(async (labelId: string, name: string) => {
+    if (!projectId) return;
+    await fetchApi(`/labels/${labelId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ project_id: projectId, name }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  const deleteLabel = useCallback(async (labelId: string) => {
+    if (!projectId) return;
+    await fetchApi(`/labels/${labelId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ project_id: projectId }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  const labelCard = useCallback(async (cardId: string, labelId: string) => {
+    if (!projectId) return;
+    await fetchApi(`/cards/${cardId}/labels`, {
+      method: 'POST',
+      body: JSON.stringify({ project_id: projectId, label_id: labelId }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  const unlabelCard = useCallback(async (cardId: string, labelId: string) => {
+    if (!projectId) return;
+    await fetchApi(`/cards/${cardId}/labels/${labelId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ project_id: projectId }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  // Assignment operations
+  const assignCard = useCallback(async (cardId: string, memberId: string) => {
+    if (!projectId) return;
+    await fetchApi(`/cards/${cardId}/assignees`, {
+      method: 'POST',
+      body: JSON.stringify({ project_id: projectId, member_id: memberId }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  const unassignCard = useCallback(async (cardId: string, memberId: string) => {
+    if (!projectId) return;
+    await fetchApi(`/cards/${cardId}/assignees/${memberId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ project_id: projectId }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  const addChecklistItem = useCallback(async (cardId: string, text: string) => {
+    if (!projectId) return;
+    await fetchApi(`/cards/${cardId}/checklist`, {
+      method: 'POST',
+      body: JSON.stringify({ project_id: projectId, text }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  const updateChecklistItem = useCallback(async (cardId: string, itemId: string, updates: ChecklistItemUpdates) => {
+    if (!projectId) return;
+    await fetchApi(`/cards/${cardId}/checklist/${itemId}`, {
+      method: 'PUT',
+      body: JSON.stringify({ project_id: projectId, ...updates }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
+
+  const deleteChecklistItem = useCallback(async (cardId: string, itemId: string) => {
+    if (!projectId) return;
+    await fetchApi(`/cards/${cardId}/checklist/${itemId}`, {
+      method: 'DELETE',
+      body: JSON.stringify({ project_id: projectId }),
+    });
+    await loadProject();
+    await offerUndo();
+  }, [projectId, loadProject, offerUndo]);
 
   return {
     project,
@@ -309,5 +573,19 @@ export function useProject(projectId: string | null) {
     deleteCard,
     addDependency,
     removeDependency,
+    createLabel,
+    renameLabel,
+    deleteLabel,
+    labelCard,
+    unlabelCard,
+    assignCard,
+    unassignCard,
+    addChecklistItem,
+    updateChecklistItem,
+    deleteChecklistItem,
+    undoToast,
+    undo,
+    redo,
+    dismissUndoToast,
   };
 }
@@ -15,6 +15,7 @@ export function useProjectEvents(
   const [status, setStatus] = useState<ConnectionStatus>('disconnected');
   const eventSourceRef = useRef<EventSource | null>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const lastEventIdRef = useRef<string | null>(null);
   const onEventRef = useRef(onEvent);
 
   // Keep onEvent ref updated
@@ -30,7 +31,11 @@ export function useProjectEvents(
 
     setStatus('connecting');
 
-    const eventSource = new EventSource(`/api/projects/${projectId}/events/stream`);
+    // Resume from the last event seen so the server replays what we missed
+    const resumeParam = lastEventIdRef.current
+      ? `?last_event_id=${encodeURIComponent(lastEventIdRef.current)}`
+      : '';
+    const eventSource = new EventSource(`/api/projects/${projectId}/events/stream${resumeParam}`);
     eventSourceRef.current = eventSource;
 
     eventSource.onopen = () => {
@@ -48,7 +53,10 @@ export function useProjectEvents(
     };
 
     // Listen for the connected event
-    eventSource.addEventListener('connected', () => {
+    eventSource.addEventListener('connected', (event) => {
+      if (event.lastEventId) {
+        lastEventIdRef.current = event.lastEventId;
+      }
       setStatus('connected');
     });
 
@@ -64,11 +72,31 @@ export function useProjectEvents(
       'ColumnDeleted',
       'DependencyAdded',
       'DependencyRemoved',
+      'LabelCreated',
+      'LabelRenamed',
+      'LabelDeleted',
+      'CardLabeled',
+      'CardUnlabeled',
+      'CardAssigned',
+      'CardUnassigned',
+      'CardScheduled',
+      'CardPlanned',
+      'ChecklistItemAdded',
+      'ChecklistItemRenamed',
+      'ChecklistItemChecked',
+      'ChecklistItemUnchecked',
+      'ChecklistItemMoved',
+      'ChecklistItemDeleted',
       'ProjectUpdated',
+      // Multi-event commands (e.g. deleting a column with cards) arrive as one batch
+      'batch',
     ];
 
     for (const eventType of projectEvents) {
       eventSource.addEventListener(eventType, (event) => {
+        if (event.lastEventId) {
+          lastEventIdRef.current = event.lastEventId;
+        }
         try {
           const data = JSON.parse(event.data);
           onEventRef.current?.(eventType, data);
@@ -79,6 +107,11 @@ export function useProjectEvents(
     }
   }, [projectId, enabled]);
 
+  // A resume point only makes sense for the project it came from
+  useEffect(() => {
+    lastEventIdRef.current = null;
+  }, [projectId]);
+
   useEffect(() => {
     connect();
 
@@ -0,0 +1,107 @@
+import { useEffect, useRef, useState, useCallback } from 'react';
+import type { ConnectionStatus } from './useProjectEvents';
+import type { ProjectActivity } from '../types';
+
+interface UseWorkspaceEventsOptions {
+  // Called for project lifecycle events (created, renamed, deleted, ...) and
+  // after every (re)connect, when changes may have been missed
+  onProjectsChanged?: () => void;
+  onActivity?: (activity: ProjectActivity) => void;
+  // Called for member directory changes and after every (re)connect
+  onMembersChanged?: () => void;
+  enabled?: boolean;
+}
+
+const PROJECT_LIFECYCLE_EVENTS = [
+  'ProjectCreated',
+  'ProjectRenamed',
+  'ProjectDescriptionUpdated',
+  'ProjectDeleted',
+];
+
+const MEMBER_EVENTS = [
+  'MemberAdded',
+  'MemberUpdated',
+  'MemberRemoved',
+];
+
+export function useWorkspaceEvents(
+  workspaceId: string | null,
+  options: UseWorkspaceEventsOptions = {}
+) {
+  const { enabled = true } = options;
+  const [status, setStatus] = useState<ConnectionStatus>('disconnected');
+  const eventSourceRef = useRef<EventSource | null>(null);
+  const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  const optionsRef = useRef(options);
+
+  // Keep callbacks ref updated
+  optionsRef.current = options;
+
+  const connect = useCallback(() => {
+    if (!workspaceId || !enabled) return;
+
+    // Close existing connection
+    if (eventSourceRef.current) {
+      eventSourceRef.current.close();
+    }
+
+    setStatus('connecting');
+
+    const eventSource = new EventSource(`/api/workspaces/${workspaceId}/events/stream`);
+    eventSourceRef.current = eventSource;
+
+    eventSource.onerror = () => {
+      setStatus('error');
+      eventSource.close();
+
+      // Reconnect after 3 seconds
+      reconnectTimeoutRef.current = setTimeout(() => {
+        connect();
+      }, 3000);
+    };
+
+    eventSource.addEventListener('connected', () => {
+      setStatus('connected');
+      optionsRef.current.onProjectsChanged?.();
+      optionsRef.current.onMembersChanged?.();
+    });
+
+    for (const eventType of PROJECT_LIFECYCLE_EVENTS) {
+      eventSource.addEventListener(eventType, () => {
+        optionsRef.current.onProjectsChanged?.();
+      });
+    }
+
+    for (const eventType of MEMBER_EVENTS) {
+      eventSource.addEventListener(eventType, () => {
+        optionsRef.current.onMembersChanged?.();
+      });
+    }
+
+    eventSource.addEventListener('ProjectActivity', (event) => {
+      try {
+        optionsRef.current.onActivity?.(JSON.parse(event.data));
+      } catch {
+        // Ignore parse errors
+      }
+    });
+  }, [workspaceId, enabled]);
+
+  useEffect(() => {
+    connect();
+
+    return () => {
+      if (reconnectTimeoutRef.current) {
+        clearTimeout(reconnectTimeoutRef.current);
+      }
+      if (eventSourceRef.current) {
+        eventSourceRef.current.close();
+        eventSourceRef.current = null;
+      }
+      setStatus('disconnected');
+    };
+  }, [connect]);
+
+  return { status };
+}
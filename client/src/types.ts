@@ -5,6 +5,55 @@ export interface Card {
   description: string;
   position: number;
   dependencies: string[];
+  external_id?: string;
+  labels: string[];
+  assignees: string[];
+  checklist: ChecklistItem[];
+  start_date?: string;
+  due_date?: string;
+  priority?: Priority;
+  estimate?: number;
+}
+
+export type Priority = 'P0' | 'P1' | 'P2' | 'P3';
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  checked: boolean;
+}
+
+// A checklist item is renamed, checked or unchecked and moved in one request
+export interface ChecklistItemUpdates {
+  text?: string;
+  checked?: boolean;
+  position?: number;
+}
+
+// Fields of a card that can be edited in place; null clears a date, the
+// priority or the estimate
+export interface CardUpdates {
+  title?: string;
+  description?: string;
+  start_date?: string | null;
+  due_date?: string | null;
+  priority?: Priority | null;
+  estimate?: number | null;
+}
+
+export interface Label {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export type MemberKind = 'human' | 'agent';
+
+export interface Member {
+  id: string;
+  name: string;
+  color: string;
+  kind: MemberKind;
 }
 
 export interface Column {
@@ -21,11 +70,29 @@ export interface Project {
   name: string;
   description: string;
   columns: Column[];
+  labels: Label[];
 }
 
 export interface Workspace {
   id: string;
   created_at: string;
+  members: Member[];
+}
+
+export interface UpcomingCard {
+  project_id: string;
+  project_name: string;
+  column_name: string;
+  card: Card;
+}
+
+export interface EventMetadata {
+  event_id?: string;
+  source: 'web' | 'mcp' | 'api' | 'automation';
+  actor_id?: string;
+  actor_name?: string;
+  correlation_id?: string;
+  causation_id?: string;
 }
 
 export interface CardEvent {
@@ -33,4 +100,24 @@ export interface CardEvent {
   event_type: string;
   event_data: Record<string, unknown>;
   timestamp: string;
+  metadata?: EventMetadata;
+}
+
+export interface ProjectActivity {
+  project_id: string;
+  event_count: number;
+  event_types: string[];
+  version: number;
+  timestamp: string;
+}
+
+export interface UndoEntry {
+  command_id: string;
+  summary: string;
+  timestamp: string;
+}
+
+export interface UndoStatus {
+  undo: UndoEntry | null;
+  redo: UndoEntry | null;
 }
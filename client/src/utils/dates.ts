@@ -0,0 +1,29 @@
+// Card dates are calendar days written as YYYY-MM-DD, compared as strings
+// against the local date
+
+// Cards due within this many days, today included, are due soon
+const DUE_SOON_DAYS = 2;
+
+export type DueStatus = 'overdue' | 'soon';
+
+function toDateString(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+export function todayString(): string {
+  return toDateString(new Date());
+}
+
+export function getDueStatus(dueDate: string | undefined, today: string): DueStatus | null {
+  if (!dueDate) return null;
+  if (dueDate < today) return 'overdue';
+  const soon = new Date(`${today}T00:00:00`);
+  soon.setDate(soon.getDate() + DUE_SOON_DAYS - 1);
+  return dueDate <= toDateString(soon) ? 'soon' : null;
+}
+
+export function formatDate(date: string): string {
+  return new Date(`${date}T00:00:00`).toLocaleDateString(undefined, { month: 'short', day: 'numeric' });
+}
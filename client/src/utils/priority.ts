@@ -0,0 +1,16 @@
+import type { Card, Priority } from '../types';
+
+// Most urgent first
+export const PRIORITIES: Priority[] = ['P0', 'P1', 'P2', 'P3'];
+
+// Orders cards by priority, cards without one last. Sorting is stable, so
+// cards of equal priority keep their manual order.
+export function compareByPriority(a: Card, b: Card): number {
+  const rank = (card: Card) => (card.priority ? PRIORITIES.indexOf(card.priority) : PRIORITIES.length);
+  return rank(a) - rank(b);
+}
+
+export function totalEstimate(cards: Card[]): number | null {
+  const estimated = cards.filter((card) => card.estimate !== undefined);
+  return estimated.length > 0 ? estimated.reduce((sum, card) => sum + card.estimate!, 0) : null;
+}
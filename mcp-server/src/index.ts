@@ -41,13 +41,15 @@ const { backendUrl, port } = parseArgs();
 const apiBase = `${backendUrl}/api`;
 
 // API helper functions
-async function apiRequest<T>(method: string, path: string, body?: unknown): Promise<T> {
+// actorName is recorded by the backend as the author of the resulting events
+async function apiRequest<T>(method: string, path: string, body?: unknown, actorName?: string): Promise<T> {
   const url = `${apiBase}${path}`;
   const options: RequestInit = {
     method,
     headers: {
       'Content-Type': 'application/json',
       'X-Source': 'mcp',
+      ...(actorName && { 'X-Actor-Name': actorName }),
     },
   };
   if (body) {
@@ -71,7 +73,7 @@ const tools = [
   // Project Management
   {
     name: 'get_project',
-    description: 'Get the Kanban board showing all tasks organized by workflow status, including task dependencies (blockers)',
+    description: 'Get the Kanban board showing all tasks organized by workflow status, including task dependencies (blockers) and checklists',
     inputSchema: {
       type: 'object',
       properties: {},
@@ -90,6 +92,8 @@ const tools = [
         title: { type: 'string', description: 'Task title' },
         description: { type: 'string', description: 'Task description (optional)' },
         position: { type: 'number', description: 'Position within the status (0 = top)' },
+        start_date: { type: 'string', description: 'Start date as YYYY-MM-DD (optional)' },
+        due_date: { type: 'string', description: 'Due date as YYYY-MM-DD (optional)' },
       },
       required: ['column_id', 'title'],
     },
@@ -109,13 +113,17 @@ const tools = [
   },
   {
     name: 'update_card',
-    description: "Update a task's title and/or description",
+    description: "Update a task's title, description, start date, due date, priority and/or estimate",
     inputSchema: {
       type: 'object',
       properties: {
         card_id: { type: 'string', description: 'ID of the task' },
         title: { type: 'string', description: 'New task title' },
         description: { type: 'string', description: 'New task description' },
+        start_date: { type: ['string', 'null'], description: 'Start date as YYYY-MM-DD, or null to clear it' },
+        due_date: { type: ['string', 'null'], description: 'Due date as YYYY-MM-DD, or null to clear it' },
+        priority: { type: ['string', 'null'], enum: ['P0', 'P1', 'P2', 'P3', null], description: 'Priority from P0 (most urgent) to P3, or null to clear it' },
+        estimate: { type: ['number', 'null'], minimum: 0, description: 'Estimate in story points or hours, or null to clear it' },
       },
       required: ['card_id'],
     },
@@ -180,6 +188,175 @@ const tools = [
     },
   },
 
+  // Label Management
+  {
+    name: 'list_labels',
+    description: 'List the labels defined on the board',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'create_label',
+    description: 'Define a new label that tasks can be tagged with',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the label' },
+        color: { type: 'string', description: 'Hex color such as #3b82f6 (optional)' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'rename_label',
+    description: 'Rename a label',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        label_id: { type: 'string', description: 'ID of the label' },
+        name: { type: 'string', description: 'New name of the label' },
+      },
+      required: ['label_id', 'name'],
+    },
+  },
+  {
+    name: 'delete_label',
+    description: 'Delete a label and remove it from every task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        label_id: { type: 'string', description: 'ID of the label' },
+      },
+      required: ['label_id'],
+    },
+  },
+  {
+    name: 'label_card',
+    description: 'Tag a task with a label',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        card_id: { type: 'string', description: 'ID of the task' },
+        label_id: { type: 'string', description: 'ID of the label' },
+      },
+      required: ['card_id', 'label_id'],
+    },
+  },
+  {
+    name: 'unlabel_card',
+    description: 'Remove a label from a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        card_id: { type: 'string', description: 'ID of the task' },
+        label_id: { type: 'string', description: 'ID of the label' },
+      },
+      required: ['card_id', 'label_id'],
+    },
+  },
+
+  // Member Management
+  {
+    name: 'list_members',
+    description: 'List the people and agents in the workspace that tasks can be assigned to',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'add_member',
+    description: 'Add a person or agent to the workspace, e.g. to register this session before assigning tasks to it',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        name: { type: 'string', description: 'Name of the member' },
+        kind: { type: 'string', enum: ['human', 'agent'], description: 'Whether the member is a person or an agent (default agent)' },
+        color: { type: 'string', description: 'Hex avatar color such as #3b82f6 (optional)' },
+      },
+      required: ['name'],
+    },
+  },
+  {
+    name: 'assign_card',
+    description: 'Assign a task to a workspace member',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        card_id: { type: 'string', description: 'ID of the task' },
+        member_id: { type: 'string', description: 'ID of the member' },
+      },
+      required: ['card_id', 'member_id'],
+    },
+  },
+  {
+    name: 'unassign_card',
+    description: 'Remove a member from a task',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        card_id: { type: 'string', description: 'ID of the task' },
+        member_id: { type: 'string', description: 'ID of the member' },
+      },
+      required: ['card_id', 'member_id'],
+    },
+  },
+
+  // Checklists
+  {
+    name: 'add_checklist_item',
+    description: "Add an item to a task's checklist, e.g. to break the task into steps",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        card_id: { type: 'string', description: 'ID of the task' },
+        text: { type: 'string', description: 'Text of the item' },
+        position: { type: 'number', description: 'Position in the checklist, 0 for first (optional, default last)' },
+      },
+      required: ['card_id', 'text'],
+    },
+  },
+  {
+    name: 'check_checklist_item',
+    description: 'Tick off a checklist item as done',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        card_id: { type: 'string', description: 'ID of the task' },
+        item_id: { type: 'string', description: 'ID of the checklist item' },
+      },
+      required: ['card_id', 'item_id'],
+    },
+  },
+  {
+    name: 'uncheck_checklist_item',
+    description: 'Mark a checklist item as not done',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        card_id: { type: 'string', description: 'ID of the task' },
+        item_id: { type: 'string', description: 'ID of the checklist item' },
+      },
+      required: ['card_id', 'item_id'],
+    },
+  },
+  {
+    name: 'delete_checklist_item',
+    description: "Remove an item from a task's checklist",
+    inputSchema: {
+      type: 'object',
+      properties: {
+        card_id: { type: 'string', description: 'ID of the task' },
+        item_id: { type: 'string', description: 'ID of the checklist item' },
+      },
+      required: ['card_id', 'item_id'],
+    },
+  },
+
   // Event History
   {
     name: 'get_history',
@@ -204,67 +381,172 @@ const tools = [
       required: ['card_id'],
     },
   },
+  {
+    name: 'undo',
+    description: 'Undo the most recent change to the board, whoever made it. Returns what was undone and what can be undone or redone next',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
+  {
+    name: 'redo',
+    description: 'Redo the most recently undone change to the board',
+    inputSchema: {
+      type: 'object',
+      properties: {},
+      required: [],
+    },
+  },
 ];
 
 // Tool handler function - takes projectId as parameter
-async function handleToolCall(projectId: string, name: string, args: Record<string, unknown> | undefined): Promise<unknown> {
+async function handleToolCall(
+  projectId: string,
+  name: string,
+  args: Record<string, unknown> | undefined,
+  actorName?: string
+): Promise<unknown> {
+  const api = <T>(method: string, path: string, body?: unknown) => apiRequest<T>(method, path, body, actorName);
+
   switch (name) {
     // Project Management
     case 'get_project':
-      return apiRequest('GET', `/projects/${projectId}`);
+      return api('GET', `/projects/${projectId}`);
 
     // Task Management
     case 'create_card':
-      return apiRequest('POST', `/columns/${args?.column_id}/cards`, {
+      return api('POST', `/columns/${args?.column_id}/cards`, {
         project_id: projectId,
         title: args?.title,
         description: args?.description,
         position: args?.position,
+        start_date: args?.start_date,
+        due_date: args?.due_date,
       });
 
     case 'move_card':
-      return apiRequest('PUT', `/cards/${args?.card_id}`, {
+      return api('PUT', `/cards/${args?.card_id}`, {
         project_id: projectId,
         column_id: args?.column_id,
         position: args?.position,
       });
 
     case 'update_card':
-      return apiRequest('PUT', `/cards/${args?.card_id}`, {
+      return api('PUT', `/cards/${args?.card_id}`, {
         project_id: projectId,
         title: args?.title,
         description: args?.description,
+        start_date: args?.start_date,
+        due_date: args?.due_date,
+        priority: args?.priority,
+        estimate: args?.estimate,
       });
 
     case 'delete_card':
-      await apiRequest('DELETE', `/cards/${args?.card_id}`, {
+      await api('DELETE', `/cards/${args?.card_id}`, {
         project_id: projectId,
       });
       return { success: true };
 
     // Dependency Management
     case 'add_dependency':
-      return apiRequest('POST', `/cards/${args?.card_id}/dependencies`, {
+      return api('POST', `/cards/${args?.card_id}/dependencies`, {
         project_id: projectId,
         depends_on_card_id: args?.depends_on_card_id,
       });
 
     case 'remove_dependency':
-      await apiRequest('DELETE', `/cards/${args?.card_id}/dependencies/${args?.depends_on_card_id}`, {
+      await api('DELETE', `/cards/${args?.card_id}/dependencies/${args?.depends_on_card_id}`, {
         project_id: projectId,
       });
       return { success: true };
 
     case 'get_card_dependencies':
-      return apiRequest('GET', `/cards/${args?.card_id}/dependencies?project_id=${projectId}`);
+      return api('GET', `/cards/${args?.card_id}/dependencies?project_id=${projectId}`);
 
     case 'get_card_dependents':
-      return apiRequest('GET', `/cards/${args?.card_id}/dependents?project_id=${projectId}`);
+      return api('GET', `/cards/${args?.card_id}/dependents?project_id=${projectId}`);
+
+    // Label Management
+    case 'list_labels':
+      return api('GET', `/projects/${projectId}/labels`);
+
+    case 'create_label':
+      return api('POST', `/projects/${projectId}/labels`, {
+        name: args?.name,
+        color: args?.color,
+      });
+
+    case 'rename_label':
+      return api('PUT', `/labels/${args?.label_id}`, {
+        name: args?.name,
+        project_id: projectId,
+      });
+
+    case 'delete_label':
+      await api('DELETE', `/labels/${args?.label_id}`, { project_id: projectId });
+      return { success: true };
+
+    case 'label_card':
+      return api('POST', `/cards/${args?.card_id}/labels`, {
+        label_id: args?.label_id,
+        project_id: projectId,
+      });
+
+    case 'unlabel_card':
+      await api('DELETE', `/cards/${args?.card_id}/labels/${args?.label_id}`, { project_id: projectId });
+      return { success: true };
+
+    // Member Management
+    case 'list_members': {
+      const project = await api<{ workspace_id: string }>('GET', `/projects/${projectId}`);
+      return api('GET', `/workspaces/${project.workspace_id}/members`);
+    }
+
+    case 'add_member': {
+      const project = await api<{ workspace_id: string }>('GET', `/projects/${projectId}`);
+      return api('POST', `/workspaces/${project.workspace_id}/members`, {
+        name: args?.name,
+        kind: args?.kind ?? 'agent',
+        color: args?.color,
+      });
+    }
+
+    case 'assign_card':
+      return api('POST', `/cards/${args?.card_id}/assignees`, {
+        member_id: args?.member_id,
+        project_id: projectId,
+      });
+
+    case 'unassign_card':
+      await api('DELETE', `/cards/${args?.card_id}/assignees/${args?.member_id}`, { project_id: projectId });
+      return { success: true };
+
+    // Checklists
+    case 'add_checklist_item':
+      return api('POST', `/cards/${args?.card_id}/checklist`, {
+        text: args?.text,
+        position: args?.position,
+        project_id: projectId,
+      });
+
+    case 'check_checklist_item':
+    case 'uncheck_checklist_item':
+      return api('PUT', `/cards/${args?.card_id}/checklist/${args?.item_id}`, {
+        checked: name === 'check_checklist_item',
+        project_id: projectId,
+      });
+
+    case 'delete_checklist_item':
+      await api('DELETE', `/cards/${args?.card_id}/checklist/${args?.item_id}`, { project_id: projectId });
+      return { success: true };
 
     // Event History
     case 'get_history': {
       const limitParam = args?.limit ? `?limit=${args.limit}` : '';
-      return apiRequest('GET', `/projects/${projectId}/events${limitParam}`);
+      return api('GET', `/projects/${projectId}/events${limitParam}`);
     }
 
     case 'get_card_history': {
@@ -272,7 +554,15 @@ async function handleToolCall(projectId: string, name: string, args: Record<stri
       if (args?.limit) {
         params.append('limit', String(args.limit));
       }
-      return apiRequest('GET', `/cards/${args?.card_id}/events?${params}`);
+      return api('GET', `/cards/${args?.card_id}/events?${params}`);
+    }
+
+    case 'undo':
+    case 'redo': {
+      const result = await api<Record<string, unknown>>('POST', `/projects/${projectId}/${name}`);
+      // The board itself is available through get_project
+      const { project: _project, ...status } = result;
+      return status;
     }
 
     default:
@@ -301,6 +591,7 @@ app.use((req, res, next) => {
 interface Session {
   projectId: string;
   createdAt: Date;
+  clientName?: string; // from initialize, e.g. "claude-code"
 }
 
 const sessions = new Map<string, Session>();
@@ -341,7 +632,8 @@ interface JsonRpcResponse {
 async function handleMcpMethod(
   method: string,
   params: Record<string, unknown> | undefined,
-  projectId: string
+  projectId: string,
+  clientName?: string
 ): Promise<unknown> {
   switch (method) {
     case 'initialize':
@@ -368,7 +660,7 @@ async function handleMcpMethod(
       }
 
       try {
-        const result = await handleToolCall(projectId, toolName, toolArgs);
+        const result = await handleToolCall(projectId, toolName, toolArgs, clientName);
         return {
           content: [
             {
@@ -465,7 +757,8 @@ app.all('/mcp/:projectId', async (req: Request, res: Response) => {
     // For initialize request, create a new session
     if (request.method === 'initialize') {
       sessionId = randomUUID();
-      session = { projectId, createdAt: new Date() };
+      const clientInfo = request.params?.clientInfo as { name?: string } | undefined;
+      session = { projectId, createdAt: new Date(), clientName: clientInfo?.name };
       sessions.set(sessionId, session);
       console.log(`New session: ${sessionId} (project: ${projectId})`);
     }
@@ -487,7 +780,7 @@ app.all('/mcp/:projectId', async (req: Request, res: Response) => {
     // Execute the method
     try {
       const effectiveProjectId = session?.projectId || projectId;
-      const result = await handleMcpMethod(request.method, request.params, effectiveProjectId);
+      const result = await handleMcpMethod(request.method, request.params, effectiveProjectId, session?.clientName);
 
       const response: JsonRpcResponse = {
         jsonrpc: '2.0',
@@ -527,7 +820,7 @@ app.all('/mcp/:projectId', async (req: Request, res: Response) => {
 
     try {
       const effectiveProjectId = session?.projectId || projectId;
-      const result = await handleMcpMethod(request.method, request.params, effectiveProjectId);
+      const result = await handleMcpMethod(request.method, request.params, effectiveProjectId, session?.clientName);
       responses.push({
         jsonrpc: '2.0',
         id: request.id,
@@ -0,0 +1,230 @@
+import { parseArgs } from 'util';
+import { verifyEventLog, IntegrityReport } from './domain/integrity.js';
+import { runRetention, RetentionPolicy, RetentionReport } from './infrastructure/retention.js';
+import { BackupError, BackupValidation } from './infrastructure/backups.js';
+import { createSqliteStores, SqliteStores } from './infrastructure/stores.js';
+import type { EventMetadata } from './types.js';
+
+// Maintenance commands that run against the database directly, e.g. while the
+// server is stopped:
+//
+//   npm run cli -- integrity [--repair] [--json] [--db <path>]
+//   npm run cli -- retention --deleted-project-days 30 --idle-workspace-days 90 [--archive] [--apply]
+//   npm run cli -- backup [--list]
+//   npm run cli -- restore <file> [--check]
+//
+// The database defaults to YAKATAKA_DB_PATH or the server's default location.
+
+const USAGE = `Usage: yakataka <command> [options]
+
+Commands:
+  integrity   Replay every aggregate and report invariant violations
+              --repair  append corrective events where possible
+              --json    print the full report as JSON
+  retention   Report, or with --apply remove, data past its retention period
+              --deleted-project-days <n>  purge projects deleted n days ago
+              --idle-workspace-days <n>   drop empty workspaces idle for n days
+              --archive  write the removed events to an archive file
+              --apply    remove the data instead of only reporting it
+              --json     print the report as JSON
+  backup      Back up the database into the backup directory
+              --list     list the backups instead
+  restore <file>
+              Validate a backup and replace the database's contents with it
+              --check    only validate the backup
+
+Options:
+  --db <path>  database file (default: YAKATAKA_DB_PATH or data/yakataka.db)`;
+
+const CLI_METADATA: EventMetadata = { source: 'automation', actor_id: 'cli', actor_name: 'CLI' };
+
+// Bad arguments: reported without a stack trace
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+interface Options {
+  repair?: boolean;
+  json?: boolean;
+  apply?: boolean;
+  archive?: boolean;
+  'deleted-project-days'?: string;
+  'idle-workspace-days'?: string;
+  list?: boolean;
+  check?: boolean;
+}
+
+type Command = (stores: SqliteStores, options: Options, args: string[]) => number | Promise<number>;
+
+function printIntegrityReport(report: IntegrityReport): void {
+  for (const violation of report.violations) {
+    const status = violation.repaired ? 'repaired' : violation.repairable ? 'repairable' : 'unrepairable';
+    console.log(
+      `${violation.aggregate_type} ${violation.aggregate_id}: [${violation.kind}] ${violation.message}`
+      + ` (events ${violation.event_ids.join(', ')}; ${status})`
+    );
+  }
+  console.log(
+    `Checked ${report.aggregates_checked} aggregates and ${report.events_checked} events:`
+    + ` ${report.violations.length} violations, ${report.events_appended} corrective events appended`
+  );
+}
+
+// Returns the exit code
+function integrity(stores: SqliteStores, options: Options): number {
+  const report = verifyEventLog({ repair: options.repair, metadata: CLI_METADATA }, stores);
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printIntegrityReport(report);
+  }
+  return report.violations.some(violation => !violation.repaired) ? 1 : 0;
+}
+
+function parseDays(option: string, value: string | undefined): number | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const days = Number(value);
+  if (!Number.isInteger(days) || days < 0) {
+    throw new UsageError(`--${option} must be a non-negative integer`);
+  }
+  return days;
+}
+
+function printRetentionReport(report: RetentionReport): void {
+  const verb = report.dry_run ? 'Would remove' : 'Removed';
+  for (const project of report.projects) {
+    console.log(`${verb} project ${project.id} "${project.name}", deleted ${project.deleted_at} (${project.events} events)`);
+  }
+  for (const workspace of report.workspaces) {
+    console.log(`${verb} workspace ${workspace.id}, last active ${workspace.last_activity_at} (${workspace.events} events)`);
+  }
+  console.log(
+    `${verb} ${report.projects.length} projects, ${report.workspaces.length} workspaces and ${report.events_removed} events`
+    + (report.archive_path ? `, archived to ${report.archive_path}` : '')
+  );
+  if (report.dry_run) {
+    console.log('Dry run: pass --apply to remove them');
+  }
+}
+
+function retention(stores: SqliteStores, options: Options): number {
+  const policy: RetentionPolicy = {
+    deleted_project_days: parseDays('deleted-project-days', options['deleted-project-days']),
+    idle_workspace_days: parseDays('idle-workspace-days', options['idle-workspace-days']),
+    archive: options.archive
+  };
+  if (policy.deleted_project_days === undefined && policy.idle_workspace_days === undefined) {
+    throw new UsageError('--deleted-project-days or --idle-workspace-days is required');
+  }
+  const report = runRetention(stores.retention, policy, !options.apply);
+  if (options.json) {
+    console.log(JSON.stringify(report, null, 2));
+  } else {
+    printRetentionReport(report);
+  }
+  return 0;
+}
+
+async function backup(stores: SqliteStores, options: Options): Promise<number> {
+  if (options.list) {
+    for (const info of stores.backups.list()) {
+      console.log(`${info.path}\t${info.size} bytes\t${info.created_at}`);
+    }
+    return 0;
+  }
+  const info = await stores.backups.backup();
+  console.log(`Backed up to ${info.path} (${info.size} bytes)`);
+  return 0;
+}
+
+function printValidation(file: string, validation: BackupValidation): void {
+  for (const error of validation.errors) {
+    console.log(error);
+  }
+  console.log(validation.valid
+    ? `${file} is valid: ${validation.events} events, the last with id ${validation.last_event_id}`
+    : `${file} is not valid`);
+}
+
+async function restore(stores: SqliteStores, options: Options, args: string[]): Promise<number> {
+  const file = args[0];
+  if (!file) {
+    throw new UsageError('restore needs the backup file');
+  }
+  if (options.check) {
+    const validation = stores.backups.validate(file);
+    printValidation(file, validation);
+    return validation.valid ? 0 : 1;
+  }
+  try {
+    const result = await stores.backups.restore(file);
+    printValidation(file, result.validation);
+    console.log(`Restored ${result.restored}; the previous state was backed up to ${result.safety_backup.path}`);
+    return 0;
+  } catch (err) {
+    if (err instanceof BackupError) {
+      console.error(err.message);
+      return 1;
+    }
+    throw err;
+  }
+}
+
+const COMMANDS: Record<string, Command> = {
+  integrity,
+  retention,
+  backup,
+  restore
+};
+
+async function run(): Promise<number> {
+  const { positionals, values } = parseArgs({
+    allowPositionals: true,
+    options: {
+      db: { type: 'string' },
+      repair: { type: 'boolean' },
+      json: { type: 'boolean' },
+      apply: { type: 'boolean' },
+      archive: { type: 'boolean' },
+      'deleted-project-days': { type: 'string' },
+      'idle-workspace-days': { type: 'string' },
+      list: { type: 'boolean' },
+      check: { type: 'boolean' },
+      help: { type: 'boolean', short: 'h' }
+    }
+  });
+  const command = COMMANDS[positionals[0]];
+  if (values.help || !command) {
+    console.log(USAGE);
+    return values.help ? 0 : 2;
+  }
+
+  const stores = createSqliteStores(values.db);
+  try {
+    // Corrective events update the read model, which must be current first
+    stores.events.syncProjections();
+    return await command(stores, values, positionals.slice(1));
+  } finally {
+    stores.db.close();
+  }
+}
+
+async function main(): Promise<number> {
+  try {
+    return await run();
+  } catch (err) {
+    const parseError = (err as NodeJS.ErrnoException).code?.startsWith('ERR_PARSE_ARGS');
+    if (err instanceof UsageError || parseError) {
+      console.error(`${(err as Error).message}\n\n${USAGE}`);
+      return 2;
+    }
+    throw err;
+  }
+}
+
+process.exitCode = await main();
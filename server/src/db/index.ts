@@ -4,34 +4,250 @@ import { fileURLToPath } from 'url';
 import fs from 'fs';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
-const DB_PATH = path.join(__dirname, '..', '..', 'data', 'yakataka.db');
 
-// Ensure data directory exists
-const dataDir = path.dirname(DB_PATH);
-if (!fs.existsSync(dataDir)) {
-  fs.mkdirSync(dataDir, { recursive: true });
+// YAKATAKA_DB_PATH points the server at another database file
+export const DEFAULT_DB_PATH = process.env.YAKATAKA_DB_PATH
+  ?? path.join(__dirname, '..', '..', 'data', 'yakataka.db');
+
+// Opens (or creates) a database at the given path and brings its schema up to
+// date. Pass ':memory:' for a throwaway database.
+export function openDatabase(filePath: string = DEFAULT_DB_PATH): DatabaseType {
+  if (filePath !== ':memory:') {
+    // Ensure data directory exists
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  const db: DatabaseType = new Database(filePath);
+
+  // Enable WAL mode for better performance
+  db.pragma('journal_mode = WAL');
+
+  // Other processes may share the file; wait for their writes to finish
+  // instead of failing with SQLITE_BUSY
+  db.pragma('busy_timeout = 5000');
+
+  migrate(db);
+  return db;
+}
+
+function migrate(db: DatabaseType): void {
+  // Initialize schema
+  db.exec(`
+    CREATE TABLE IF NOT EXISTS events (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      aggregate_type TEXT NOT NULL,
+      aggregate_id TEXT NOT NULL,
+      event_type TEXT NOT NULL,
+      event_data JSON NOT NULL,
+      version INTEGER NOT NULL,
+      timestamp TEXT NOT NULL,
+      command_id TEXT,
+      schema_version INTEGER NOT NULL DEFAULT 1,
+      metadata JSON,
+      UNIQUE(aggregate_type, aggregate_id, version)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_events_aggregate
+      ON events(aggregate_type, aggregate_id, version);
+
+    CREATE TABLE IF NOT EXISTS snapshots (
+      aggregate_type TEXT NOT NULL,
+      aggregate_id TEXT NOT NULL,
+      version INTEGER NOT NULL,
+      schema_version INTEGER NOT NULL,
+      state JSON NOT NULL,
+      timestamp TEXT NOT NULL,
+      PRIMARY KEY(aggregate_type, aggregate_id)
+    );
+
+    -- Read model kept in sync with the events table by ProjectionStore
+    CREATE TABLE IF NOT EXISTS projects (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      description TEXT NOT NULL,
+      deleted INTEGER NOT NULL DEFAULT 0,
+      version INTEGER NOT NULL,
+      created_at TEXT NOT NULL,
+      updated_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_projects_workspace
+      ON projects(workspace_id);
+
+    CREATE TABLE IF NOT EXISTS columns (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      position INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_columns_project
+      ON columns(project_id);
+
+    CREATE TABLE IF NOT EXISTS cards (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      column_id TEXT NOT NULL,
+      title TEXT NOT NULL,
+      description TEXT NOT NULL,
+      position INTEGER NOT NULL,
+      external_id TEXT,
+      start_date TEXT,
+      due_date TEXT,
+      priority TEXT,
+      estimate REAL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_cards_project
+      ON cards(project_id);
+
+    CREATE TABLE IF NOT EXISTS card_dependencies (
+      project_id TEXT NOT NULL,
+      card_id TEXT NOT NULL,
+      depends_on_card_id TEXT NOT NULL,
+      PRIMARY KEY(card_id, depends_on_card_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_card_dependencies_depends_on
+      ON card_dependencies(depends_on_card_id);
+
+    CREATE TABLE IF NOT EXISTS labels (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      name TEXT NOT NULL,
+      color TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_labels_project
+      ON labels(project_id);
+
+    CREATE TABLE IF NOT EXISTS card_labels (
+      project_id TEXT NOT NULL,
+      card_id TEXT NOT NULL,
+      label_id TEXT NOT NULL,
+      PRIMARY KEY(card_id, label_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_card_labels_project
+      ON card_labels(project_id);
+
+    CREATE TABLE IF NOT EXISTS card_assignees (
+      project_id TEXT NOT NULL,
+      card_id TEXT NOT NULL,
+      member_id TEXT NOT NULL,
+      PRIMARY KEY(card_id, member_id)
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_card_assignees_project
+      ON card_assignees(project_id);
+
+    CREATE TABLE IF NOT EXISTS checklist_items (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      card_id TEXT NOT NULL,
+      text TEXT NOT NULL,
+      checked INTEGER NOT NULL DEFAULT 0,
+      position INTEGER NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_checklist_items_card
+      ON checklist_items(card_id);
+
+    CREATE INDEX IF NOT EXISTS idx_checklist_items_project
+      ON checklist_items(project_id);
+
+    CREATE TABLE IF NOT EXISTS projection_checkpoints (
+      name TEXT PRIMARY KEY,
+      last_event_id INTEGER NOT NULL
+    );
+
+    -- Outgoing webhook subscriptions. project_id NULL subscribes to the whole
+    -- workspace, event_types NULL to every event type.
+    CREATE TABLE IF NOT EXISTS webhooks (
+      id TEXT PRIMARY KEY,
+      workspace_id TEXT NOT NULL,
+      project_id TEXT,
+      url TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      event_types JSON,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_webhooks_workspace
+      ON webhooks(workspace_id);
+
+    -- Outbox: one row per event and matching webhook, written in the same
+    -- transaction as the event and drained by the WebhookDispatcher
+    CREATE TABLE IF NOT EXISTS webhook_deliveries (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      webhook_id TEXT NOT NULL,
+      event_id INTEGER NOT NULL,
+      event_type TEXT NOT NULL,
+      payload JSON NOT NULL,
+      status TEXT NOT NULL DEFAULT 'pending',
+      attempts INTEGER NOT NULL DEFAULT 0,
+      next_attempt_at TEXT NOT NULL,
+      last_attempt_at TEXT,
+      response_status INTEGER,
+      last_error TEXT,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_due
+      ON webhook_deliveries(status, next_attempt_at);
+
+    CREATE INDEX IF NOT EXISTS idx_webhook_deliveries_webhook
+      ON webhook_deliveries(webhook_id, id);
+
+    -- Inbound webhooks turn JSON posted by other systems into card commands
+    CREATE TABLE IF NOT EXISTS inbound_webhooks (
+      id TEXT PRIMARY KEY,
+      project_id TEXT NOT NULL,
+      secret TEXT NOT NULL,
+      mapping JSON NOT NULL,
+      created_at TEXT NOT NULL
+    );
+
+    CREATE INDEX IF NOT EXISTS idx_inbound_webhooks_project
+      ON inbound_webhooks(project_id);
+
+    -- Deliveries already processed, so a resent payload is not applied twice
+    CREATE TABLE IF NOT EXISTS inbound_deliveries (
+      webhook_id TEXT NOT NULL,
+      delivery_key TEXT NOT NULL,
+      result JSON NOT NULL,
+      received_at TEXT NOT NULL,
+      PRIMARY KEY(webhook_id, delivery_key)
+    );
+
+    -- What each retention run removed, kept after the events themselves are gone
+    CREATE TABLE IF NOT EXISTS retention_runs (
+      id INTEGER PRIMARY KEY AUTOINCREMENT,
+      ran_at TEXT NOT NULL,
+      policy JSON NOT NULL,
+      projects JSON NOT NULL,
+      workspaces JSON NOT NULL,
+      events_removed INTEGER NOT NULL,
+      archive_path TEXT
+    );
+  `);
+
+  addColumnIfMissing(db, 'events', 'command_id', 'TEXT');
+  addColumnIfMissing(db, 'events', 'schema_version', 'INTEGER NOT NULL DEFAULT 1');
+  addColumnIfMissing(db, 'events', 'metadata', 'JSON');
+  addColumnIfMissing(db, 'cards', 'external_id', 'TEXT');
+  addColumnIfMissing(db, 'cards', 'start_date', 'TEXT');
+  addColumnIfMissing(db, 'cards', 'due_date', 'TEXT');
+  addColumnIfMissing(db, 'cards', 'priority', 'TEXT');
+  addColumnIfMissing(db, 'cards', 'estimate', 'REAL');
 }
 
-const db: DatabaseType = new Database(DB_PATH);
-
-// Enable WAL mode for better performance
-db.pragma('journal_mode = WAL');
-
-// Initialize schema
-db.exec(`
-  CREATE TABLE IF NOT EXISTS events (
-    id INTEGER PRIMARY KEY AUTOINCREMENT,
-    aggregate_type TEXT NOT NULL,
-    aggregate_id TEXT NOT NULL,
-    event_type TEXT NOT NULL,
-    event_data JSON NOT NULL,
-    version INTEGER NOT NULL,
-    timestamp TEXT NOT NULL,
-    UNIQUE(aggregate_type, aggregate_id, version)
-  );
-
-  CREATE INDEX IF NOT EXISTS idx_events_aggregate
-    ON events(aggregate_type, aggregate_id, version);
-`);
-
-export default db;
+// CREATE TABLE IF NOT EXISTS leaves databases created by older releases
+// untouched, so columns added since then are migrated in here
+function addColumnIfMissing(db: DatabaseType, table: string, column: string, definition: string): void {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (!columns.some(c => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
@@ -0,0 +1,202 @@
+import type { EventQuery } from '../infrastructure/eventStore.js';
+import { getServerStores, Stores } from '../infrastructure/stores.js';
+import type { DomainEvent, EventMetadata } from '../types.js';
+
+export interface AuditEntry {
+  id: number;
+  project_id: string | null;
+  event_type: string;
+  version: number;
+  timestamp: string;
+  summary: string;
+  source: string | null;
+  actor: string | null;
+  event_data: Record<string, unknown>;
+  metadata: EventMetadata | null;
+}
+
+export interface AuditPage {
+  entries: AuditEntry[];
+  next_cursor: number | null;
+  has_more: boolean;
+}
+
+const UPPER_CASE_RE = /([A-Z])/g;
+
+// One line per event, naming cards, columns, labels, members and checklist
+// items by their latest known name
+function describeEvent(event: DomainEvent, names: Map<string, string>): string {
+  const eventType: string = event.event_type;
+  const name = (id: string) => `"${names.get(id) ?? 'unknown'}"`;
+
+  let summary: string;
+  switch (event.event_type) {
+    case 'WorkspaceCreated':
+      summary = 'Created workspace';
+      break;
+    case 'MemberAdded':
+      summary = `Added ${event.event_data.kind} member "${event.event_data.name}"`;
+      break;
+    case 'MemberUpdated': {
+      const { member_id, name: newName } = event.event_data;
+      summary = newName !== undefined ? `Renamed member to "${newName}"` : `Updated member ${name(member_id)}`;
+      break;
+    }
+    case 'MemberRemoved':
+      summary = `Removed member ${name(event.event_data.member_id)}`;
+      break;
+    case 'ProjectCreated':
+      summary = `Created project "${event.event_data.name}"`;
+      break;
+    case 'ProjectRenamed':
+      summary = `Renamed project to "${event.event_data.name}"`;
+      break;
+    case 'ProjectDescriptionUpdated':
+      summary = 'Updated project description';
+      break;
+    case 'ProjectDeleted':
+      summary = 'Deleted project';
+      break;
+    case 'ColumnAdded':
+      summary = `Added column "${event.event_data.name}"`;
+      break;
+    case 'ColumnRenamed':
+      summary = `Renamed column to "${event.event_data.name}"`;
+      break;
+    case 'ColumnMoved':
+      summary = `Moved column ${name(event.event_data.column_id)} to position ${event.event_data.position}`;
+      break;
+    case 'ColumnDeleted':
+      summary = `Deleted column ${name(event.event_data.column_id)}`;
+      break;
+    case 'CardAdded':
+      summary = `Created card "${event.event_data.title}" in ${name(event.event_data.column_id)}`;
+      break;
+    case 'CardUpdated': {
+      const { card_id, title, description } = event.event_data;
+      if (title !== undefined && description !== undefined) {
+        summary = `Changed title and description of card "${title}"`;
+      } else if (title !== undefined) {
+        summary = `Renamed card to "${title}"`;
+      } else {
+        summary = `Updated description of card ${name(card_id)}`;
+      }
+      break;
+    }
+    case 'CardMoved': {
+      const { card_id, column_id, position } = event.event_data;
+      summary = `Moved card ${name(card_id)} to ${name(column_id)} at position ${position}`;
+      break;
+    }
+    case 'CardDeleted':
+      summary = `Deleted card ${name(event.event_data.card_id)}`;
+      break;
+    case 'DependencyAdded': {
+      const { card_id, depends_on_card_id } = event.event_data;
+      summary = `Marked card ${name(card_id)} as blocked by ${name(depends_on_card_id)}`;
+      break;
+    }
+    case 'DependencyRemoved': {
+      const { card_id, depends_on_card_id } = event.event_data;
+      summary = `Card ${name(card_id)} is no longer blocked by ${name(depends_on_card_id)}`;
+      break;
+    }
+    case 'LabelCreated':
+      summary = `Created label "${event.event_data.name}"`;
+      break;
+    case 'LabelRenamed':
+      summary = `Renamed label to "${event.event_data.name}"`;
+      break;
+    case 'LabelDeleted':
+      summary = `Deleted label ${name(event.event_data.label_id)}`;
+      break;
+    case 'CardLabeled':
+      summary = `Labeled card ${name(event.event_data.card_id)} with ${name(event.event_data.label_id)}`;
+      break;
+    case 'CardUnlabeled':
+      summary = `Removed label ${name(event.event_data.label_id)} from card ${name(event.event_data.card_id)}`;
+      break;
+    case 'CardScheduled': {
+      const { card_id, start_date, due_date } = event.event_data;
+      summary = start_date === null && due_date === null
+        ? `Cleared the dates of card ${name(card_id)}`
+        : `Scheduled card ${name(card_id)}${start_date !== null ? ` from ${start_date}` : ''}`
+          + `${due_date !== null ? ` due ${due_date}` : ''}`;
+      break;
+    }
+    case 'CardPlanned': {
+      const { card_id, priority, estimate } = event.event_data;
+      summary = priority === null && estimate === null
+        ? `Cleared the priority and estimate of card ${name(card_id)}`
+        : `Planned card ${name(card_id)}${priority !== null ? ` as ${priority}` : ''}`
+          + `${estimate !== null ? ` estimated at ${estimate}` : ''}`;
+      break;
+    }
+    case 'ChecklistItemAdded':
+      summary = `Added "${event.event_data.text}" to the checklist of card ${name(event.event_data.card_id)}`;
+      break;
+    case 'ChecklistItemRenamed':
+      summary = `Renamed checklist item of card ${name(event.event_data.card_id)} to "${event.event_data.text}"`;
+      break;
+    case 'ChecklistItemChecked':
+      summary = `Checked ${name(event.event_data.item_id)} on card ${name(event.event_data.card_id)}`;
+      break;
+    case 'ChecklistItemUnchecked':
+      summary = `Unchecked ${name(event.event_data.item_id)} on card ${name(event.event_data.card_id)}`;
+      break;
+    case 'ChecklistItemMoved': {
+      const { card_id, item_id, position } = event.event_data;
+      summary = `Moved checklist item ${name(item_id)} of card ${name(card_id)} to position ${position}`;
+      break;
+    }
+    case 'ChecklistItemDeleted':
+      summary = `Deleted checklist item ${name(event.event_data.item_id)} from card ${name(event.event_data.card_id)}`;
+      break;
+    case 'CardAssigned':
+      summary = `Assigned card ${name(event.event_data.card_id)} to ${name(event.event_data.member_id)}`;
+      break;
+    case 'CardUnassigned':
+      summary = `Unassigned ${name(event.event_data.member_id)} from card ${name(event.event_data.card_id)}`;
+      break;
+    default:
+      // Event types this release does not know, e.g. from a newer one
+      summary = eventType.replace(UPPER_CASE_RE, ' $1').trim();
+  }
+
+  if (event.metadata?.compensates?.direction === 'undo') {
+    return `Undo: ${summary}`;
+  }
+  if (event.metadata?.compensates?.direction === 'redo') {
+    return `Redo: ${summary}`;
+  }
+  return summary;
+}
+
+// Reads one page of the filtered log, newest first. Pass next_cursor back as
+// the cursor to read the following page.
+export function queryAuditLog(query: EventQuery, stores: Stores = getServerStores()): AuditPage {
+  const events = stores.events.queryEvents({ ...query, limit: query.limit + 1 });
+  const hasMore = events.length > query.limit;
+  const page = events.slice(0, query.limit);
+
+  const projectIds = [...new Set(page.filter(e => e.aggregate_type === 'project').map(e => e.aggregate_id))];
+  const workspaceIds = [...new Set(page.filter(e => e.aggregate_type === 'workspace').map(e => e.aggregate_id))];
+  const names = stores.events.getEntityNames(projectIds, workspaceIds);
+
+  return {
+    entries: page.map(event => ({
+      id: event.id!,
+      project_id: event.aggregate_type === 'project' ? event.aggregate_id : null,
+      event_type: event.event_type,
+      version: event.version,
+      timestamp: event.timestamp,
+      summary: describeEvent(event, names),
+      source: event.metadata?.source ?? null,
+      actor: event.metadata?.actor_name ?? event.metadata?.actor_id ?? null,
+      event_data: event.event_data,
+      metadata: event.metadata ?? null
+    })),
+    next_cursor: hasMore ? page[page.length - 1].id! : null,
+    has_more: hasMore
+  };
+}
@@ -0,0 +1,471 @@
+import { getServerStores, Stores } from '../infrastructure/stores.js';
+import { ProjectAggregate } from './project/aggregate.js';
+import type { DomainEvent, EventMetadata } from '../types.js';
+
+// Replay applies events leniently: a move of a missing card is ignored, a card
+// added to a deleted column is kept. The checks below find where the log
+// relied on that, and the final states it left behind.
+export type ViolationKind =
+  | 'version_gap'
+  | 'not_created'
+  | 'after_deletion'
+  | 'duplicate_entity'
+  | 'missing_column'
+  | 'missing_card'
+  | 'missing_label'
+  | 'missing_member'
+  | 'missing_checklist_item'
+  | 'orphaned_card'
+  | 'duplicate_position'
+  | 'dangling_dependency'
+  | 'dangling_label'
+  | 'dangling_assignee';
+
+export interface IntegrityViolation {
+  aggregate_type: DomainEvent['aggregate_type'];
+  aggregate_id: string;
+  kind: ViolationKind;
+  message: string;
+  event_ids: number[];
+  // Whether appending events can fix it. Violations inside the history
+  // itself are only reported, the log is never rewritten.
+  repairable: boolean;
+  repaired: boolean;
+}
+
+export interface IntegrityReport {
+  aggregates_checked: number;
+  events_checked: number;
+  violations: IntegrityViolation[];
+  events_appended: number;
+}
+
+// Where the final state of each entity came from, to point at the events
+// behind a violation
+interface Provenance {
+  placed: Map<string, number>; // card id -> event that last set its column and position
+  dependencies: Map<string, number>; // "card:dependency" -> DependencyAdded
+  labels: Map<string, number>; // "card:label" -> CardLabeled
+  assignees: Map<string, number>; // "card:member" -> CardAssigned
+  deletedColumns: Map<string, number>;
+  deletedCards: Map<string, number>;
+  deletedLabels: Map<string, number>;
+  deletedChecklistItems: Map<string, number>;
+}
+
+const REPAIRABLE_KINDS: ReadonlySet<ViolationKind> = new Set([
+  'orphaned_card',
+  'duplicate_position',
+  'dangling_dependency',
+  'dangling_label',
+  'dangling_assignee'
+]);
+
+// The members a workspace's log ends with, and the events that removed the others
+interface WorkspaceMembers {
+  members: Set<string>;
+  removed: Map<string, number>;
+}
+
+function checkVersions(events: DomainEvent[], report: (kind: ViolationKind, message: string, eventIds: number[]) => void): void {
+  events.forEach((event, index) => {
+    const expected = index === 0 ? 1 : events[index - 1].version + 1;
+    if (event.version !== expected) {
+      report('version_gap', `Expected version ${expected}, found ${event.version}`, [event.id!]);
+    }
+  });
+}
+
+function checkWorkspace(workspaceId: string, events: DomainEvent[], violations: IntegrityViolation[]): WorkspaceMembers {
+  const report = (kind: ViolationKind, message: string, eventIds: number[]) => {
+    violations.push({
+      aggregate_type: 'workspace',
+      aggregate_id: workspaceId,
+      kind,
+      message,
+      event_ids: eventIds,
+      repairable: false,
+      repaired: false
+    });
+  };
+  checkVersions(events, report);
+  const result: WorkspaceMembers = { members: new Set(), removed: new Map() };
+  events.forEach((event, index) => {
+    if (index === 0 && event.event_type !== 'WorkspaceCreated') {
+      report('not_created', `${event.event_type} before WorkspaceCreated`, [event.id!]);
+    } else if (index > 0 && event.event_type === 'WorkspaceCreated') {
+      report('duplicate_entity', 'Workspace created more than once', [event.id!]);
+    }
+
+    const requireMember = (memberId: string) => {
+      if (!result.members.has(memberId)) {
+        const removed = result.removed.get(memberId);
+        report('missing_member', `${event.event_type} refers to ${removed ? 'removed' : 'unknown'} member ${memberId}`,
+          removed ? [event.id!, removed] : [event.id!]);
+      }
+    };
+    switch (event.event_type) {
+      case 'MemberAdded': {
+        const { member_id } = event.event_data;
+        if (result.members.has(member_id)) {
+          report('duplicate_entity', `Member ${member_id} added twice`, [event.id!]);
+        }
+        result.members.add(member_id);
+        break;
+      }
+      case 'MemberUpdated':
+        requireMember(event.event_data.member_id);
+        break;
+      case 'MemberRemoved': {
+        const { member_id } = event.event_data;
+        requireMember(member_id);
+        result.members.delete(member_id);
+        result.removed.set(member_id, event.id!);
+        break;
+      }
+    }
+  });
+  return result;
+}
+
+// Replays the project one event at a time, checking each event against the
+// state it is applied to, then checks the state the log ends in. Returns the
+// aggregate at the end of the log and where its entities came from.
+function checkProject(
+  projectId: string,
+  events: DomainEvent[],
+  stores: Stores,
+  metadata: EventMetadata | undefined,
+  workspaces: Map<string, WorkspaceMembers>,
+  violations: IntegrityViolation[]
+): { aggregate: ProjectAggregate; provenance: Provenance } {
+  const report = (kind: ViolationKind, message: string, eventIds: number[]) => {
+    violations.push({
+      aggregate_type: 'project',
+      aggregate_id: projectId,
+      kind,
+      message,
+      event_ids: eventIds,
+      repairable: REPAIRABLE_KINDS.has(kind),
+      repaired: false
+    });
+  };
+  checkVersions(events, report);
+
+  const aggregate = new ProjectAggregate(projectId, stores, metadata);
+  const provenance: Provenance = {
+    placed: new Map(),
+    dependencies: new Map(),
+    labels: new Map(),
+    assignees: new Map(),
+    deletedColumns: new Map(),
+    deletedCards: new Map(),
+    deletedLabels: new Map(),
+    deletedChecklistItems: new Map()
+  };
+  let created = false;
+  let deletedBy: number | undefined;
+
+  for (const event of events) {
+    const id = event.id!;
+    const requireColumn = (columnId: string) => {
+      if (!aggregate.getColumn(columnId)) {
+        const deleted = provenance.deletedColumns.get(columnId);
+        report('missing_column', `${event.event_type} refers to ${deleted ? 'deleted' : 'unknown'} column ${columnId}`,
+          deleted ? [id, deleted] : [id]);
+      }
+    };
+    const requireCard = (cardId: string) => {
+      if (!aggregate.getCard(cardId)) {
+        const deleted = provenance.deletedCards.get(cardId);
+        report('missing_card', `${event.event_type} refers to ${deleted ? 'deleted' : 'unknown'} card ${cardId}`,
+          deleted ? [id, deleted] : [id]);
+      }
+    };
+    const requireLabel = (labelId: string) => {
+      if (!aggregate.getLabel(labelId)) {
+        const deleted = provenance.deletedLabels.get(labelId);
+        report('missing_label', `${event.event_type} refers to ${deleted ? 'deleted' : 'unknown'} label ${labelId}`,
+          deleted ? [id, deleted] : [id]);
+      }
+    };
+    // Only checked on cards that exist; requireCard reports the others
+    const requireChecklistItem = (cardId: string, itemId: string) => {
+      if (aggregate.getCard(cardId) && !aggregate.getChecklistItem(cardId, itemId)) {
+        const deleted = provenance.deletedChecklistItems.get(itemId);
+        report('missing_checklist_item',
+          `${event.event_type} refers to ${deleted ? 'deleted' : 'unknown'} checklist item ${itemId}`,
+          deleted ? [id, deleted] : [id]);
+      }
+    };
+
+    if (event.event_type === 'ProjectCreated') {
+      if (created) {
+        report('duplicate_entity', 'Project created more than once', [id]);
+      }
+      created = true;
+    } else if (!created) {
+      report('not_created', `${event.event_type} before ProjectCreated`, [id]);
+    }
+    if (deletedBy !== undefined) {
+      report('after_deletion', `${event.event_type} after the project was deleted`, [id, deletedBy]);
+    }
+
+    switch (event.event_type) {
+      case 'ProjectDeleted':
+        deletedBy ??= id;
+        break;
+      case 'ColumnAdded':
+        if (aggregate.getColumn(event.event_data.column_id)) {
+          report('duplicate_entity', `Column ${event.event_data.column_id} added twice`, [id]);
+        }
+        break;
+      case 'ColumnRenamed':
+      case 'ColumnMoved':
+        requireColumn(event.event_data.column_id);
+        break;
+      case 'ColumnDeleted':
+        requireColumn(event.event_data.column_id);
+        provenance.deletedColumns.set(event.event_data.column_id, id);
+        break;
+      case 'CardAdded': {
+        const { card_id, column_id } = event.event_data;
+        if (aggregate.getCard(card_id)) {
+          report('duplicate_entity', `Card ${card_id} added twice`, [id]);
+        }
+        requireColumn(column_id);
+        provenance.placed.set(card_id, id);
+        break;
+      }
+      case 'CardUpdated':
+        requireCard(event.event_data.card_id);
+        break;
+      case 'CardMoved': {
+        const { card_id, column_id } = event.event_data;
+        requireCard(card_id);
+        requireColumn(column_id);
+        if (aggregate.getCard(card_id)) {
+          provenance.placed.set(card_id, id);
+        }
+        break;
+      }
+      case 'CardDeleted':
+        requireCard(event.event_data.card_id);
+        provenance.deletedCards.set(event.event_data.card_id, id);
+        break;
+      case 'DependencyAdded': {
+        const { card_id, depends_on_card_id } = event.event_data;
+        requireCard(card_id);
+        requireCard(depends_on_card_id);
+        provenance.dependencies.set(`${card_id}:${depends_on_card_id}`, id);
+        break;
+      }
+      case 'DependencyRemoved':
+        requireCard(event.event_data.card_id);
+        break;
+      case 'LabelCreated':
+        if (aggregate.getLabel(event.event_data.label_id)) {
+          report('duplicate_entity', `Label ${event.event_data.label_id} created twice`, [id]);
+        }
+        break;
+      case 'LabelRenamed':
+        requireLabel(event.event_data.label_id);
+        break;
+      case 'LabelDeleted':
+        requireLabel(event.event_data.label_id);
+        provenance.deletedLabels.set(event.event_data.label_id, id);
+        break;
+      case 'CardLabeled': {
+        const { card_id, label_id } = event.event_data;
+        requireCard(card_id);
+        requireLabel(label_id);
+        provenance.labels.set(`${card_id}:${label_id}`, id);
+        break;
+      }
+      case 'CardUnlabeled':
+        requireCard(event.event_data.card_id);
+        break;
+      case 'CardScheduled':
+        requireCard(event.event_data.card_id);
+        break;
+      case 'CardPlanned':
+        requireCard(event.event_data.card_id);
+        break;
+      case 'ChecklistItemAdded': {
+        const { card_id, item_id } = event.event_data;
+        requireCard(card_id);
+        if (aggregate.getChecklistItem(card_id, item_id)) {
+          report('duplicate_entity', `Checklist item ${item_id} added twice`, [id]);
+        }
+        break;
+      }
+      case 'ChecklistItemRenamed':
+      case 'ChecklistItemChecked':
+      case 'ChecklistItemUnchecked':
+      case 'ChecklistItemMoved':
+        requireCard(event.event_data.card_id);
+        requireChecklistItem(event.event_data.card_id, event.event_data.item_id);
+        break;
+      case 'ChecklistItemDeleted': {
+        const { card_id, item_id } = event.event_data;
+        requireCard(card_id);
+        requireChecklistItem(card_id, item_id);
+        provenance.deletedChecklistItems.set(item_id, id);
+        break;
+      }
+      case 'CardAssigned': {
+        const { card_id, member_id } = event.event_data;
+        requireCard(card_id);
+        provenance.assignees.set(`${card_id}:${member_id}`, id);
+        break;
+      }
+      case 'CardUnassigned':
+        requireCard(event.event_data.card_id);
+        break;
+    }
+
+    aggregate.replay([event]);
+  }
+
+  // The state the log ends in. Assignees are checked against the members the
+  // workspace's log ends with.
+  const workspace = workspaces.get(aggregate.getWorkspaceId());
+  const cardsByColumn = new Map<string, string[]>();
+  for (const card of aggregate.getCards()) {
+    const placedBy = provenance.placed.get(card.id)!;
+    if (!aggregate.getColumn(card.column_id)) {
+      const deleted = provenance.deletedColumns.get(card.column_id);
+      report('orphaned_card', `Card ${card.id} is in ${deleted ? 'deleted' : 'unknown'} column ${card.column_id}`,
+        deleted ? [placedBy, deleted] : [placedBy]);
+    } else {
+      const key = `${card.column_id}:${card.position}`;
+      cardsByColumn.set(key, [...(cardsByColumn.get(key) ?? []), card.id]);
+    }
+    for (const dependency of card.dependencies) {
+      if (!aggregate.getCard(dependency)) {
+        const addedBy = provenance.dependencies.get(`${card.id}:${dependency}`)!;
+        const deleted = provenance.deletedCards.get(dependency);
+        report('dangling_dependency', `Card ${card.id} depends on ${deleted ? 'deleted' : 'unknown'} card ${dependency}`,
+          deleted ? [addedBy, deleted] : [addedBy]);
+      }
+    }
+    for (const labelId of card.labels) {
+      if (!aggregate.getLabel(labelId)) {
+        const labeledBy = provenance.labels.get(`${card.id}:${labelId}`)!;
+        const deleted = provenance.deletedLabels.get(labelId);
+        report('dangling_label', `Card ${card.id} has ${deleted ? 'deleted' : 'unknown'} label ${labelId}`,
+          deleted ? [labeledBy, deleted] : [labeledBy]);
+      }
+    }
+    for (const memberId of card.assignees) {
+      if (!workspace?.members.has(memberId)) {
+        const assignedBy = provenance.assignees.get(`${card.id}:${memberId}`)!;
+        const removed = workspace?.removed.get(memberId);
+        report('dangling_assignee', `Card ${card.id} is assigned to ${removed ? 'removed' : 'unknown'} member ${memberId}`,
+          removed ? [assignedBy, removed] : [assignedBy]);
+      }
+    }
+  }
+  for (const [key, cardIds] of cardsByColumn) {
+    if (cardIds.length > 1) {
+      const [columnId, position] = key.split(':');
+      report('duplicate_position', `${cardIds.length} cards share position ${position} in column ${columnId}`,
+        cardIds.map(cardId => provenance.placed.get(cardId)!).sort((a, b) => a - b));
+    }
+  }
+  return { aggregate, provenance };
+}
+
+// Appends the events that fix the repairable violations as one command:
+// dependencies on missing cards, missing labels and assignees that are not
+// members are removed, cards in missing columns are moved to the end of the
+// first column, and columns are renumbered so their cards have distinct
+// positions. Returns the number of events appended.
+function repairProject(aggregate: ProjectAggregate, provenance: Provenance, members: Set<string>): number {
+  const before = aggregate.getVersion();
+  aggregate.command(() => {
+    for (const card of aggregate.getCards()) {
+      for (const dependency of card.dependencies) {
+        if (!aggregate.getCard(dependency)) {
+          aggregate.removeDependency(card.id, dependency);
+        }
+      }
+      for (const labelId of card.labels) {
+        if (!aggregate.getLabel(labelId)) {
+          aggregate.unlabelCard(card.id, labelId);
+        }
+      }
+      for (const memberId of card.assignees) {
+        if (!members.has(memberId)) {
+          aggregate.unassignCard(card.id, memberId);
+        }
+      }
+    }
+
+    const firstColumn = aggregate.getColumns()[0];
+    if (firstColumn) {
+      for (const card of aggregate.getCards()) {
+        if (!aggregate.getColumn(card.column_id)) {
+          aggregate.moveCard(card.id, firstColumn.id);
+        }
+      }
+    }
+
+    // Cards keep their order. Of cards sharing a position, the one placed
+    // there last goes first, as a card dropped onto an occupied slot would.
+    const placedAt = (cardId: string) => provenance.placed.get(cardId)!;
+    for (const column of aggregate.getColumns()) {
+      const cards = aggregate.getCards().filter(card => card.column_id === column.id);
+      if (new Set(cards.map(card => card.position)).size === cards.length) {
+        continue;
+      }
+      cards
+        .sort((a, b) => a.position - b.position || placedAt(b.id) - placedAt(a.id))
+        .forEach((card, position) => {
+          if (card.position !== position) {
+            aggregate.moveCard(card.id, column.id, position);
+          }
+        });
+    }
+  });
+  return aggregate.getVersion() - before;
+}
+
+// Checks every aggregate in the store. With repair, corrective events are
+// appended to live projects that have repairable violations; metadata is
+// attached to them. Deleted projects are only reported.
+export function verifyEventLog(
+  options: { repair?: boolean; metadata?: EventMetadata } = {},
+  stores: Stores = getServerStores()
+): IntegrityReport {
+  const result: IntegrityReport = { aggregates_checked: 0, events_checked: 0, violations: [], events_appended: 0 };
+
+  const workspaces = new Map<string, WorkspaceMembers>();
+  for (const workspaceId of stores.events.getAggregateIds('workspace')) {
+    const events = stores.events.getEvents('workspace', workspaceId);
+    workspaces.set(workspaceId, checkWorkspace(workspaceId, events, result.violations));
+    result.aggregates_checked += 1;
+    result.events_checked += events.length;
+  }
+
+  for (const projectId of stores.events.getAggregateIds('project')) {
+    const events = stores.events.getEvents('project', projectId);
+    const violations: IntegrityViolation[] = [];
+    const { aggregate, provenance } = checkProject(projectId, events, stores, options.metadata, workspaces, violations);
+    result.aggregates_checked += 1;
+    result.events_checked += events.length;
+
+    const repairable = violations.filter(violation => violation.repairable);
+    if (options.repair && repairable.length > 0 && aggregate.exists()) {
+      const members = workspaces.get(aggregate.getWorkspaceId())?.members ?? new Set<string>();
+      result.events_appended += repairProject(aggregate, provenance, members);
+      // Orphans stay put when the project has no column left to move them to
+      const stranded = !aggregate.getColumns()[0];
+      for (const violation of repairable) {
+        violation.repaired = !(stranded && violation.kind === 'orphaned_card');
+      }
+    }
+    result.violations.push(...violations);
+  }
+  return result;
+}
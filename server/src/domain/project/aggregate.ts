@@ -1,9 +1,15 @@
 import { v4 as uuidv4 } from 'uuid';
-import { eventStore } from '../../infrastructure/eventStore.js';
+import { getServerStores, Stores } from '../../infrastructure/stores.js';
+import { loadWorkspace } from '../workspace/aggregate.js';
 import type {
   Project,
   Column,
   Card,
+  ChecklistItem,
+  Label,
+  Priority,
+  DomainEvent,
+  EventMetadata,
   ProjectEvent,
   ProjectCreatedEvent,
   ProjectRenamedEvent,
@@ -18,7 +24,22 @@ import type {
   CardMovedEvent,
   CardDeletedEvent,
   DependencyAddedEvent,
-  DependencyRemovedEvent
+  DependencyRemovedEvent,
+  LabelCreatedEvent,
+  LabelRenamedEvent,
+  LabelDeletedEvent,
+  CardLabeledEvent,
+  CardUnlabeledEvent,
+  CardAssignedEvent,
+  CardUnassignedEvent,
+  CardScheduledEvent,
+  CardPlannedEvent,
+  ChecklistItemAddedEvent,
+  ChecklistItemRenamedEvent,
+  ChecklistItemCheckedEvent,
+  ChecklistItemUncheckedEvent,
+  ChecklistItemMovedEvent,
+  ChecklistItemDeletedEvent
 } from '../../types.js';
 
 interface ProjectState {
@@ -29,6 +50,21 @@ interface ProjectState {
   deleted: boolean;
   columns: Map<string, Column>;
   cards: Map<string, Card>;
+  labels: Map<string, Label>;
+}
+
+// Another label of the project already has the name
+export class LabelNameTakenError extends Error {
+  constructor() {
+    super('A label with this name already exists');
+    this.name = 'LabelNameTakenError';
+  }
+}
+
+// An event to append as-is, as computed by the undo service
+export interface CompensatingEvent {
+  event_type: string;
+  event_data: Record<string, unknown>;
 }
 
 function initialState(): ProjectState {
@@ -39,10 +75,99 @@ function initialState(): ProjectState {
     description: '',
     deleted: false,
     columns: new Map(),
-    cards: new Map()
+    cards: new Map(),
+    labels: new Map()
+  };
+}
+
+// Bump whenever applyEvent or ProjectState changes shape: snapshots written
+// under an older version are ignored and rebuilt from the event log
+const SNAPSHOT_SCHEMA_VERSION = 7;
+
+// Number of events replayed or appended before a new snapshot is taken
+const SNAPSHOT_INTERVAL = 100;
+
+interface SerializedProjectState {
+  id: string;
+  workspace_id: string;
+  name: string;
+  description: string;
+  deleted: boolean;
+  columns: Column[];
+  cards: Card[];
+  labels: Label[];
+}
+
+function serializeState(state: ProjectState): SerializedProjectState {
+  return {
+    ...state,
+    columns: [...state.columns.values()],
+    cards: [...state.cards.values()],
+    labels: [...state.labels.values()]
   };
 }
 
+function deserializeState(data: SerializedProjectState): ProjectState {
+  return {
+    ...data,
+    columns: new Map(data.columns.map(col => [col.id, col])),
+    cards: new Map(data.cards.map(card => [card.id, card])),
+    labels: new Map(data.labels.map(label => [label.id, label]))
+  };
+}
+
+// Every event type applyEvent understands
+export const PROJECT_EVENT_TYPES: ReadonlySet<string> = new Set([
+  'ProjectCreated',
+  'ProjectRenamed',
+  'ProjectDescriptionUpdated',
+  'ProjectDeleted',
+  'ColumnAdded',
+  'ColumnRenamed',
+  'ColumnMoved',
+  'ColumnDeleted',
+  'CardAdded',
+  'CardUpdated',
+  'CardMoved',
+  'CardDeleted',
+  'DependencyAdded',
+  'DependencyRemoved',
+  'LabelCreated',
+  'LabelRenamed',
+  'LabelDeleted',
+  'CardLabeled',
+  'CardUnlabeled',
+  'CardAssigned',
+  'CardUnassigned',
+  'CardScheduled',
+  'CardPlanned',
+  'ChecklistItemAdded',
+  'ChecklistItemRenamed',
+  'ChecklistItemChecked',
+  'ChecklistItemUnchecked',
+  'ChecklistItemMoved',
+  'ChecklistItemDeleted'
+]);
+
+// Replaces the checklist of the card, if the card exists
+function updateChecklist(
+  state: ProjectState,
+  cardId: string,
+  update: (checklist: ChecklistItem[]) => ChecklistItem[]
+): ProjectState {
+  const card = state.cards.get(cardId);
+  if (!card) {
+    return state;
+  }
+  const cards = new Map(state.cards);
+  cards.set(cardId, { ...card, checklist: update(card.checklist) });
+  return { ...state, cards };
+}
+
+function insertAt<T>(list: T[], position: number, item: T): T[] {
+  return [...list.slice(0, position), item, ...list.slice(position)];
+}
+
 function applyEvent(state: ProjectState, event: ProjectEvent): ProjectState {
   switch (event.event_type) {
     case 'ProjectCreated':
@@ -107,7 +232,11 @@ function applyEvent(state: ProjectState, event: ProjectEvent): ProjectState {
         title: event.event_data.title,
         description: event.event_data.description,
         position: event.event_data.position,
-        dependencies: []
+        dependencies: [],
+        labels: [],
+        assignees: [],
+        checklist: [],
+        ...(event.event_data.external_id !== undefined && { external_id: event.event_data.external_id })
       });
       return { ...state, cards };
     }
@@ -168,6 +297,133 @@ function applyEvent(state: ProjectState, event: ProjectEvent): ProjectState {
       return { ...state, cards };
     }
 
+    case 'LabelCreated': {
+      const labels = new Map(state.labels);
+      labels.set(event.event_data.label_id, {
+        id: event.event_data.label_id,
+        name: event.event_data.name,
+        color: event.event_data.color
+      });
+      return { ...state, labels };
+    }
+
+    case 'LabelRenamed': {
+      const labels = new Map(state.labels);
+      const label = labels.get(event.event_data.label_id);
+      if (label) {
+        labels.set(event.event_data.label_id, { ...label, name: event.event_data.name });
+      }
+      return { ...state, labels };
+    }
+
+    case 'LabelDeleted': {
+      const labels = new Map(state.labels);
+      labels.delete(event.event_data.label_id);
+      return { ...state, labels };
+    }
+
+    case 'CardLabeled': {
+      const cards = new Map(state.cards);
+      const card = cards.get(event.event_data.card_id);
+      if (card && !card.labels.includes(event.event_data.label_id)) {
+        cards.set(event.event_data.card_id, { ...card, labels: [...card.labels, event.event_data.label_id] });
+      }
+      return { ...state, cards };
+    }
+
+    case 'CardUnlabeled': {
+      const cards = new Map(state.cards);
+      const card = cards.get(event.event_data.card_id);
+      if (card) {
+        cards.set(event.event_data.card_id, {
+          ...card,
+          labels: card.labels.filter(id => id !== event.event_data.label_id)
+        });
+      }
+      return { ...state, cards };
+    }
+
+    case 'CardAssigned': {
+      const cards = new Map(state.cards);
+      const card = cards.get(event.event_data.card_id);
+      if (card && !card.assignees.includes(event.event_data.member_id)) {
+        cards.set(event.event_data.card_id, { ...card, assignees: [...card.assignees, event.event_data.member_id] });
+      }
+      return { ...state, cards };
+    }
+
+    case 'CardUnassigned': {
+      const cards = new Map(state.cards);
+      const card = cards.get(event.event_data.card_id);
+      if (card) {
+        cards.set(event.event_data.card_id, {
+          ...card,
+          assignees: card.assignees.filter(id => id !== event.event_data.member_id)
+        });
+      }
+      return { ...state, cards };
+    }
+
+    case 'CardScheduled': {
+      const cards = new Map(state.cards);
+      const card = cards.get(event.event_data.card_id);
+      if (card) {
+        const { start_date: _start, due_date: _due, ...rest } = card;
+        cards.set(event.event_data.card_id, {
+          ...rest,
+          ...(event.event_data.start_date !== null && { start_date: event.event_data.start_date }),
+          ...(event.event_data.due_date !== null && { due_date: event.event_data.due_date })
+        });
+      }
+      return { ...state, cards };
+    }
+
+    case 'CardPlanned': {
+      const cards = new Map(state.cards);
+      const card = cards.get(event.event_data.card_id);
+      if (card) {
+        const { priority: _priority, estimate: _estimate, ...rest } = card;
+        cards.set(event.event_data.card_id, {
+          ...rest,
+          ...(event.event_data.priority !== null && { priority: event.event_data.priority }),
+          ...(event.event_data.estimate !== null && { estimate: event.event_data.estimate })
+        });
+      }
+      return { ...state, cards };
+    }
+
+    case 'ChecklistItemAdded': {
+      const { card_id, item_id, text, position } = event.event_data;
+      return updateChecklist(state, card_id, checklist => checklist.some(item => item.id === item_id)
+        ? checklist
+        : insertAt(checklist, position, { id: item_id, text, checked: false }));
+    }
+
+    case 'ChecklistItemRenamed': {
+      const { card_id, item_id, text } = event.event_data;
+      return updateChecklist(state, card_id, checklist => checklist.map(item => item.id === item_id ? { ...item, text } : item));
+    }
+
+    case 'ChecklistItemChecked':
+    case 'ChecklistItemUnchecked': {
+      const { card_id, item_id } = event.event_data;
+      const checked = event.event_type === 'ChecklistItemChecked';
+      return updateChecklist(state, card_id, checklist => checklist.map(item => item.id === item_id ? { ...item, checked } : item));
+    }
+
+    case 'ChecklistItemMoved': {
+      const { card_id, item_id, position } = event.event_data;
+      return updateChecklist(state, card_id, checklist => {
+        const moved = checklist.find(item => item.id === item_id);
+        return moved ? insertAt(checklist.filter(item => item.id !== item_id), position, moved) : checklist;
+      });
+    }
+
+    case 'ChecklistItemDeleted': {
+      const { card_id, item_id } = event.event_data;
+      return updateChecklist(state, card_id, checklist => checklist.filter(item => item.id !== item_id));
+    }
+
     default:
       return state;
   }
@@ -176,186 +432,642 @@ function applyEvent(state: ProjectState, event: ProjectEvent): ProjectState {
 export class ProjectAggregate {
   private state: ProjectState = initialState();
   private version = 0;
+  private snapshotVersion = 0;
+  private pendingEvents: Omit<ProjectEvent, 'id' | 'timestamp'>[] = [];
+  private commandDepth = 0;
 
-  constructor(private readonly projectId: string) {}
+  // metadata is attached to every event this instance appends
+  constructor(
+    private readonly projectId: string,
+    readonly stores: Stores,
+    private readonly metadata: EventMetadata = { source: 'automation' }
+  ) {}
 
-  load(): this {
-    const events = eventStore.getEvents('project', this.projectId);
+  load(useSnapshot: boolean = true): this {
+    if (useSnapshot) {
+      const snapshot = this.stores.snapshots.get<SerializedProjectState>('project', this.projectId, SNAPSHOT_SCHEMA_VERSION);
+      if (snapshot) {
+        this.state = deserializeState(snapshot.state);
+        this.version = snapshot.version;
+        this.snapshotVersion = snapshot.version;
+      }
+    }
+
+    const events = this.stores.events.getEvents('project', this.projectId, this.version);
     for (const event of events) {
       this.state = applyEvent(this.state, event as ProjectEvent);
       this.version = event.version;
     }
+    this.maybeSnapshot();
     return this;
   }
 
-  private appendEvent(eventType: string, eventData: Record<string, unknown>, source?: string): void {
+  // Applies already stored events on top of the in-memory state without
+  // reading snapshots or the store, e.g. to rebuild a prefix of the log
+  replay(events: DomainEvent[]): this {
+    for (const event of events) {
+      this.state = applyEvent(this.state, event as ProjectEvent);
+      this.version = event.version;
+    }
+    return this;
+  }
+
+  saveSnapshot(): void {
+    if (this.version === 0) {
+      return;
+    }
+    this.stores.snapshots.save('project', this.projectId, this.version, SNAPSHOT_SCHEMA_VERSION, serializeState(this.state));
+    this.snapshotVersion = this.version;
+  }
+
+  private maybeSnapshot(): void {
+    if (this.version - this.snapshotVersion >= SNAPSHOT_INTERVAL) {
+      this.saveSnapshot();
+    }
+  }
+
+  // Runs a command as one unit: events emitted inside it, including those of
+  // nested commands, are buffered and committed in a single transaction. If the
+  // command or the commit fails, the in-memory state is rolled back.
+  command<T>(run: () => T): T {
+    if (this.commandDepth > 0) {
+      return run();
+    }
+
+    const previousState = this.state;
+    const previousVersion = this.version;
+    this.commandDepth += 1;
+    try {
+      const result = run();
+      this.commit();
+      return result;
+    } catch (err) {
+      this.state = previousState;
+      this.version = previousVersion;
+      throw err;
+    } finally {
+      this.pendingEvents = [];
+      this.commandDepth -= 1;
+    }
+  }
+
+  private commit(): void {
+    if (this.pendingEvents.length === 0) {
+      return;
+    }
+    const commandId = uuidv4();
+    this.stores.events.appendBatch(this.pendingEvents.map(event => ({ ...event, command_id: commandId })));
+    this.maybeSnapshot();
+  }
+
+  private appendEvent(eventType: string, eventData: Record<string, unknown>, metadata?: Partial<EventMetadata>): void {
     this.version += 1;
-    const finalEventData = source ? { ...eventData, _source: source } : eventData;
     const event = {
       aggregate_type: 'project' as const,
       aggregate_id: this.projectId,
       event_type: eventType,
-      event_data: finalEventData,
-      version: this.version
-    };
-    eventStore.append(event);
+      event_data: eventData,
+      version: this.version,
+      metadata: { ...this.metadata, ...metadata, event_id: uuidv4() }
+    } as Omit<ProjectEvent, 'id' | 'timestamp'>;
+    this.pendingEvents.push(event);
     this.state = applyEvent(this.state, { ...event, timestamp: new Date().toISOString() } as ProjectEvent);
   }
 
+  // Runs effects, then cause, and records the last event cause appends as the
+  // causation of every event the effects appended. Used where a command first
+  // cleans up after the change it is about to make.
+  private withEffects(effects: () => void, cause: () => void): void {
+    const firstEffect = this.pendingEvents.length;
+    effects();
+    const derived = this.pendingEvents.slice(firstEffect);
+    cause();
+    const causationId = this.pendingEvents[this.pendingEvents.length - 1].metadata!.event_id;
+    for (const event of derived) {
+      event.metadata = { ...event.metadata!, causation_id: event.metadata!.causation_id ?? causationId };
+    }
+  }
+
   // Project operations
   create(workspaceId: string, name: string, description: string): Project {
-    const data: ProjectCreatedEvent['event_data'] = {
-      project_id: this.projectId,
-      workspace_id: workspaceId,
-      name,
-      description
-    };
-    this.appendEvent('ProjectCreated', data);
+    return this.command(() => {
+      const data: ProjectCreatedEvent['event_data'] = {
+        project_id: this.projectId,
+        workspace_id: workspaceId,
+        name,
+        description
+      };
+      this.appendEvent('ProjectCreated', data);
 
-    // Add default columns
-    const defaultColumns = ['To Do', 'In Progress', 'Done'];
-    defaultColumns.forEach((colName, index) => {
-      const columnId = uuidv4();
-      this.appendEvent('ColumnAdded', { column_id: columnId, name: colName, position: index });
-    });
+      // Add default columns
+      const defaultColumns = ['To Do', 'In Progress', 'Done'];
+      defaultColumns.forEach((colName, index) => {
+        const columnId = uuidv4();
+        this.appendEvent('ColumnAdded', { column_id: columnId, name: colName, position: index });
+      });
 
-    return this.toProject();
+      return this.toProject();
+    });
   }
 
   rename(name: string): void {
-    const data: ProjectRenamedEvent['event_data'] = { name };
-    this.appendEvent('ProjectRenamed', data);
+    this.command(() => {
+      const data: ProjectRenamedEvent['event_data'] = { name };
+      this.appendEvent('ProjectRenamed', data);
+    });
   }
 
   updateDescription(description: string): void {
-    const data: ProjectDescriptionUpdatedEvent['event_data'] = { description };
-    this.appendEvent('ProjectDescriptionUpdated', data);
+    this.command(() => {
+      const data: ProjectDescriptionUpdatedEvent['event_data'] = { description };
+      this.appendEvent('ProjectDescriptionUpdated', data);
+    });
   }
 
   delete(): void {
-    this.appendEvent('ProjectDeleted', {});
+    this.command(() => {
+      this.appendEvent('ProjectDeleted', {});
+    });
   }
 
   // Column operations
   addColumn(name: string, position?: number): Column {
-    const columnId = uuidv4();
-    const pos = position ?? this.state.columns.size;
-    const data: ColumnAddedEvent['event_data'] = { column_id: columnId, name, position: pos };
-    this.appendEvent('ColumnAdded', data);
-    return this.state.columns.get(columnId)!;
+    return this.command(() => {
+      const columnId = uuidv4();
+      const pos = position ?? this.state.columns.size;
+      const data: ColumnAddedEvent['event_data'] = { column_id: columnId, name, position: pos };
+      this.appendEvent('ColumnAdded', data);
+      return this.state.columns.get(columnId)!;
+    });
   }
 
   renameColumn(columnId: string, name: string): void {
-    if (!this.state.columns.has(columnId)) {
-      throw new Error('Column not found');
-    }
-    const data: ColumnRenamedEvent['event_data'] = { column_id: columnId, name };
-    this.appendEvent('ColumnRenamed', data);
+    this.command(() => {
+      if (!this.state.columns.has(columnId)) {
+        throw new Error('Column not found');
+      }
+      const data: ColumnRenamedEvent['event_data'] = { column_id: columnId, name };
+      this.appendEvent('ColumnRenamed', data);
+    });
   }
 
   moveColumn(columnId: string, position: number): void {
-    if (!this.state.columns.has(columnId)) {
-      throw new Error('Column not found');
-    }
-    const data: ColumnMovedEvent['event_data'] = { column_id: columnId, position };
-    this.appendEvent('ColumnMoved', data);
+    this.command(() => {
+      if (!this.state.columns.has(columnId)) {
+        throw new Error('Column not found');
+      }
+      const data: ColumnMovedEvent['event_data'] = { column_id: columnId, position };
+      this.appendEvent('ColumnMoved', data);
+    });
   }
 
   deleteColumn(columnId: string): void {
-    if (!this.state.columns.has(columnId)) {
-      throw new Error('Column not found');
-    }
-    // Move cards to first column
-    const firstColumn = [...this.state.columns.values()].sort((a, b) => a.position - b.position)[0];
-    if (firstColumn && firstColumn.id !== columnId) {
-      for (const card of this.state.cards.values()) {
-        if (card.column_id === columnId) {
-          this.moveCard(card.id, firstColumn.id);
-        }
+    this.command(() => {
+      if (!this.state.columns.has(columnId)) {
+        throw new Error('Column not found');
       }
-    }
-    const data: ColumnDeletedEvent['event_data'] = { column_id: columnId };
-    this.appendEvent('ColumnDeleted', data);
+      this.withEffects(() => {
+        // Move cards to first column
+        const firstColumn = [...this.state.columns.values()].sort((a, b) => a.position - b.position)[0];
+        if (firstColumn && firstColumn.id !== columnId) {
+          for (const card of this.state.cards.values()) {
+            if (card.column_id === columnId) {
+              this.moveCard(card.id, firstColumn.id);
+            }
+          }
+        }
+      }, () => {
+        const data: ColumnDeletedEvent['event_data'] = { column_id: columnId };
+        this.appendEvent('ColumnDeleted', data);
+      });
+    });
   }
 
   // Card operations
-  addCard(columnId: string, title: string, description: string = '', position?: number, source?: string): Card {
-    if (!this.state.columns.has(columnId)) {
-      throw new Error('Column not found');
-    }
-    const cardId = uuidv4();
-    const cardsInColumn = [...this.state.cards.values()].filter(c => c.column_id === columnId);
-    const pos = position ?? cardsInColumn.length;
-    const data: CardAddedEvent['event_data'] = {
-      card_id: cardId,
-      column_id: columnId,
-      title,
-      description,
-      position: pos
-    };
-    this.appendEvent('CardAdded', data, source);
-    return this.state.cards.get(cardId)!;
+  // externalId links the card to an item in another system; at most one card
+  // of the project tracks each external id
+  addCard(columnId: string, title: string, description: string = '', position?: number, externalId?: string): Card {
+    return this.command(() => {
+      if (!this.state.columns.has(columnId)) {
+        throw new Error('Column not found');
+      }
+      if (externalId !== undefined && this.findCardByExternalId(externalId)) {
+        throw new Error('A card with this external id already exists');
+      }
+      const cardId = uuidv4();
+      const cardsInColumn = [...this.state.cards.values()].filter(c => c.column_id === columnId);
+      const pos = position ?? cardsInColumn.length;
+      const data: CardAddedEvent['event_data'] = {
+        card_id: cardId,
+        column_id: columnId,
+        title,
+        description,
+        position: pos,
+        ...(externalId !== undefined && { external_id: externalId })
+      };
+      this.appendEvent('CardAdded', data);
+      return this.state.cards.get(cardId)!;
+    });
   }
 
-  updateCard(cardId: string, updates: { title?: string; description?: string }, source?: string): void {
-    if (!this.state.cards.has(cardId)) {
-      throw new Error('Card not found');
-    }
-    const data: CardUpdatedEvent['event_data'] = { card_id: cardId, ...updates };
-    this.appendEvent('CardUpdated', data, source);
+  updateCard(cardId: string, updates: { title?: string; description?: string }): void {
+    this.command(() => {
+      if (!this.state.cards.has(cardId)) {
+        throw new Error('Card not found');
+      }
+      const data: CardUpdatedEvent['event_data'] = { card_id: cardId, ...updates };
+      this.appendEvent('CardUpdated', data);
+    });
+  }
+
+  // Dates are YYYY-MM-DD. A date left out is kept, null clears it; nothing is
+  // appended when neither changes.
+  scheduleCard(cardId: string, dates: { start_date?: string | null; due_date?: string | null }): void {
+    this.command(() => {
+      const card = this.state.cards.get(cardId);
+      if (!card) {
+        throw new Error('Card not found');
+      }
+      const startDate = dates.start_date !== undefined ? dates.start_date : card.start_date ?? null;
+      const dueDate = dates.due_date !== undefined ? dates.due_date : card.due_date ?? null;
+      if (startDate && dueDate && startDate > dueDate) {
+        throw new Error('Start date must not be after due date');
+      }
+      if (startDate === (card.start_date ?? null) && dueDate === (card.due_date ?? null)) {
+        return;
+      }
+      const data: CardScheduledEvent['event_data'] = { card_id: cardId, start_date: startDate, due_date: dueDate };
+      this.appendEvent('CardScheduled', data);
+    });
   }
 
-  moveCard(cardId: string, columnId: string, position?: number, source?: string): void {
+  // Like scheduleCard: a field left out is kept, null clears it
+  planCard(cardId: string, plan: { priority?: Priority | null; estimate?: number | null }): void {
+    this.command(() => {
+      const card = this.state.cards.get(cardId);
+      if (!card) {
+        throw new Error('Card not found');
+      }
+      const priority = plan.priority !== undefined ? plan.priority : card.priority ?? null;
+      const estimate = plan.estimate !== undefined ? plan.estimate : card.estimate ?? null;
+      if (priority === (card.priority ?? null) && estimate === (card.estimate ?? null)) {
+        return;
+      }
+      const data: CardPlannedEvent['event_data'] = { card_id: cardId, priority, estimate };
+      this.appendEvent('CardPlanned', data);
+    });
+  }
+
+  // Checklist operations. A position is an index into the card's checklist
+  // and is clamped to it; leaving it out adds at the end.
+  addChecklistItem(cardId: string, text: string, position?: number): ChecklistItem {
+    return this.command(() => {
+      const card = this.state.cards.get(cardId);
+      if (!card) {
+        throw new Error('Card not found');
+      }
+      const itemId = uuidv4();
+      const data: ChecklistItemAddedEvent['event_data'] = {
+        card_id: cardId,
+        item_id: itemId,
+        text,
+        position: Math.min(Math.max(position ?? card.checklist.length, 0), card.checklist.length)
+      };
+      this.appendEvent('ChecklistItemAdded', data);
+      return this.getChecklistItem(cardId, itemId)!;
+    });
+  }
+
+  renameChecklistItem(cardId: string, itemId: string, text: string): void {
+    this.command(() => {
+      const item = this.requireChecklistItem(cardId, itemId);
+      if (item.text === text) {
+        return;
+      }
+      const data: ChecklistItemRenamedEvent['event_data'] = { card_id: cardId, item_id: itemId, text };
+      this.appendEvent('ChecklistItemRenamed', data);
+    });
+  }
+
+  // Checking a checked item, or unchecking an unchecked one, appends nothing
+  checkChecklistItem(cardId: string, itemId: string, checked: boolean): void {
+    this.command(() => {
+      const item = this.requireChecklistItem(cardId, itemId);
+      if (item.checked === checked) {
+        return;
+      }
+      if (checked) {
+        const data: ChecklistItemCheckedEvent['event_data'] = { card_id: cardId, item_id: itemId };
+        this.appendEvent('ChecklistItemChecked', data);
+      } else {
+        const data: ChecklistItemUncheckedEvent['event_data'] = { card_id: cardId, item_id: itemId };
+        this.appendEvent('ChecklistItemUnchecked', data);
+      }
+    });
+  }
+
+  moveChecklistItem(cardId: string, itemId: string, position: number): void {
+    this.command(() => {
+      this.requireChecklistItem(cardId, itemId);
+      const checklist = this.state.cards.get(cardId)!.checklist;
+      const pos = Math.min(Math.max(position, 0), checklist.length - 1);
+      if (checklist[pos].id === itemId) {
+        return;
+      }
+      const data: ChecklistItemMovedEvent['event_data'] = { card_id: cardId, item_id: itemId, position: pos };
+      this.appendEvent('ChecklistItemMoved', data);
+    });
+  }
+
+  deleteChecklistItem(cardId: string, itemId: string): void {
+    this.command(() => {
+      this.requireChecklistItem(cardId, itemId);
+      const data: ChecklistItemDeletedEvent['event_data'] = { card_id: cardId, item_id: itemId };
+      this.appendEvent('ChecklistItemDeleted', data);
+    });
+  }
+
+  private requireChecklistItem(cardId: string, itemId: string): ChecklistItem {
     if (!this.state.cards.has(cardId)) {
       throw new Error('Card not found');
     }
-    if (!this.state.columns.has(columnId)) {
-      throw new Error('Column not found');
+    const item = this.getChecklistItem(cardId, itemId);
+    if (!item) {
+      throw new Error('Checklist item not found');
     }
-    const cardsInColumn = [...this.state.cards.values()].filter(c => c.column_id === columnId && c.id !== cardId);
-    const pos = position ?? cardsInColumn.length;
-    const data: CardMovedEvent['event_data'] = { card_id: cardId, column_id: columnId, position: pos };
-    this.appendEvent('CardMoved', data, source);
+    return item;
   }
 
-  deleteCard(cardId: string, source?: string): void {
-    if (!this.state.cards.has(cardId)) {
-      throw new Error('Card not found');
-    }
-    // Remove dependencies referencing this card
-    for (const card of this.state.cards.values()) {
-      if (card.dependencies.includes(cardId)) {
-        this.removeDependency(card.id, cardId, source);
+  moveCard(cardId: string, columnId: string, position?: number): void {
+    this.command(() => {
+      if (!this.state.cards.has(cardId)) {
+        throw new Error('Card not found');
       }
-    }
-    const data: CardDeletedEvent['event_data'] = { card_id: cardId };
-    this.appendEvent('CardDeleted', data, source);
+      if (!this.state.columns.has(columnId)) {
+        throw new Error('Column not found');
+      }
+      const cardsInColumn = [...this.state.cards.values()].filter(c => c.column_id === columnId && c.id !== cardId);
+      const pos = position ?? cardsInColumn.length;
+      const data: CardMovedEvent['event_data'] = { card_id: cardId, column_id: columnId, position: pos };
+      this.appendEvent('CardMoved', data);
+    });
+  }
+
+  deleteCard(cardId: string): void {
+    this.command(() => {
+      if (!this.state.cards.has(cardId)) {
+        throw new Error('Card not found');
+      }
+      this.withEffects(() => {
+        // Remove dependencies referencing this card
+        for (const card of this.state.cards.values()) {
+          if (card.dependencies.includes(cardId)) {
+            this.removeDependency(card.id, cardId);
+          }
+        }
+      }, () => {
+        const data: CardDeletedEvent['event_data'] = { card_id: cardId };
+        this.appendEvent('CardDeleted', data);
+      });
+    });
   }
 
   // Dependency operations
-  addDependency(cardId: string, dependsOnCardId: string, source?: string): void {
-    if (!this.state.cards.has(cardId)) {
+  addDependency(cardId: string, dependsOnCardId: string): void {
+    this.command(() => {
+      if (!this.state.cards.has(cardId)) {
+        throw new Error('Card not found');
+      }
+      if (!this.state.cards.has(dependsOnCardId)) {
+        throw new Error('Dependency card not found');
+      }
+      if (cardId === dependsOnCardId) {
+        throw new Error('Card cannot depend on itself');
+      }
+      const data: DependencyAddedEvent['event_data'] = { card_id: cardId, depends_on_card_id: dependsOnCardId };
+      this.appendEvent('DependencyAdded', data);
+    });
+  }
+
+  removeDependency(cardId: string, dependsOnCardId: string): void {
+    this.command(() => {
+      if (!this.state.cards.has(cardId)) {
+        throw new Error('Card not found');
+      }
+      const data: DependencyRemovedEvent['event_data'] = { card_id: cardId, depends_on_card_id: dependsOnCardId };
+      this.appendEvent('DependencyRemoved', data);
+    });
+  }
+
+  // Label operations. Labels form the project's catalog; cards are tagged
+  // with them by id.
+  createLabel(name: string, color: string): Label {
+    return this.command(() => {
+      if (this.findLabelByName(name)) {
+        throw new LabelNameTakenError();
+      }
+      const labelId = uuidv4();
+      const data: LabelCreatedEvent['event_data'] = { label_id: labelId, name, color };
+      this.appendEvent('LabelCreated', data);
+      return this.state.labels.get(labelId)!;
+    });
+  }
+
+  renameLabel(labelId: string, name: string): void {
+    this.command(() => {
+      if (!this.state.labels.has(labelId)) {
+        throw new Error('Label not found');
+      }
+      const existing = this.findLabelByName(name);
+      if (existing && existing.id !== labelId) {
+        throw new LabelNameTakenError();
+      }
+      const data: LabelRenamedEvent['event_data'] = { label_id: labelId, name };
+      this.appendEvent('LabelRenamed', data);
+    });
+  }
+
+  deleteLabel(labelId: string): void {
+    this.command(() => {
+      if (!this.state.labels.has(labelId)) {
+        throw new Error('Label not found');
+      }
+      this.withEffects(() => {
+        // Untag every card first, so no card refers to a missing label
+        for (const card of this.state.cards.values()) {
+          if (card.labels.includes(labelId)) {
+            this.unlabelCard(card.id, labelId);
+          }
+        }
+      }, () => {
+        const data: LabelDeletedEvent['event_data'] = { label_id: labelId };
+        this.appendEvent('LabelDeleted', data);
+      });
+    });
+  }
+
+  // Tagging a card with a label it already has, or removing one it does not
+  // have, appends nothing
+  labelCard(cardId: string, labelId: string): void {
+    this.command(() => {
+      const card = this.state.cards.get(cardId);
+      if (!card) {
+        throw new Error('Card not found');
+      }
+      if (!this.state.labels.has(labelId)) {
+        throw new Error('Label not found');
+      }
+      if (card.labels.includes(labelId)) {
+        return;
+      }
+      const data: CardLabeledEvent['event_data'] = { card_id: cardId, label_id: labelId };
+      this.appendEvent('CardLabeled', data);
+    });
+  }
+
+  unlabelCard(cardId: string, labelId: string): void {
+    this.command(() => {
+      const card = this.state.cards.get(cardId);
+      if (!card) {
+        throw new Error('Card not found');
+      }
+      if (!card.labels.includes(labelId)) {
+        return;
+      }
+      const data: CardUnlabeledEvent['event_data'] = { card_id: cardId, label_id: labelId };
+      this.appendEvent('CardUnlabeled', data);
+    });
+  }
+
+  // Assignment operations. Members belong to the workspace, so callers check
+  // that the member exists; assigning twice or unassigning someone who is not
+  // assigned appends nothing.
+  assignCard(cardId: string, memberId: string): void {
+    this.command(() => {
+      const card = this.state.cards.get(cardId);
+      if (!card) {
+        throw new Error('Card not found');
+      }
+      if (card.assignees.includes(memberId)) {
+        return;
+      }
+      const data: CardAssignedEvent['event_data'] = { card_id: cardId, member_id: memberId };
+      this.appendEvent('CardAssigned', data);
+    });
+  }
+
+  unassignCard(cardId: string, memberId: string): void {
+    this.command(() => {
+      const card = this.state.cards.get(cardId);
+      if (!card) {
+        throw new Error('Card not found');
+      }
+      if (!card.assignees.includes(memberId)) {
+        return;
+      }
+      const data: CardUnassignedEvent['event_data'] = { card_id: cardId, member_id: memberId };
+      this.appendEvent('CardUnassigned', data);
+    });
+  }
+
+  // Unassigns the member from every card, e.g. when it leaves the workspace
+  unassignMember(memberId: string): void {
+    this.command(() => {
+      for (const card of this.state.cards.values()) {
+        if (card.assignees.includes(memberId)) {
+          this.unassignCard(card.id, memberId);
+        }
+      }
+    });
+  }
+
+  // Appends events computed by the undo service. They restore entities under
+  // their original ids, so they skip the commands above but are still checked
+  // against the current state. link is added to their metadata and names the
+  // command they reverse.
+  compensate(events: CompensatingEvent[], link: Pick<EventMetadata, 'compensates' | 'causation_id'>): void {
+    this.command(() => {
+      for (const event of events) {
+        this.assertCanApply(event);
+        this.appendEvent(event.event_type, event.event_data, link);
+      }
+    });
+  }
+
+  private assertCanApply({ event_type, event_data }: CompensatingEvent): void {
+    const columnId = event_data.column_id as string | undefined;
+    const cardId = event_data.card_id as string | undefined;
+    const labelId = event_data.label_id as string | undefined;
+    const itemId = event_data.item_id as string | undefined;
+    switch (event_type) {
+      case 'ColumnAdded':
+        if (this.state.columns.has(columnId!)) {
+          throw new Error('Column already exists');
+        }
+        break;
+      case 'ColumnDeleted':
+        if ([...this.state.cards.values()].some(card => card.column_id === columnId)) {
+          throw new Error('Column is not empty');
+        }
+        break;
+      case 'CardAdded':
+        if (this.state.cards.has(cardId!)) {
+          throw new Error('Card already exists');
+        }
+        if (event_data.external_id !== undefined && this.findCardByExternalId(event_data.external_id as string)) {
+          throw new Error('A card with this external id already exists');
+        }
+        break;
+      case 'DependencyAdded':
+        if (!this.state.cards.has(event_data.depends_on_card_id as string)) {
+          throw new Error('Dependency card not found');
+        }
+        break;
+      case 'LabelCreated':
+        if (this.state.labels.has(labelId!)) {
+          throw new Error('Label already exists');
+        }
+        if (this.findLabelByName(event_data.name as string)) {
+          throw new Error('A label with this name already exists');
+        }
+        break;
+      case 'LabelDeleted':
+        if ([...this.state.cards.values()].some(card => card.labels.includes(labelId!))) {
+          throw new Error('Label is still in use');
+        }
+        break;
+      case 'ChecklistItemAdded':
+        if (this.getChecklistItem(cardId!, itemId!)) {
+          throw new Error('Checklist item already exists');
+        }
+        break;
+      case 'CardAssigned':
+        if (!loadWorkspace(this.state.workspace_id, undefined, this.stores).getMember(event_data.member_id as string)) {
+          throw new Error('Member not found');
+        }
+        break;
+    }
+    if (columnId !== undefined && event_type !== 'ColumnAdded' && !this.state.columns.has(columnId)) {
+      throw new Error('Column not found');
+    }
+    if (cardId !== undefined && event_type !== 'CardAdded' && !this.state.cards.has(cardId)) {
       throw new Error('Card not found');
     }
-    if (!this.state.cards.has(dependsOnCardId)) {
-      throw new Error('Dependency card not found');
+    // A label may be removed from a card after the label itself is gone
+    if (labelId !== undefined && event_type !== 'LabelCreated' && event_type !== 'CardUnlabeled'
+      && !this.state.labels.has(labelId)) {
+      throw new Error('Label not found');
     }
-    if (cardId === dependsOnCardId) {
-      throw new Error('Card cannot depend on itself');
+    if (itemId !== undefined && event_type !== 'ChecklistItemAdded' && !this.getChecklistItem(cardId!, itemId)) {
+      throw new Error('Checklist item not found');
     }
-    const data: DependencyAddedEvent['event_data'] = { card_id: cardId, depends_on_card_id: dependsOnCardId };
-    this.appendEvent('DependencyAdded', data, source);
   }
 
-  removeDependency(cardId: string, dependsOnCardId: string, source?: string): void {
-    if (!this.state.cards.has(cardId)) {
-      throw new Error('Card not found');
-    }
-    const data: DependencyRemovedEvent['event_data'] = { card_id: cardId, depends_on_card_id: dependsOnCardId };
-    this.appendEvent('DependencyRemoved', data, source);
+  // Queries
+  getVersion(): number {
+    return this.version;
   }
 
-  // Queries
   exists(): boolean {
     return this.state.id !== '' && !this.state.deleted;
   }
@@ -364,14 +1076,58 @@ export class ProjectAggregate {
     return this.state.deleted;
   }
 
+  getName(): string {
+    return this.state.name;
+  }
+
+  getDescription(): string {
+    return this.state.description;
+  }
+
+  getWorkspaceId(): string {
+    return this.state.workspace_id;
+  }
+
   getCard(cardId: string): Card | undefined {
     return this.state.cards.get(cardId);
   }
 
+  getChecklistItem(cardId: string, itemId: string): ChecklistItem | undefined {
+    return this.state.cards.get(cardId)?.checklist.find(item => item.id === itemId);
+  }
+
   getColumn(columnId: string): Column | undefined {
     return this.state.columns.get(columnId);
   }
 
+  // Every card, including any whose column no longer exists
+  getCards(): Card[] {
+    return [...this.state.cards.values()];
+  }
+
+  getLabel(labelId: string): Label | undefined {
+    return this.state.labels.get(labelId);
+  }
+
+  // Labels in alphabetical order
+  getLabels(): Label[] {
+    return [...this.state.labels.values()].sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  findLabelByName(name: string): Label | undefined {
+    const wanted = name.toLowerCase();
+    return [...this.state.labels.values()].find(label => label.name.toLowerCase() === wanted);
+  }
+
+  findCardByExternalId(externalId: string): Card | undefined {
+    return [...this.state.cards.values()].find(card => card.external_id === externalId);
+  }
+
+  // Columns in board order
+  getColumns(): Column[] {
+    return [...this.state.columns.values()].sort((a, b) => a.position - b.position);
+  }
+
   toProject(): Project {
     const columns = [...this.state.columns.values()]
       .sort((a, b) => a.position - b.position)
@@ -387,25 +1143,47 @@ export class ProjectAggregate {
       workspace_id: this.state.workspace_id,
       name: this.state.name,
       description: this.state.description,
-      columns
+      columns,
+      labels: this.getLabels()
     };
   }
 }
 
-export function loadProject(projectId: string): ProjectAggregate {
-  return new ProjectAggregate(projectId).load();
+export function loadProject(
+  projectId: string,
+  metadata?: EventMetadata,
+  stores: Stores = getServerStores()
+): ProjectAggregate {
+  return new ProjectAggregate(projectId, stores, metadata).load();
 }
 
-export function createProject(workspaceId: string, name: string, description: string = ''): Project {
+export function createProject(
+  workspaceId: string,
+  name: string,
+  description: string = '',
+  metadata?: EventMetadata,
+  stores: Stores = getServerStores()
+): Project {
   const projectId = uuidv4();
-  const aggregate = new ProjectAggregate(projectId);
+  const aggregate = new ProjectAggregate(projectId, stores, metadata);
   return aggregate.create(workspaceId, name, description);
 }
 
-export function getProjectsByWorkspace(workspaceId: string): Project[] {
-  const projectIds = eventStore.getProjectIdsByWorkspace(workspaceId);
+export function getProjectsByWorkspace(workspaceId: string, stores: Stores = getServerStores()): Project[] {
+  const projectIds = stores.events.getProjectIdsByWorkspace(workspaceId);
   return projectIds
-    .map(id => new ProjectAggregate(id).load())
+    .map(id => new ProjectAggregate(id, stores).load())
     .filter(agg => agg.exists())
     .map(agg => agg.toProject());
 }
+
+// Replays every project from its full event log and writes a fresh snapshot.
+// Run after changing applyEvent so existing snapshots match the new logic.
+export function rebuildProjectSnapshots(stores: Stores = getServerStores()): number {
+  stores.snapshots.deleteAll('project');
+  const projectIds = stores.events.getAggregateIds('project');
+  for (const projectId of projectIds) {
+    new ProjectAggregate(projectId, stores).load(false).saveSnapshot();
+  }
+  return projectIds.length;
+}
@@ -0,0 +1,21 @@
+// Card dates are calendar days written as YYYY-MM-DD, so they compare as
+// strings. "Today" is the UTC date.
+const DATE_RE = /^\d{4}-\d{2}-\d{2}$/;
+
+export function isDate(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_RE.test(value)) {
+    return false;
+  }
+  const date = new Date(`${value}T00:00:00Z`);
+  return !isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+}
+
+export function today(): string {
+  return new Date().toISOString().slice(0, 10);
+}
+
+export function addDays(date: string, days: number): string {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+}
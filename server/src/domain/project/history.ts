@@ -0,0 +1,168 @@
+import { getServerStores, Stores } from '../../infrastructure/stores.js';
+import { ProjectAggregate } from './aggregate.js';
+import type { Card, ChecklistItem, Priority, Project } from '../../types.js';
+
+// A moment in a project's history: an aggregate version or a wall-clock time
+export type PointInTime = { version: number } | { timestamp: string };
+
+const VERSION_RE = /^\d+$/;
+
+// Accepts a version number ("42") or anything Date can parse ("2024-05-01T12:00:00Z")
+export function parsePointInTime(value: string): PointInTime | null {
+  if (VERSION_RE.test(value)) {
+    return { version: parseInt(value, 10) };
+  }
+  const time = Date.parse(value);
+  if (isNaN(time)) {
+    return null;
+  }
+  return { timestamp: new Date(time).toISOString() };
+}
+
+export function resolveVersion(projectId: string, point: PointInTime, stores: Stores = getServerStores()): number {
+  if ('version' in point) {
+    return point.version;
+  }
+  return stores.events.getVersionAt('project', projectId, point.timestamp);
+}
+
+// Replays the project's log up to the given point and nothing after it
+export function loadProjectAt(
+  projectId: string,
+  point: PointInTime,
+  stores: Stores = getServerStores()
+): ProjectAggregate {
+  const version = resolveVersion(projectId, point, stores);
+  const events = stores.events.getEvents('project', projectId, 0, version);
+  return new ProjectAggregate(projectId, stores).replay(events);
+}
+
+interface CardLocation {
+  column_id: string;
+  column_name: string;
+  position: number;
+}
+
+interface FieldChange<T> {
+  from: T;
+  to: T;
+}
+
+export interface ProjectDiff {
+  from_version: number;
+  to_version: number;
+  added: Card[];
+  removed: Card[];
+  moved: { card: Card; from: CardLocation; to: CardLocation }[];
+  edited: {
+    card: Card;
+    changes: {
+      title?: FieldChange<string>;
+      description?: FieldChange<string>;
+      dependencies?: { added: string[]; removed: string[] };
+      labels?: { added: string[]; removed: string[] };
+      assignees?: { added: string[]; removed: string[] };
+      start_date?: FieldChange<string | null>;
+      due_date?: FieldChange<string | null>;
+      priority?: FieldChange<Priority | null>;
+      estimate?: FieldChange<number | null>;
+      checklist?: FieldChange<ChecklistItem[]>;
+    };
+  }[];
+}
+
+function indexCards(project: Project): Map<string, { card: Card; location: CardLocation }> {
+  const cards = new Map<string, { card: Card; location: CardLocation }>();
+  for (const column of project.columns) {
+    for (const card of column.cards) {
+      cards.set(card.id, {
+        card,
+        location: { column_id: column.id, column_name: column.name, position: card.position }
+      });
+    }
+  }
+  return cards;
+}
+
+// Compares the board at two points in its history, card by card
+export function diffProject(
+  projectId: string,
+  from: PointInTime,
+  to: PointInTime,
+  stores: Stores = getServerStores()
+): ProjectDiff {
+  const before = loadProjectAt(projectId, from, stores);
+  const after = loadProjectAt(projectId, to, stores);
+  const beforeCards = indexCards(before.toProject());
+  const afterCards = indexCards(after.toProject());
+
+  const diff: ProjectDiff = {
+    from_version: before.getVersion(),
+    to_version: after.getVersion(),
+    added: [],
+    removed: [],
+    moved: [],
+    edited: []
+  };
+
+  for (const [cardId, { card }] of beforeCards) {
+    if (!afterCards.has(cardId)) {
+      diff.removed.push(card);
+    }
+  }
+
+  for (const [cardId, { card, location }] of afterCards) {
+    const previous = beforeCards.get(cardId);
+    if (!previous) {
+      diff.added.push(card);
+      continue;
+    }
+
+    if (previous.location.column_id !== location.column_id || previous.location.position !== location.position) {
+      diff.moved.push({ card, from: previous.location, to: location });
+    }
+
+    const changes: ProjectDiff['edited'][number]['changes'] = {};
+    if (previous.card.title !== card.title) {
+      changes.title = { from: previous.card.title, to: card.title };
+    }
+    if (previous.card.description !== card.description) {
+      changes.description = { from: previous.card.description, to: card.description };
+    }
+    if (previous.card.start_date !== card.start_date) {
+      changes.start_date = { from: previous.card.start_date ?? null, to: card.start_date ?? null };
+    }
+    if (previous.card.due_date !== card.due_date) {
+      changes.due_date = { from: previous.card.due_date ?? null, to: card.due_date ?? null };
+    }
+    if (previous.card.priority !== card.priority) {
+      changes.priority = { from: previous.card.priority ?? null, to: card.priority ?? null };
+    }
+    if (previous.card.estimate !== card.estimate) {
+      changes.estimate = { from: previous.card.estimate ?? null, to: card.estimate ?? null };
+    }
+    if (JSON.stringify(previous.card.checklist) !== JSON.stringify(card.checklist)) {
+      changes.checklist = { from: previous.card.checklist, to: card.checklist };
+    }
+    const addedDeps = card.dependencies.filter(id => !previous.card.dependencies.includes(id));
+    const removedDeps = previous.card.dependencies.filter(id => !card.dependencies.includes(id));
+    if (addedDeps.length > 0 || removedDeps.length > 0) {
+      changes.dependencies = { added: addedDeps, removed: removedDeps };
+    }
+    const addedLabels = card.labels.filter(id => !previous.card.labels.includes(id));
+    const removedLabels = previous.card.labels.filter(id => !card.labels.includes(id));
+    if (addedLabels.length > 0 || removedLabels.length > 0) {
+      changes.labels = { added: addedLabels, removed: removedLabels };
+    }
+    const addedAssignees = card.assignees.filter(id => !previous.card.assignees.includes(id));
+    const removedAssignees = previous.card.assignees.filter(id => !card.assignees.includes(id));
+    if (addedAssignees.length > 0 || removedAssignees.length > 0) {
+      changes.assignees = { added: addedAssignees, removed: removedAssignees };
+    }
+    if (Object.keys(changes).length > 0) {
+      diff.edited.push({ card, changes });
+    }
+  }
+
+  return diff;
+}
@@ -0,0 +1,163 @@
+import type { ProjectAggregate } from './aggregate.js';
+
+// How an inbound payload becomes card commands. Every field is a template in
+// which {{path.to.value}} is replaced with that value of the JSON payload.
+//
+//   {
+//     "external_id": "{{alert.id}}",
+//     "title": "{{alert.name}} is {{alert.status}}",
+//     "description": "{{alert.summary}}",
+//     "column": "{{alert.status}}",
+//     "columns": { "firing": "In Progress", "resolved": "Done" }
+//   }
+//
+// The card tracking external_id is created if there is none, otherwise its
+// title and description are updated and it is moved to the mapped column.
+// column is a column name or id; columns optionally translates the rendered
+// value first. delivery_id, when given, identifies resent deliveries.
+export interface InboundMapping {
+  external_id: string;
+  title?: string;
+  description?: string;
+  column?: string;
+  columns?: Record<string, string>;
+  delivery_id?: string;
+}
+
+export type InboundCommand = 'addCard' | 'updateCard' | 'moveCard';
+
+export interface InboundResult {
+  card_id: string;
+  external_id: string;
+  commands: InboundCommand[];
+}
+
+export class InboundWebhookError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'InboundWebhookError';
+  }
+}
+
+const OPTIONAL_TEMPLATES = ['title', 'description', 'column', 'delivery_id'] as const;
+const PLACEHOLDER_RE = /\{\{\s*([^}\s]+)\s*\}\}/g;
+
+export function parseMapping(value: unknown): InboundMapping {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new InboundWebhookError('mapping must be an object');
+  }
+  const mapping = value as Record<string, unknown>;
+  if (typeof mapping.external_id !== 'string' || mapping.external_id.trim() === '') {
+    throw new InboundWebhookError('mapping.external_id is required');
+  }
+  for (const field of OPTIONAL_TEMPLATES) {
+    if (mapping[field] !== undefined && typeof mapping[field] !== 'string') {
+      throw new InboundWebhookError(`mapping.${field} must be a string`);
+    }
+  }
+  if (mapping.columns !== undefined) {
+    const columns = mapping.columns;
+    if (typeof columns !== 'object' || columns === null || Array.isArray(columns)
+      || Object.values(columns).some(column => typeof column !== 'string')) {
+      throw new InboundWebhookError('mapping.columns must map values to column names');
+    }
+  }
+
+  const parsed: InboundMapping = { external_id: mapping.external_id };
+  for (const field of OPTIONAL_TEMPLATES) {
+    if (mapping[field] !== undefined) {
+      parsed[field] = mapping[field] as string;
+    }
+  }
+  if (mapping.columns !== undefined) {
+    parsed.columns = mapping.columns as Record<string, string>;
+  }
+  return parsed;
+}
+
+function lookup(payload: unknown, path: string): unknown {
+  let value = payload;
+  for (const key of path.split('.')) {
+    if (typeof value !== 'object' || value === null) {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+// Missing values render as empty strings, objects as JSON
+export function renderTemplate(template: string, payload: unknown): string {
+  return template.replace(PLACEHOLDER_RE, (_match, path: string) => {
+    const value = lookup(payload, path);
+    if (value === undefined || value === null) {
+      return '';
+    }
+    return typeof value === 'object' ? JSON.stringify(value) : String(value);
+  }).trim();
+}
+
+function resolveColumn(aggregate: ProjectAggregate, mapping: InboundMapping, payload: unknown): string | undefined {
+  if (mapping.column === undefined) {
+    return undefined;
+  }
+  const rendered = renderTemplate(mapping.column, payload);
+  const target = mapping.columns?.[rendered] ?? rendered;
+  if (target === '') {
+    return undefined;
+  }
+  const column = aggregate.getColumn(target)
+    ?? aggregate.getColumns().find(col => col.name.toLowerCase() === target.toLowerCase());
+  if (!column) {
+    throw new InboundWebhookError(`No column matches "${target}"`);
+  }
+  return column.id;
+}
+
+// Applies one payload to the project as a single command
+export function applyInboundPayload(
+  aggregate: ProjectAggregate,
+  mapping: InboundMapping,
+  payload: unknown
+): InboundResult {
+  const externalId = renderTemplate(mapping.external_id, payload);
+  if (externalId === '') {
+    throw new InboundWebhookError('Payload has no value for external_id');
+  }
+  const title = mapping.title !== undefined ? renderTemplate(mapping.title, payload) : '';
+  const description = mapping.description !== undefined ? renderTemplate(mapping.description, payload) : undefined;
+  const columnId = resolveColumn(aggregate, mapping, payload);
+
+  return aggregate.command(() => {
+    const existing = aggregate.findCardByExternalId(externalId);
+    if (!existing) {
+      const targetColumn = columnId ?? aggregate.getColumns()[0]?.id;
+      if (!targetColumn) {
+        throw new InboundWebhookError('Project has no columns');
+      }
+      if (title === '') {
+        throw new InboundWebhookError('Payload has no value for title');
+      }
+      const card = aggregate.addCard(targetColumn, title, description ?? '', undefined, externalId);
+      return { card_id: card.id, external_id: externalId, commands: ['addCard'] };
+    }
+
+    const commands: InboundCommand[] = [];
+    const updates: { title?: string; description?: string } = {};
+    if (title !== '' && title !== existing.title) {
+      updates.title = title;
+    }
+    if (description !== undefined && description !== existing.description) {
+      updates.description = description;
+    }
+    if (Object.keys(updates).length > 0) {
+      aggregate.updateCard(existing.id, updates);
+      commands.push('updateCard');
+    }
+    if (columnId !== undefined && columnId !== existing.column_id) {
+      aggregate.moveCard(existing.id, columnId);
+      commands.push('moveCard');
+    }
+    return { card_id: existing.id, external_id: externalId, commands };
+  });
+}
@@ -0,0 +1,198 @@
+import { v4 as uuidv4 } from 'uuid';
+import type { NewEvent } from '../../infrastructure/eventStore.js';
+import { getServerStores, Stores } from '../../infrastructure/stores.js';
+import { upcast } from '../../infrastructure/upcasters.js';
+import { loadProject, PROJECT_EVENT_TYPES } from './aggregate.js';
+import { loadWorkspace } from '../workspace/aggregate.js';
+import type { EventMetadata, Project } from '../../types.js';
+
+// An export is NDJSON: one header line, then one line per event in version order
+export const EXPORT_FORMAT = 'yakataka-project-events';
+export const EXPORT_FORMAT_VERSION = 1;
+
+export interface ExportHeader {
+  format: typeof EXPORT_FORMAT;
+  format_version: number;
+  project_id: string;
+  name: string;
+  version: number;
+  event_count: number;
+  exported_at: string;
+}
+
+// Events are exported without store ids or aggregate ids; both are assigned
+// again on import
+interface ExportedEvent {
+  event_type: string;
+  event_data: Record<string, unknown>;
+  version: number;
+  timestamp: string;
+  command_id?: string;
+  schema_version?: number;
+  metadata?: EventMetadata;
+}
+
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportError';
+  }
+}
+
+// Fields of event_data that hold ids of entities inside the project. Member
+// ids belong to the workspace and are kept, see importProject.
+const ENTITY_ID_FIELDS = ['column_id', 'card_id', 'depends_on_card_id', 'label_id', 'item_id'];
+
+export function exportProject(projectId: string, stores: Stores = getServerStores()): string {
+  const aggregate = loadProject(projectId, undefined, stores);
+  const events = stores.events.getEvents('project', projectId);
+  const header: ExportHeader = {
+    format: EXPORT_FORMAT,
+    format_version: EXPORT_FORMAT_VERSION,
+    project_id: projectId,
+    name: aggregate.toProject().name,
+    version: aggregate.getVersion(),
+    event_count: events.length,
+    exported_at: new Date().toISOString()
+  };
+
+  const lines = [JSON.stringify(header)];
+  for (const event of events) {
+    const exported: ExportedEvent = {
+      event_type: event.event_type,
+      event_data: event.event_data as Record<string, unknown>,
+      version: event.version,
+      timestamp: event.timestamp,
+      command_id: event.command_id,
+      schema_version: event.schema_version,
+      metadata: event.metadata
+    };
+    lines.push(JSON.stringify(exported));
+  }
+  return lines.join('\n') + '\n';
+}
+
+function parseLine(line: string, lineNumber: number): unknown {
+  try {
+    return JSON.parse(line);
+  } catch {
+    throw new ImportError(`Line ${lineNumber} is not valid JSON`);
+  }
+}
+
+function parseExport(ndjson: string): { header: ExportHeader; events: ExportedEvent[] } {
+  const lines = ndjson.split('\n').map(line => line.trim());
+  const parsed = lines
+    .map((line, index) => ({ line, lineNumber: index + 1 }))
+    .filter(({ line }) => line !== '')
+    .map(({ line, lineNumber }) => ({ value: parseLine(line, lineNumber), lineNumber }));
+
+  if (parsed.length === 0) {
+    throw new ImportError('Export is empty');
+  }
+
+  const header = parsed[0].value as Partial<ExportHeader>;
+  if (header?.format !== EXPORT_FORMAT) {
+    throw new ImportError(`Header must declare format "${EXPORT_FORMAT}"`);
+  }
+  if (typeof header.format_version !== 'number' || header.format_version > EXPORT_FORMAT_VERSION) {
+    throw new ImportError(`Unsupported format version ${header.format_version}`);
+  }
+
+  const events: ExportedEvent[] = [];
+  for (const { value, lineNumber } of parsed.slice(1)) {
+    const event = value as Partial<ExportedEvent>;
+    const expectedVersion = events.length + 1;
+    if (!event || typeof event.event_type !== 'string' || typeof event.event_data !== 'object' || !event.event_data) {
+      throw new ImportError(`Line ${lineNumber} is not an event`);
+    }
+    if (!PROJECT_EVENT_TYPES.has(event.event_type)) {
+      throw new ImportError(`Line ${lineNumber} has unknown event type ${event.event_type}`);
+    }
+    if (event.version !== expectedVersion) {
+      throw new ImportError(`Line ${lineNumber} has version ${event.version}, expected ${expectedVersion}`);
+    }
+    events.push(event as ExportedEvent);
+  }
+
+  if (events.length === 0 || events[0].event_type !== 'ProjectCreated') {
+    throw new ImportError('Event log must start with ProjectCreated');
+  }
+  if (events.some(event => event.event_type === 'ProjectDeleted')) {
+    throw new ImportError('Cannot import a deleted project');
+  }
+  if (header.event_count !== undefined && header.event_count !== events.length) {
+    throw new ImportError(`Header announces ${header.event_count} events, found ${events.length}`);
+  }
+
+  return { header: header as ExportHeader, events };
+}
+
+// Replays an exported log into a new project in the target workspace. Project,
+// column, card, label, command and event ids are replaced so the same export can be imported
+// any number of times; versions and timestamps are kept. Cards assigned to
+// people who are not members of the target workspace are then unassigned.
+export function importProject(workspaceId: string, ndjson: string, stores: Stores = getServerStores()): Project {
+  const { events } = parseExport(ndjson);
+  const projectId = uuidv4();
+  const newIds = new Map<string, string>();
+  const rekey = (id: unknown): unknown => {
+    if (typeof id !== 'string') {
+      return id;
+    }
+    if (!newIds.has(id)) {
+      newIds.set(id, uuidv4());
+    }
+    return newIds.get(id);
+  };
+
+  // Exports from older instances may carry payloads of an older schema
+  const imported: NewEvent[] = events.map(event => {
+    const payload = upcast(event.event_type, event.schema_version ?? 1, {
+      event_data: event.event_data,
+      metadata: event.metadata
+    });
+    const data = { ...payload.event_data };
+    for (const field of ENTITY_ID_FIELDS) {
+      if (field in data) {
+        data[field] = rekey(data[field]);
+      }
+    }
+    if (event.event_type === 'ProjectCreated') {
+      data.project_id = projectId;
+      data.workspace_id = workspaceId;
+    }
+    // Undo and redo link to command ids, which are re-keyed with the events
+    const { compensates } = payload.metadata ?? {};
+    const metadata = payload.metadata && {
+      ...payload.metadata,
+      event_id: rekey(payload.metadata.event_id) as string | undefined,
+      causation_id: rekey(payload.metadata.causation_id) as string | undefined,
+      ...(compensates && { compensates: { ...compensates, command_id: rekey(compensates.command_id) as string } })
+    };
+    return {
+      aggregate_type: 'project',
+      aggregate_id: projectId,
+      event_type: event.event_type,
+      event_data: data,
+      version: event.version,
+      timestamp: event.timestamp,
+      command_id: event.command_id ? rekey(event.command_id) as string : undefined,
+      metadata
+    };
+  });
+
+  stores.events.appendBatch(imported);
+  const aggregate = loadProject(projectId, undefined, stores);
+  const workspace = loadWorkspace(workspaceId, undefined, stores);
+  aggregate.command(() => {
+    for (const card of aggregate.getCards()) {
+      for (const memberId of card.assignees) {
+        if (!workspace.getMember(memberId)) {
+          aggregate.unassignCard(card.id, memberId);
+        }
+      }
+    }
+  });
+  return aggregate.toProject();
+}
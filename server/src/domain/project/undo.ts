@@ -0,0 +1,414 @@
+import { groupByCommand, ConcurrencyError } from '../../infrastructure/eventStore.js';
+import { getServerStores, Stores } from '../../infrastructure/stores.js';
+import { ProjectAggregate, CompensatingEvent } from './aggregate.js';
+import type { ChecklistItem, Compensation, DomainEvent, ProjectEvent } from '../../types.js';
+
+export class UndoError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UndoError';
+  }
+}
+
+export interface UndoEntry {
+  command_id: string;
+  summary: string;
+  timestamp: string;
+}
+
+export interface UndoStatus {
+  undo: UndoEntry | null;
+  redo: UndoEntry | null;
+}
+
+interface StackEntry {
+  id: string;
+  summary: string;
+  events: DomainEvent[];
+}
+
+type Direction = Compensation['direction'];
+
+const SUMMARIES: Record<string, string> = {
+  ProjectRenamed: 'Rename project',
+  ProjectDescriptionUpdated: 'Update project description',
+  ColumnAdded: 'Add column',
+  ColumnRenamed: 'Rename column',
+  ColumnMoved: 'Move column',
+  ColumnDeleted: 'Delete column',
+  CardAdded: 'Add card',
+  CardUpdated: 'Edit card',
+  CardMoved: 'Move card',
+  CardDeleted: 'Delete card',
+  DependencyAdded: 'Add dependency',
+  DependencyRemoved: 'Remove dependency',
+  LabelCreated: 'Create label',
+  LabelRenamed: 'Rename label',
+  LabelDeleted: 'Delete label',
+  CardLabeled: 'Label card',
+  CardUnlabeled: 'Unlabel card',
+  CardAssigned: 'Assign card',
+  CardUnassigned: 'Unassign card',
+  CardScheduled: 'Change card dates',
+  CardPlanned: 'Change card priority or estimate',
+  ChecklistItemAdded: 'Add checklist item',
+  ChecklistItemRenamed: 'Rename checklist item',
+  ChecklistItemChecked: 'Check checklist item',
+  ChecklistItemUnchecked: 'Uncheck checklist item',
+  ChecklistItemMoved: 'Move checklist item',
+  ChecklistItemDeleted: 'Delete checklist item'
+};
+
+// Commands before these cannot be undone: history starts at creation, and a
+// deleted project is no longer served
+const HISTORY_BARRIERS = new Set(['ProjectCreated', 'ProjectDeleted']);
+
+function commandKey(events: DomainEvent[]): string {
+  return events[0].command_id ?? `event-${events[0].id}`;
+}
+
+// The last event of a command is the one it was issued for; earlier ones are
+// side effects such as cards moved out of a deleted column
+function summarize(events: DomainEvent[]): string {
+  const { event_type, event_data } = events[events.length - 1];
+  const summary = SUMMARIES[event_type] ?? event_type;
+  const title = (event_data as Record<string, unknown>).title;
+  return typeof title === 'string' ? `${summary} "${title}"` : summary;
+}
+
+// Both stacks are derived from the log. A compensating command carries the id
+// of the command it reverses in metadata.compensates, and keeps its summary.
+function getStacks(events: DomainEvent[]): Record<Direction, StackEntry[]> {
+  const stacks: Record<Direction, StackEntry[]> = { undo: [], redo: [] };
+
+  const take = (stack: StackEntry[], id: string): StackEntry | undefined => {
+    const index = stack.findIndex(entry => entry.id === id);
+    return index === -1 ? undefined : stack.splice(index, 1)[0];
+  };
+
+  for (const group of groupByCommand(events)) {
+    const id = commandKey(group);
+    const compensates = group[0].metadata?.compensates;
+
+    if (compensates?.direction === 'undo') {
+      const undone = take(stacks.undo, compensates.command_id);
+      stacks.redo.push({ id, summary: undone?.summary ?? summarize(group), events: group });
+    } else if (compensates?.direction === 'redo') {
+      const redone = take(stacks.redo, compensates.command_id);
+      stacks.undo.push({ id, summary: redone?.summary ?? summarize(group), events: group });
+    } else if (group.some(event => HISTORY_BARRIERS.has(event.event_type))) {
+      stacks.undo = [];
+      stacks.redo = [];
+    } else {
+      stacks.undo.push({ id, summary: summarize(group), events: group });
+      stacks.redo = [];
+    }
+  }
+  return stacks;
+}
+
+// Events that put a deleted checklist item back where it was
+function restoreChecklistItem(cardId: string, item: ChecklistItem, position: number): CompensatingEvent[] {
+  return [
+    {
+      event_type: 'ChecklistItemAdded',
+      event_data: { card_id: cardId, item_id: item.id, text: item.text, position }
+    },
+    ...(item.checked
+      ? [{ event_type: 'ChecklistItemChecked', event_data: { card_id: cardId, item_id: item.id } }]
+      : [])
+  ];
+}
+
+// Events that restore what one event changed, given the state before it
+function invertEvent(before: ProjectAggregate, event: ProjectEvent): CompensatingEvent[] {
+  switch (event.event_type) {
+    case 'ProjectRenamed':
+      return [{ event_type: 'ProjectRenamed', event_data: { name: before.getName() } }];
+
+    case 'ProjectDescriptionUpdated':
+      return [{ event_type: 'ProjectDescriptionUpdated', event_data: { description: before.getDescription() } }];
+
+    case 'ColumnAdded':
+      return [{ event_type: 'ColumnDeleted', event_data: { column_id: event.event_data.column_id } }];
+
+    case 'ColumnRenamed':
+    case 'ColumnMoved':
+    case 'ColumnDeleted': {
+      const column = before.getColumn(event.event_data.column_id);
+      if (!column) {
+        return [];
+      }
+      if (event.event_type === 'ColumnRenamed') {
+        return [{ event_type: 'ColumnRenamed', event_data: { column_id: column.id, name: column.name } }];
+      }
+      if (event.event_type === 'ColumnMoved') {
+        return [{ event_type: 'ColumnMoved', event_data: { column_id: column.id, position: column.position } }];
+      }
+      return [{
+        event_type: 'ColumnAdded',
+        event_data: { column_id: column.id, name: column.name, position: column.position }
+      }];
+    }
+
+    case 'CardAdded':
+      return [{ event_type: 'CardDeleted', event_data: { card_id: event.event_data.card_id } }];
+
+    case 'CardUpdated': {
+      const card = before.getCard(event.event_data.card_id);
+      if (!card) {
+        return [];
+      }
+      const data: Record<string, unknown> = { card_id: card.id };
+      if (event.event_data.title !== undefined) {
+        data.title = card.title;
+      }
+      if (event.event_data.description !== undefined) {
+        data.description = card.description;
+      }
+      return [{ event_type: 'CardUpdated', event_data: data }];
+    }
+
+    case 'CardMoved': {
+      const card = before.getCard(event.event_data.card_id);
+      if (!card) {
+        return [];
+      }
+      return [{
+        event_type: 'CardMoved',
+        event_data: { card_id: card.id, column_id: card.column_id, position: card.position }
+      }];
+    }
+
+    case 'CardDeleted': {
+      const card = before.getCard(event.event_data.card_id);
+      if (!card) {
+        return [];
+      }
+      return [
+        {
+          event_type: 'CardAdded',
+          event_data: {
+            card_id: card.id,
+            column_id: card.column_id,
+            title: card.title,
+            description: card.description,
+            position: card.position,
+            ...(card.external_id !== undefined && { external_id: card.external_id })
+          }
+        },
+        ...card.dependencies.map(dependsOn => ({
+          event_type: 'DependencyAdded',
+          event_data: { card_id: card.id, depends_on_card_id: dependsOn }
+        })),
+        ...card.labels.map(labelId => ({
+          event_type: 'CardLabeled',
+          event_data: { card_id: card.id, label_id: labelId }
+        })),
+        ...card.assignees.map(memberId => ({
+          event_type: 'CardAssigned',
+          event_data: { card_id: card.id, member_id: memberId }
+        })),
+        ...(card.start_date !== undefined || card.due_date !== undefined
+          ? [{
+            event_type: 'CardScheduled',
+            event_data: { card_id: card.id, start_date: card.start_date ?? null, due_date: card.due_date ?? null }
+          }]
+          : []),
+        ...(card.priority !== undefined || card.estimate !== undefined
+          ? [{
+            event_type: 'CardPlanned',
+            event_data: { card_id: card.id, priority: card.priority ?? null, estimate: card.estimate ?? null }
+          }]
+          : []),
+        ...card.checklist.flatMap((item, index) => restoreChecklistItem(card.id, item, index))
+      ];
+    }
+
+    case 'DependencyAdded':
+    case 'DependencyRemoved': {
+      const { card_id, depends_on_card_id } = event.event_data;
+      const existed = before.getCard(card_id)?.dependencies.includes(depends_on_card_id) ?? false;
+      // Adding an existing or removing a missing dependency changed nothing
+      if ((event.event_type === 'DependencyAdded') === existed) {
+        return [];
+      }
+      return [{
+        event_type: event.event_type === 'DependencyAdded' ? 'DependencyRemoved' : 'DependencyAdded',
+        event_data: { card_id, depends_on_card_id }
+      }];
+    }
+
+    case 'LabelCreated':
+      return [{ event_type: 'LabelDeleted', event_data: { label_id: event.event_data.label_id } }];
+
+    case 'LabelRenamed':
+    case 'LabelDeleted': {
+      const label = before.getLabel(event.event_data.label_id);
+      if (!label) {
+        return [];
+      }
+      if (event.event_type === 'LabelRenamed') {
+        return [{ event_type: 'LabelRenamed', event_data: { label_id: label.id, name: label.name } }];
+      }
+      return [{ event_type: 'LabelCreated', event_data: { label_id: label.id, name: label.name, color: label.color } }];
+    }
+
+    case 'CardLabeled':
+    case 'CardUnlabeled': {
+      const { card_id, label_id } = event.event_data;
+      const existed = before.getCard(card_id)?.labels.includes(label_id) ?? false;
+      if ((event.event_type === 'CardLabeled') === existed) {
+        return [];
+      }
+      return [{
+        event_type: event.event_type === 'CardLabeled' ? 'CardUnlabeled' : 'CardLabeled',
+        event_data: { card_id, label_id }
+      }];
+    }
+
+    case 'CardAssigned':
+    case 'CardUnassigned': {
+      const { card_id, member_id } = event.event_data;
+      const existed = before.getCard(card_id)?.assignees.includes(member_id) ?? false;
+      if ((event.event_type === 'CardAssigned') === existed) {
+        return [];
+      }
+      return [{
+        event_type: event.event_type === 'CardAssigned' ? 'CardUnassigned' : 'CardAssigned',
+        event_data: { card_id, member_id }
+      }];
+    }
+
+    case 'CardScheduled': {
+      const card = before.getCard(event.event_data.card_id);
+      if (!card) {
+        return [];
+      }
+      return [{
+        event_type: 'CardScheduled',
+        event_data: { card_id: card.id, start_date: card.start_date ?? null, due_date: card.due_date ?? null }
+      }];
+    }
+
+    case 'CardPlanned': {
+      const card = before.getCard(event.event_data.card_id);
+      if (!card) {
+        return [];
+      }
+      return [{
+        event_type: 'CardPlanned',
+        event_data: { card_id: card.id, priority: card.priority ?? null, estimate: card.estimate ?? null }
+      }];
+    }
+
+    case 'ChecklistItemAdded': {
+      const { card_id, item_id } = event.event_data;
+      return [{ event_type: 'ChecklistItemDeleted', event_data: { card_id, item_id } }];
+    }
+
+    case 'ChecklistItemChecked':
+    case 'ChecklistItemUnchecked': {
+      const { card_id, item_id } = event.event_data;
+      return [{
+        event_type: event.event_type === 'ChecklistItemChecked' ? 'ChecklistItemUnchecked' : 'ChecklistItemChecked',
+        event_data: { card_id, item_id }
+      }];
+    }
+
+    case 'ChecklistItemRenamed':
+    case 'ChecklistItemMoved':
+    case 'ChecklistItemDeleted': {
+      const { card_id, item_id } = event.event_data;
+      const checklist = before.getCard(card_id)?.checklist ?? [];
+      const position = checklist.findIndex(item => item.id === item_id);
+      if (position === -1) {
+        return [];
+      }
+      if (event.event_type === 'ChecklistItemRenamed') {
+        return [{ event_type: 'ChecklistItemRenamed', event_data: { card_id, item_id, text: checklist[position].text } }];
+      }
+      if (event.event_type === 'ChecklistItemMoved') {
+        return [{ event_type: 'ChecklistItemMoved', event_data: { card_id, item_id, position } }];
+      }
+      return restoreChecklistItem(card_id, checklist[position], position);
+    }
+
+    default:
+      return [];
+  }
+}
+
+// Inverts a whole command: each event is inverted against the state just
+// before it, and the inverses run in reverse order
+function invertCommand(
+  projectId: string,
+  stores: Stores,
+  log: DomainEvent[],
+  entry: StackEntry
+): CompensatingEvent[] {
+  const firstVersion = entry.events[0].version;
+  const state = new ProjectAggregate(projectId, stores).replay(log.filter(event => event.version < firstVersion));
+  const inverses: CompensatingEvent[][] = [];
+  for (const event of entry.events) {
+    inverses.push(invertEvent(state, event as ProjectEvent));
+    state.replay([event]);
+  }
+  return inverses.reverse().flat();
+}
+
+function toEntry(entry: StackEntry | undefined): UndoEntry | null {
+  if (!entry) {
+    return null;
+  }
+  return {
+    command_id: entry.id,
+    summary: entry.summary,
+    timestamp: entry.events[entry.events.length - 1].timestamp
+  };
+}
+
+export function getUndoStatus(projectId: string, stores: Stores = getServerStores()): UndoStatus {
+  const stacks = getStacks(stores.events.getEvents('project', projectId));
+  return {
+    undo: toEntry(stacks.undo[stacks.undo.length - 1]),
+    redo: toEntry(stacks.redo[stacks.redo.length - 1])
+  };
+}
+
+// Reverses the latest command on the given stack by appending compensating
+// events. Commands that changed nothing are skipped.
+function step(aggregate: ProjectAggregate, projectId: string, direction: Direction): UndoEntry {
+  const log = aggregate.stores.events.getEvents('project', projectId);
+  const stack = getStacks(log)[direction];
+
+  for (let i = stack.length - 1; i >= 0; i--) {
+    const entry = stack[i];
+    const inverse = invertCommand(projectId, aggregate.stores, log, entry);
+    if (inverse.length === 0) {
+      continue;
+    }
+    const causationId = entry.events[entry.events.length - 1].metadata?.event_id;
+    try {
+      aggregate.compensate(inverse, {
+        compensates: { direction, command_id: entry.id },
+        ...(causationId && { causation_id: causationId })
+      });
+    } catch (err) {
+      if (err instanceof ConcurrencyError) {
+        throw err;
+      }
+      throw new UndoError(`Cannot ${direction} "${entry.summary}": ${(err as Error).message}`);
+    }
+    return toEntry(entry)!;
+  }
+  throw new UndoError(`Nothing to ${direction}`);
+}
+
+export function undo(aggregate: ProjectAggregate, projectId: string): UndoEntry {
+  return step(aggregate, projectId, 'undo');
+}
+
+export function redo(aggregate: ProjectAggregate, projectId: string): UndoEntry {
+  return step(aggregate, projectId, 'redo');
+}
@@ -1,53 +1,162 @@
-import { eventStore } from '../../infrastructure/eventStore.js';
-import type { Workspace, WorkspaceEvent, WorkspaceCreatedEvent } from '../../types.js';
+import { getServerStores, Stores } from '../../infrastructure/stores.js';
+import { v4 as uuidv4 } from 'uuid';
+import { loadProject } from '../project/aggregate.js';
+import type {
+  EventMetadata,
+  Member,
+  MemberKind,
+  Workspace,
+  WorkspaceEvent,
+  WorkspaceCreatedEvent,
+  MemberAddedEvent,
+  MemberUpdatedEvent,
+  MemberRemovedEvent
+} from '../../types.js';
+
+// Every event type the workspace aggregate understands
+export const WORKSPACE_EVENT_TYPES: ReadonlySet<string> = new Set([
+  'WorkspaceCreated',
+  'MemberAdded',
+  'MemberUpdated',
+  'MemberRemoved'
+]);
+
+// Another member of the workspace already has the name
+export class MemberNameTakenError extends Error {
+  constructor() {
+    super('A member with this name already exists');
+    this.name = 'MemberNameTakenError';
+  }
+}
 
 export class WorkspaceAggregate {
   private state: Workspace | null = null;
   private version = 0;
 
-  constructor(private readonly workspaceId: string) {}
+  // metadata is attached to every event this instance appends
+  constructor(
+    private readonly workspaceId: string,
+    private readonly stores: Stores,
+    private readonly metadata: EventMetadata = { source: 'automation' }
+  ) {}
 
   load(): this {
-    const events = eventStore.getEvents('workspace', this.workspaceId);
+    const events = this.stores.events.getEvents('workspace', this.workspaceId);
     for (const event of events) {
       this.apply(event as WorkspaceEvent, false);
     }
     return this;
   }
 
+  // New events are stored before they change the state, so a failed append
+  // (such as a version conflict) leaves the aggregate as it was
   private apply(event: WorkspaceEvent, isNew: boolean): void {
+    if (isNew) {
+      this.stores.events.append(event);
+    }
+
     switch (event.event_type) {
       case 'WorkspaceCreated':
         this.state = {
           id: event.event_data.workspace_id,
-          created_at: event.timestamp
+          created_at: event.timestamp,
+          members: []
         };
         break;
-    }
 
-    if (isNew) {
-      eventStore.append(event);
+      case 'MemberAdded':
+        if (this.state) {
+          const { member_id, name, color, kind } = event.event_data;
+          this.state = { ...this.state, members: [...this.state.members, { id: member_id, name, color, kind }] };
+        }
+        break;
+
+      case 'MemberUpdated':
+        if (this.state) {
+          const { member_id, ...updates } = event.event_data;
+          this.state = {
+            ...this.state,
+            members: this.state.members.map(member => member.id === member_id
+              ? {
+                ...member,
+                name: updates.name ?? member.name,
+                color: updates.color ?? member.color,
+                kind: updates.kind ?? member.kind
+              }
+              : member)
+          };
+        }
+        break;
+
+      case 'MemberRemoved':
+        if (this.state) {
+          const { member_id } = event.event_data;
+          this.state = { ...this.state, members: this.state.members.filter(member => member.id !== member_id) };
+        }
+        break;
     }
     this.version = event.version;
   }
 
+  private appendEvent(eventType: WorkspaceEvent['event_type'], eventData: WorkspaceEvent['event_data']): void {
+    const event = {
+      aggregate_type: 'workspace',
+      aggregate_id: this.workspaceId,
+      event_type: eventType,
+      event_data: eventData,
+      version: this.version + 1,
+      metadata: { ...this.metadata, event_id: uuidv4() }
+    } as Omit<WorkspaceEvent, 'id' | 'timestamp'>;
+
+    this.apply({ ...event, timestamp: new Date().toISOString() } as WorkspaceEvent, true);
+  }
+
   create(): Workspace {
     if (this.state) {
       return this.state;
     }
 
-    const event: Omit<WorkspaceCreatedEvent, 'id' | 'timestamp'> = {
-      aggregate_type: 'workspace',
-      aggregate_id: this.workspaceId,
-      event_type: 'WorkspaceCreated',
-      event_data: { workspace_id: this.workspaceId },
-      version: this.version + 1
-    };
-
-    this.apply({ ...event, timestamp: new Date().toISOString() } as WorkspaceCreatedEvent, true);
+    const data: WorkspaceCreatedEvent['event_data'] = { workspace_id: this.workspaceId };
+    this.appendEvent('WorkspaceCreated', data);
     return this.state!;
   }
 
+  // Member directory. Names are unique within the workspace, ignoring case.
+  addMember(name: string, color: string, kind: MemberKind): Member {
+    if (!this.state) {
+      throw new Error('Workspace not found');
+    }
+    if (this.findMemberByName(name)) {
+      throw new MemberNameTakenError();
+    }
+    const memberId = uuidv4();
+    const data: MemberAddedEvent['event_data'] = { member_id: memberId, name, color, kind };
+    this.appendEvent('MemberAdded', data);
+    return this.getMember(memberId)!;
+  }
+
+  updateMember(memberId: string, updates: { name?: string; color?: string; kind?: MemberKind }): Member {
+    if (!this.getMember(memberId)) {
+      throw new Error('Member not found');
+    }
+    const existing = updates.name !== undefined ? this.findMemberByName(updates.name) : undefined;
+    if (existing && existing.id !== memberId) {
+      throw new MemberNameTakenError();
+    }
+    const data: MemberUpdatedEvent['event_data'] = { member_id: memberId, ...updates };
+    this.appendEvent('MemberUpdated', data);
+    return this.getMember(memberId)!;
+  }
+
+  // Only removes the member from the directory; see removeWorkspaceMember
+  removeMember(memberId: string): void {
+    if (!this.getMember(memberId)) {
+      throw new Error('Member not found');
+    }
+    const data: MemberRemovedEvent['event_data'] = { member_id: memberId };
+    this.appendEvent('MemberRemoved', data);
+  }
+
   getState(): Workspace | null {
     return this.state;
   }
@@ -55,17 +164,60 @@ export class WorkspaceAggregate {
   exists(): boolean {
     return this.state !== null;
   }
+
+  getMember(memberId: string): Member | undefined {
+    return this.state?.members.find(member => member.id === memberId);
+  }
+
+  findMemberByName(name: string): Member | undefined {
+    const wanted = name.toLowerCase();
+    return this.state?.members.find(member => member.name.toLowerCase() === wanted);
+  }
 }
 
-export function getOrCreateWorkspace(workspaceId: string): Workspace {
-  const aggregate = new WorkspaceAggregate(workspaceId).load();
+export function getOrCreateWorkspace(
+  workspaceId: string,
+  metadata?: EventMetadata,
+  stores: Stores = getServerStores()
+): Workspace {
+  const aggregate = new WorkspaceAggregate(workspaceId, stores, metadata).load();
   if (!aggregate.exists()) {
     return aggregate.create();
   }
   return aggregate.getState()!;
 }
 
-export function workspaceExists(workspaceId: string): boolean {
-  const aggregate = new WorkspaceAggregate(workspaceId).load();
+export function workspaceExists(workspaceId: string, stores: Stores = getServerStores()): boolean {
+  const aggregate = new WorkspaceAggregate(workspaceId, stores).load();
   return aggregate.exists();
 }
+
+export function loadWorkspace(
+  workspaceId: string,
+  metadata?: EventMetadata,
+  stores: Stores = getServerStores()
+): WorkspaceAggregate {
+  return new WorkspaceAggregate(workspaceId, stores, metadata).load();
+}
+
+// Unassigns the member from the cards of every project in the workspace, then
+// removes it from the directory. Each project is changed by its own command;
+// if one fails the member stays listed, and removing it again finishes the job.
+export function removeWorkspaceMember(
+  workspaceId: string,
+  memberId: string,
+  metadata?: EventMetadata,
+  stores: Stores = getServerStores()
+): void {
+  const workspace = loadWorkspace(workspaceId, metadata, stores);
+  if (!workspace.getMember(memberId)) {
+    throw new Error('Member not found');
+  }
+  for (const projectId of stores.events.getProjectIdsByWorkspace(workspaceId)) {
+    const project = loadProject(projectId, metadata, stores);
+    if (project.exists()) {
+      project.unassignMember(memberId);
+    }
+  }
+  workspace.removeMember(memberId);
+}
@@ -8,22 +8,40 @@ import projectsRouter from './routes/projects.js';
 import columnsRouter from './routes/columns.js';
 import cardsRouter from './routes/cards.js';
 import dependenciesRouter from './routes/dependencies.js';
+import labelsRouter from './routes/labels.js';
+import membersRouter from './routes/members.js';
+import checklistsRouter from './routes/checklists.js';
 import sseRouter from './routes/sse.js';
+import eventsRouter from './routes/events.js';
+import auditRouter from './routes/audit.js';
+import webhooksRouter from './routes/webhooks.js';
+import inboundWebhooksRouter, { hooksRouter } from './routes/inboundWebhooks.js';
+import adminRouter from './routes/admin.js';
+import { concurrencyErrorHandler } from './middleware/concurrency.js';
+import { eventMetadata } from './middleware/metadata.js';
+import { getServerStores } from './infrastructure/stores.js';
+import { WebhookDispatcher } from './infrastructure/webhookDispatcher.js';
+import { EventTailer } from './infrastructure/eventTailer.js';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
+// Bring the read model up to date with events it has not seen yet
+getServerStores().events.syncProjections();
+
 const app = express();
 const PORT = process.env.PORT || 3000;
 
 // Middleware
-app.use(cors());
-app.use(express.json());
+app.use(cors({ exposedHeaders: ['ETag', 'X-Correlation-Id'] }));
 
-// Extract X-Source header for event tracking
-app.use((req, res, next) => {
-  (req as any).source = req.headers['x-source'] as string | undefined;
-  next();
-});
+// Attach actor, source and correlation id to events committed by the request
+app.use(eventMetadata);
+
+// Inbound webhooks verify signatures over the raw body, so they are served
+// before the JSON parser consumes it
+app.use('/api', hooksRouter);
+
+app.use(express.json());
 
 // API Routes
 app.use('/api/workspaces', workspacesRouter);
@@ -31,7 +49,15 @@ app.use('/api', projectsRouter);
 app.use('/api', columnsRouter);
 app.use('/api', cardsRouter);
 app.use('/api', dependenciesRouter);
+app.use('/api', labelsRouter);
+app.use('/api', membersRouter);
+app.use('/api', checklistsRouter);
 app.use('/api', sseRouter);
+app.use('/api', eventsRouter);
+app.use('/api', auditRouter);
+app.use('/api', webhooksRouter);
+app.use('/api', inboundWebhooksRouter);
+app.use('/api/admin', adminRouter);
 
 // Serve static files from client build in production
 const clientDistPath = path.join(__dirname, '..', '..', 'client', 'dist');
@@ -46,6 +72,17 @@ app.get('*', (req, res) => {
   }
 });
 
+app.use(concurrencyErrorHandler);
+
+// Fan out events written by this or any other process sharing the database
+new EventTailer(getServerStores().events).start();
+
+// Deliver queued webhooks in the background
+new WebhookDispatcher(getServerStores().webhooks).start();
+
+// Back up the database on the schedule set by YAKATAKA_BACKUP_INTERVAL_HOURS
+getServerStores().backups.start();
+
 app.listen(PORT, () => {
   console.log(`TakaYaka server running at http://localhost:${PORT}`);
 });
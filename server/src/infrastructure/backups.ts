@@ -0,0 +1,289 @@
+import BetterSqlite3 from 'better-sqlite3';
+import type { Database } from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+export interface BackupInfo {
+  name: string;
+  path: string;
+  size: number;
+  created_at: string;
+}
+
+export interface BackupValidation {
+  valid: boolean;
+  errors: string[];
+  events: number;
+  last_event_id: number;
+}
+
+export interface RestoreResult {
+  restored: string;
+  validation: BackupValidation;
+  safety_backup: BackupInfo; // the database as it was just before the restore
+}
+
+export class BackupError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BackupError';
+  }
+}
+
+const BACKUP_NAME_RE = /^yakataka-[0-9TZ-]+\.db$/;
+const DEFAULT_KEEP = 7;
+const HOUR_MS = 60 * 60 * 1000;
+
+// Continuity problems listed per validation; the rest are only counted
+const MAX_REPORTED_GAPS = 20;
+
+// Copies of the database taken with SQLite's online backup API, which reads a
+// consistent state while the server keeps writing. Backups go to
+// YAKATAKA_BACKUP_DIR, or backups/ next to the database file, and only the
+// newest YAKATAKA_BACKUP_KEEP (default 7) are kept.
+export class BackupService {
+  readonly dir: string;
+  private readonly keep: number;
+  private timer: NodeJS.Timeout | undefined;
+  private running = false;
+
+  constructor(private readonly db: Database) {
+    this.dir = process.env.YAKATAKA_BACKUP_DIR ?? path.join(path.dirname(db.name), 'backups');
+    const keep = parseInt(process.env.YAKATAKA_BACKUP_KEEP ?? '', 10);
+    this.keep = keep > 0 ? keep : DEFAULT_KEEP;
+  }
+
+  // Backs up every YAKATAKA_BACKUP_INTERVAL_HOURS; does nothing when unset
+  start(): void {
+    const hours = Number(process.env.YAKATAKA_BACKUP_INTERVAL_HOURS ?? 0);
+    if (this.timer || !(hours > 0)) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      // A backup still running when the next is due is not doubled up
+      if (this.running) {
+        return;
+      }
+      this.backup().catch(err => console.error('Scheduled backup failed:', err));
+    }, hours * HOUR_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // The copy is written under a temporary name and renamed when complete, so
+  // a backup that is listed is never partial. Older backups beyond the ones
+  // kept are pruned afterwards unless prune is false.
+  async backup({ prune = true }: { prune?: boolean } = {}): Promise<BackupInfo> {
+    fs.mkdirSync(this.dir, { recursive: true });
+    const name = `yakataka-${new Date().toISOString().replace(/[:.]/g, '-')}.db`;
+    const file = path.join(this.dir, name);
+    const partial = `${file}.partial`;
+    this.running = true;
+    try {
+      await this.db.backup(partial);
+      fs.renameSync(partial, file);
+    } catch (err) {
+      fs.rmSync(partial, { force: true });
+      throw err;
+    } finally {
+      this.running = false;
+    }
+    if (prune) {
+      this.prune();
+    }
+    return this.toInfo(name);
+  }
+
+  // Newest first
+  list(): BackupInfo[] {
+    if (!fs.existsSync(this.dir)) {
+      return [];
+    }
+    return fs.readdirSync(this.dir)
+      .filter(name => BACKUP_NAME_RE.test(name))
+      .sort()
+      .reverse()
+      .map(name => this.toInfo(name));
+  }
+
+  // Looks a backup up by name; names that could point outside the backup
+  // directory are not found
+  get(name: string): BackupInfo | undefined {
+    if (!BACKUP_NAME_RE.test(name) || !fs.existsSync(path.join(this.dir, name))) {
+      return undefined;
+    }
+    return this.toInfo(name);
+  }
+
+  // Checks that the file is an intact database with a schema this release
+  // can read, and that every aggregate's versions run 1, 2, 3, ... in the
+  // order the events were stored
+  validate(file: string): BackupValidation {
+    const result: BackupValidation = { valid: false, errors: [], events: 0, last_event_id: 0 };
+    let source: Database;
+    try {
+      source = new BetterSqlite3(file, { readonly: true, fileMustExist: true });
+    } catch (err) {
+      result.errors.push(`Cannot open backup: ${(err as Error).message}`);
+      return result;
+    }
+
+    try {
+      const integrity = source.pragma('integrity_check', { simple: true });
+      if (integrity !== 'ok') {
+        result.errors.push(`Integrity check failed: ${integrity}`);
+        return result;
+      }
+
+      const tables = tableColumns(source);
+      const current = tableColumns(this.db);
+      if (!tables.has('events')) {
+        result.errors.push('Not a YakaTaka database: there is no events table');
+        return result;
+      }
+      for (const [table, columns] of tables) {
+        const known = current.get(table);
+        if (!known) {
+          result.errors.push(`Unknown table ${table}; the backup is from a newer release`);
+          continue;
+        }
+        for (const column of columns) {
+          if (!known.includes(column)) {
+            result.errors.push(`Unknown column ${table}.${column}; the backup is from a newer release`);
+          }
+        }
+      }
+      if (result.errors.length > 0) {
+        return result;
+      }
+
+      const summary = source.prepare(`SELECT COUNT(*) AS events, COALESCE(MAX(id), 0) AS last_event_id FROM events`)
+        .get() as { events: number; last_event_id: number };
+      result.events = summary.events;
+      result.last_event_id = summary.last_event_id;
+
+      const gaps = source.prepare(`
+        SELECT id, aggregate_type, aggregate_id, version, previous FROM (
+          SELECT id, aggregate_type, aggregate_id, version,
+            LAG(version, 1, 0) OVER (PARTITION BY aggregate_type, aggregate_id ORDER BY id) AS previous
+          FROM events
+        )
+        WHERE version != previous + 1
+        ORDER BY id
+      `).all() as { id: number; aggregate_type: string; aggregate_id: string; version: number; previous: number }[];
+      for (const gap of gaps.slice(0, MAX_REPORTED_GAPS)) {
+        result.errors.push(
+          `Event ${gap.id} of ${gap.aggregate_type} ${gap.aggregate_id} has version ${gap.version}, expected ${gap.previous + 1}`
+        );
+      }
+      if (gaps.length > MAX_REPORTED_GAPS) {
+        result.errors.push(`${gaps.length - MAX_REPORTED_GAPS} more events out of sequence`);
+      }
+    } catch (err) {
+      // Opening is lazy: a file that is not a database fails on first read
+      result.errors.push(`Cannot read backup: ${(err as Error).message}`);
+      return result;
+    } finally {
+      source.close();
+    }
+
+    result.valid = result.errors.length === 0;
+    return result;
+  }
+
+  // Replaces the contents of the live database with the backup's, after
+  // validating it and backing up the current state. The swap is a single
+  // transaction on the open connection, so the server and any other process
+  // sharing the file keep running and see either the old or the new data.
+  // Store ids keep increasing past those already handed out.
+  async restore(file: string): Promise<RestoreResult> {
+    const resolved = path.resolve(file);
+    if (resolved === path.resolve(this.db.name)) {
+      throw new BackupError('Cannot restore the live database onto itself');
+    }
+    const validation = this.validate(resolved);
+    if (!validation.valid) {
+      throw new BackupError(`Backup failed validation: ${validation.errors.join('; ')}`);
+    }
+    if (validation.events === 0) {
+      throw new BackupError('Backup has no events; restoring it would empty the database');
+    }
+
+    // ATTACH creates a missing file, so a backup removed since it was
+    // validated would be attached as an empty database
+    if (!fs.existsSync(resolved)) {
+      throw new BackupError('Backup no longer exists');
+    }
+    this.db.prepare(`ATTACH DATABASE ? AS restore_source`).run(resolved);
+    try {
+      const sourceTables = tableColumns(this.db, 'restore_source');
+      this.checkAttachedSource(sourceTables, validation);
+
+      // Not pruned: the backup being restored may be the oldest one kept
+      const safetyBackup = await this.backup({ prune: false });
+
+      this.db.transaction(() => {
+        for (const [table, columns] of tableColumns(this.db)) {
+          this.db.exec(`DELETE FROM main.${table}`);
+          const copied = sourceTables.get(table)?.filter(column => columns.includes(column));
+          if (copied && copied.length > 0) {
+            const list = copied.join(', ');
+            this.db.exec(`INSERT INTO main.${table} (${list}) SELECT ${list} FROM restore_source.${table}`);
+          }
+        }
+      }).immediate();
+      return { restored: resolved, validation, safety_backup: safetyBackup };
+    } finally {
+      this.db.exec(`DETACH DATABASE restore_source`);
+    }
+  }
+
+  // The attached database must still be the one that was validated: same
+  // schema rules, and the same events
+  private checkAttachedSource(sourceTables: Map<string, string[]>, validation: BackupValidation): void {
+    if (!sourceTables.has('events')) {
+      throw new BackupError('Attached backup has no events table; nothing was restored');
+    }
+    const current = tableColumns(this.db);
+    for (const [table, columns] of sourceTables) {
+      const known = current.get(table);
+      if (!known || columns.some(column => !known.includes(column))) {
+        throw new BackupError(`Attached backup's ${table} table does not match this release; nothing was restored`);
+      }
+    }
+    const summary = this.db.prepare(`
+      SELECT COUNT(*) AS events, COALESCE(MAX(id), 0) AS last_event_id FROM restore_source.events
+    `).get() as { events: number; last_event_id: number };
+    if (summary.events === 0 || summary.events !== validation.events || summary.last_event_id !== validation.last_event_id) {
+      throw new BackupError('Attached backup differs from the one validated; nothing was restored');
+    }
+  }
+
+  private prune(): void {
+    for (const backup of this.list().slice(this.keep)) {
+      fs.rmSync(backup.path, { force: true });
+    }
+  }
+
+  private toInfo(name: string): BackupInfo {
+    const file = path.join(this.dir, name);
+    const stat = fs.statSync(file);
+    return { name, path: file, size: stat.size, created_at: stat.mtime.toISOString() };
+  }
+}
+
+// Columns of every table, keyed by table name. SQLite's own tables, such as
+// sqlite_sequence, are left out.
+function tableColumns(db: Database, schema: string = 'main'): Map<string, string[]> {
+  const tables = db.prepare(`
+    SELECT name FROM ${schema}.sqlite_master WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+  `).all() as { name: string }[];
+  return new Map(tables.map(({ name }) => {
+    const columns = db.prepare(`PRAGMA ${schema}.table_info(${name})`).all() as { name: string }[];
+    return [name, columns.map(column => column.name)];
+  }));
+}
@@ -1,17 +1,36 @@
 import type { Response } from 'express';
 import type { DomainEvent } from '../types.js';
 
+// Project clients follow one board, workspace clients follow the project list
+// and member directory of one workspace, feed clients receive every event in
+// the store
+export type ClientScope =
+  | { type: 'project'; projectId: string }
+  | { type: 'workspace'; workspaceId: string }
+  | { type: 'feed' };
+
+// Events that change what a workspace's project list shows
+const PROJECT_LIFECYCLE_EVENTS = new Set([
+  'ProjectCreated',
+  'ProjectRenamed',
+  'ProjectDescriptionUpdated',
+  'ProjectDeleted',
+]);
+
 interface SSEClient {
   id: string;
-  projectId: string;
+  scope: ClientScope;
   res: Response;
+  after: number; // store id of the last event the client already has
 }
 
 class EventBroadcaster {
   private clients: Map<string, SSEClient> = new Map();
 
-  addClient(clientId: string, projectId: string, res: Response): void {
-    this.clients.set(clientId, { id: clientId, projectId, res });
+  // after is the id of the last event sent while catching the client up, so
+  // events it already received are not sent again
+  addClient(clientId: string, scope: ClientScope, res: Response, after: number = 0): void {
+    this.clients.set(clientId, { id: clientId, scope, res, after });
 
     // Clean up on connection close
     res.on('close', () => {
@@ -23,32 +42,111 @@ class EventBroadcaster {
     this.clients.delete(clientId);
   }
 
-  broadcast(projectId: string, event: DomainEvent): void {
-    const eventData = JSON.stringify({
-      type: event.event_type,
-      data: event.event_data,
-      timestamp: event.timestamp,
-      version: event.version,
-    });
+  // Called once per committed command with all of its events. workspaceId is
+  // the workspace the command's aggregate belongs to, if known.
+  broadcast(events: DomainEvent[], workspaceId?: string): void {
+    if (events.length === 0) {
+      return;
+    }
+    const { aggregate_type, aggregate_id } = events[0];
 
     for (const client of this.clients.values()) {
-      if (client.projectId === projectId) {
-        try {
-          client.res.write(`event: ${event.event_type}\n`);
-          client.res.write(`data: ${eventData}\n\n`);
-        } catch {
-          // Client disconnected, remove it
-          this.clients.delete(client.id);
+      const unseen = events.filter(event => event.id! > client.after);
+      if (unseen.length === 0) {
+        continue;
+      }
+      try {
+        if (client.scope.type === 'feed') {
+          for (const event of unseen) {
+            this.writeFeedEvent(client.res, event);
+          }
+        } else if (client.scope.type === 'workspace') {
+          if (aggregate_type === 'project' && client.scope.workspaceId === workspaceId) {
+            this.writeWorkspaceEvents(client.res, aggregate_id, unseen);
+          } else if (aggregate_type === 'workspace' && client.scope.workspaceId === aggregate_id) {
+            this.writeMemberEvents(client.res, unseen);
+          }
+        } else if (aggregate_type === 'project' && client.scope.projectId === aggregate_id) {
+          this.writeProjectEvents(client.res, unseen);
         }
+      } catch {
+        // Client disconnected, remove it
+        this.clients.delete(client.id);
+      }
+    }
+  }
+
+  // A command's events go out as one message so board clients refetch once
+  // per command rather than once per event. The message id is the store id of
+  // the command's last event, which the client sends back to resume.
+  writeProjectEvents(res: Response, events: DomainEvent[]): void {
+    const eventType = events.length === 1 ? events[0].event_type : 'batch';
+    const eventData = events.length === 1
+      ? JSON.stringify(this.toMessage(events[0]))
+      : JSON.stringify({ type: 'batch', events: events.map(e => this.toMessage(e)) });
+    res.write(`id: ${events[events.length - 1].id}\n`);
+    res.write(`event: ${eventType}\n`);
+    res.write(`data: ${eventData}\n\n`);
+  }
+
+  // Workspace clients get project lifecycle events as they are, plus one
+  // activity summary per command so the project list can flag busy boards
+  private writeWorkspaceEvents(res: Response, projectId: string, events: DomainEvent[]): void {
+    const lastEvent = events[events.length - 1];
+    for (const event of events) {
+      if (PROJECT_LIFECYCLE_EVENTS.has(event.event_type)) {
+        res.write(`id: ${event.id}\n`);
+        res.write(`event: ${event.event_type}\n`);
+        res.write(`data: ${JSON.stringify({ project_id: projectId, ...this.toMessage(event) })}\n\n`);
       }
     }
+    const activity = {
+      project_id: projectId,
+      event_count: events.length,
+      event_types: [...new Set(events.map(e => e.event_type))],
+      version: lastEvent.version,
+      timestamp: lastEvent.timestamp,
+    };
+    res.write(`id: ${lastEvent.id}\n`);
+    res.write(`event: ProjectActivity\n`);
+    res.write(`data: ${JSON.stringify(activity)}\n\n`);
+  }
+
+  // Changes to the workspace itself, such as its member directory, go out as
+  // they are
+  private writeMemberEvents(res: Response, events: DomainEvent[]): void {
+    for (const event of events) {
+      res.write(`id: ${event.id}\n`);
+      res.write(`event: ${event.event_type}\n`);
+      res.write(`data: ${JSON.stringify(this.toMessage(event))}\n\n`);
+    }
+  }
+
+  // Feed messages carry the full stored event and its id, so consumers can
+  // resume from the last id they processed
+  writeFeedEvent(res: Response, event: DomainEvent): void {
+    res.write(`id: ${event.id}\n`);
+    res.write(`data: ${JSON.stringify(event)}\n\n`);
+  }
+
+  private toMessage(event: DomainEvent) {
+    return {
+      id: event.id,
+      type: event.event_type,
+      data: event.event_data,
+      timestamp: event.timestamp,
+      version: event.version,
+      metadata: event.metadata,
+    };
   }
 
   getClientCount(projectId?: string): number {
     if (!projectId) {
       return this.clients.size;
     }
-    return Array.from(this.clients.values()).filter(c => c.projectId === projectId).length;
+    return Array.from(this.clients.values())
+      .filter(c => c.scope.type === 'project' && c.scope.projectId === projectId)
+      .length;
   }
 }
 
@@ -1,134 +1,83 @@
-import db from '../db/index.js';
 import type { BaseEvent, AggregateType, DomainEvent } from '../types.js';
-import { eventBroadcaster } from './eventBroadcaster.js';
 
-interface EventRow {
-  id: number;
-  aggregate_type: string;
-  aggregate_id: string;
-  event_type: string;
-  event_data: string;
-  version: number;
-  timestamp: string;
+export interface EventQuery {
+  projectId?: string;
+  workspaceId?: string;
+  eventTypes?: string[];
+  source?: string;
+  actor?: string; // actor id or name
+  cardId?: string;
+  columnId?: string;
+  since?: string;
+  until?: string;
+  beforeId?: number; // cursor: only events with a smaller store id
+  limit: number;
 }
 
-export class EventStore {
-  private insertStmt = db.prepare(`
-    INSERT INTO events (aggregate_type, aggregate_id, event_type, event_data, version, timestamp)
-    VALUES (?, ?, ?, ?, ?, ?)
-  `);
-
-  private getEventsStmt = db.prepare(`
-    SELECT * FROM events
-    WHERE aggregate_type = ? AND aggregate_id = ?
-    ORDER BY version ASC
-  `);
-
-  private getLatestVersionStmt = db.prepare(`
-    SELECT MAX(version) as version FROM events
-    WHERE aggregate_type = ? AND aggregate_id = ?
-  `);
-
-  private getEventsByWorkspaceStmt = db.prepare(`
-    SELECT e.* FROM events e
-    WHERE (e.aggregate_type = 'workspace' AND e.aggregate_id = ?)
-       OR (e.aggregate_type = 'project' AND e.aggregate_id IN (
-         SELECT json_extract(event_data, '$.project_id') FROM events
-         WHERE aggregate_type = 'project'
-         AND event_type = 'ProjectCreated'
-         AND json_extract(event_data, '$.workspace_id') = ?
-       ))
-    ORDER BY e.timestamp ASC
-  `);
-
-  private getProjectIdsByWorkspaceStmt = db.prepare(`
-    SELECT DISTINCT aggregate_id FROM events
-    WHERE aggregate_type = 'project'
-    AND event_type = 'ProjectCreated'
-    AND json_extract(event_data, '$.workspace_id') = ?
-  `);
-
-  private getCardEventsStmt = db.prepare(`
-    SELECT * FROM events
-    WHERE aggregate_type = 'project'
-    AND aggregate_id = ?
-    AND (
-      json_extract(event_data, '$.card_id') = ?
-      OR json_extract(event_data, '$.depends_on_card_id') = ?
-    )
-    ORDER BY timestamp DESC
-  `);
-
-  append(event: Omit<BaseEvent, 'id' | 'timestamp'>): BaseEvent {
-    const timestamp = new Date().toISOString();
-
-    try {
-      this.insertStmt.run(
-        event.aggregate_type,
-        event.aggregate_id,
-        event.event_type,
-        JSON.stringify(event.event_data),
-        event.version,
-        timestamp
-      );
-    } catch (err: unknown) {
-      if (err instanceof Error && err.message.includes('UNIQUE constraint failed')) {
-        throw new Error(`Concurrency conflict: version ${event.version} already exists`);
-      }
-      throw err;
+// An event to append. The store stamps it with the commit time unless it
+// carries its own timestamp, as imported history does.
+export type NewEvent = Omit<BaseEvent, 'id' | 'timestamp'> & { timestamp?: string };
+
+// Groups events into the commands that produced them, keeping store order.
+// Events written before commands were tracked form a command of their own.
+export function groupByCommand(events: DomainEvent[]): DomainEvent[][] {
+  const groups: DomainEvent[][] = [];
+  for (const event of events) {
+    const last = groups[groups.length - 1];
+    if (last && event.command_id && last[0].command_id === event.command_id) {
+      last.push(event);
+    } else {
+      groups.push([event]);
     }
+  }
+  return groups;
+}
 
-    const savedEvent: DomainEvent = {
-      ...event,
-      timestamp
-    } as DomainEvent;
+export class ConcurrencyError extends Error {
+  constructor(
+    public readonly aggregateType: AggregateType,
+    public readonly aggregateId: string,
+    public readonly expectedVersion: number,
+    public readonly currentVersion: number
+  ) {
+    super(`Concurrency conflict: expected version ${expectedVersion}, current version is ${currentVersion}`);
+    this.name = 'ConcurrencyError';
+  }
+}
 
-    // Broadcast to SSE clients if this is a project event
-    if (event.aggregate_type === 'project') {
-      eventBroadcaster.broadcast(event.aggregate_id, savedEvent);
-    }
+// Append-only log of domain events. Implementations return events upcast to
+// the current schema and number them with a store-wide increasing id.
+export interface EventStore {
+  append(event: NewEvent): DomainEvent;
 
-    return savedEvent;
-  }
+  // Stores all events of one command atomically. Throws ConcurrencyError when
+  // another writer already used one of the versions.
+  appendBatch(events: NewEvent[]): DomainEvent[];
 
-  getEvents(aggregateType: AggregateType, aggregateId: string): DomainEvent[] {
-    const rows = this.getEventsStmt.all(aggregateType, aggregateId) as EventRow[];
-    return rows.map(this.rowToEvent);
-  }
+  getEvents(aggregateType: AggregateType, aggregateId: string, afterVersion?: number, untilVersion?: number): DomainEvent[];
+  getEventsAfterIdForAggregate(aggregateType: AggregateType, aggregateId: string, afterId: number): DomainEvent[];
+  getLatestVersion(aggregateType: AggregateType, aggregateId: string): number;
 
-  getLatestVersion(aggregateType: AggregateType, aggregateId: string): number {
-    const result = this.getLatestVersionStmt.get(aggregateType, aggregateId) as { version: number | null };
-    return result.version ?? 0;
-  }
+  // Version the aggregate was at when the given moment had passed
+  getVersionAt(aggregateType: AggregateType, aggregateId: string, timestamp: string): number;
 
-  getWorkspaceEvents(workspaceId: string, limit?: number): DomainEvent[] {
-    const rows = this.getEventsByWorkspaceStmt.all(workspaceId, workspaceId) as EventRow[];
-    const events = rows.map(this.rowToEvent);
-    return limit ? events.slice(-limit) : events;
-  }
+  getLatestEventId(aggregateType: AggregateType, aggregateId: string): number;
+  getAggregateIds(aggregateType: AggregateType): string[];
+  getEventsAfterId(afterId: number, limit: number): DomainEvent[];
+  getWorkspaceEvents(workspaceId: string, limit?: number): DomainEvent[];
 
-  getProjectIdsByWorkspace(workspaceId: string): string[] {
-    const rows = this.getProjectIdsByWorkspaceStmt.all(workspaceId) as { aggregate_id: string }[];
-    return rows.map(r => r.aggregate_id);
-  }
+  // Includes deleted projects, whose events still belong to the workspace
+  getProjectIdsByWorkspace(workspaceId: string): string[];
 
-  getCardEvents(projectId: string, cardId: string, limit?: number): DomainEvent[] {
-    const rows = this.getCardEventsStmt.all(projectId, cardId, cardId) as EventRow[];
-    const events = rows.map(this.rowToEvent);
-    return limit ? events.slice(0, limit) : events;
-  }
+  // Newest first
+  queryEvents(query: EventQuery): DomainEvent[];
 
-  private rowToEvent(row: EventRow): DomainEvent {
-    return {
-      id: row.id,
-      aggregate_type: row.aggregate_type as AggregateType,
-      aggregate_id: row.aggregate_id,
-      event_type: row.event_type,
-      event_data: JSON.parse(row.event_data),
-      version: row.version,
-      timestamp: row.timestamp
-    } as DomainEvent;
-  }
-}
+  // Latest card titles and column and label names of the given projects,
+  // including deleted ones, keyed by card, column or label id. Also the
+  // latest member names of the given workspaces and of the projects'
+  // workspaces, keyed by member id.
+  getEntityNames(projectIds: string[], workspaceIds?: string[]): Map<string, string>;
 
-export const eventStore = new EventStore();
+  // Newest first
+  getCardEvents(projectId: string, cardId: string, limit?: number): DomainEvent[];
+}
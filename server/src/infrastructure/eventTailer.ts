@@ -0,0 +1,72 @@
+import { eventBroadcaster } from './eventBroadcaster.js';
+import { groupByCommand } from './eventStore.js';
+import type { SqliteEventStore } from './sqliteEventStore.js';
+
+const POLL_INTERVAL_MS = 250;
+const BATCH_SIZE = 500;
+
+// Fans events out to this process's SSE clients by tailing the events table by
+// id. Every process sharing the database runs one, so clients hear about
+// writes made by any of them. SQLite has a single writer at a time, so ids
+// become visible in increasing order and a cursor never skips an event.
+//
+// Commits made by this process trigger a read on the next turn of the event
+// loop rather than waiting for the timer. Reading later, not inside append,
+// keeps events of a transaction that is later rolled back from going out.
+export class EventTailer {
+  private cursor = 0;
+  private timer: NodeJS.Timeout | undefined;
+  private pollScheduled = false;
+
+  constructor(private readonly events: SqliteEventStore) {}
+
+  // Only events committed from now on are broadcast; clients catch up on
+  // older ones when they connect
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.cursor = this.events.getLastEventId();
+    this.timer = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+    this.timer.unref();
+    this.events.onCommit(() => this.schedulePoll());
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Broadcasts every event after the cursor, one message per command.
+  // Returns how many events were broadcast.
+  poll(): number {
+    let broadcast = 0;
+    let events = this.events.getEventsAfterId(this.cursor, BATCH_SIZE);
+    while (events.length > 0) {
+      let commands = groupByCommand(events);
+      // A full batch may end part way through a command; read its tail again
+      // with the next batch so the command still goes out as one message
+      if (events.length === BATCH_SIZE && commands.length > 1) {
+        commands = commands.slice(0, -1);
+      }
+      for (const command of commands) {
+        eventBroadcaster.broadcast(command, this.events.getWorkspaceId(command[0]));
+        this.cursor = command[command.length - 1].id!;
+        broadcast += command.length;
+      }
+      events = this.events.getEventsAfterId(this.cursor, BATCH_SIZE);
+    }
+    return broadcast;
+  }
+
+  private schedulePoll(): void {
+    if (this.pollScheduled) {
+      return;
+    }
+    this.pollScheduled = true;
+    setImmediate(() => {
+      this.pollScheduled = false;
+      this.poll();
+    });
+  }
+}
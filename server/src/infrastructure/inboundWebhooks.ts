@@ -0,0 +1,104 @@
+import type { Database, Statement } from 'better-sqlite3';
+
+export interface InboundWebhook<M = unknown> {
+  id: string;
+  project_id: string;
+  mapping: M;
+  created_at: string;
+}
+
+interface InboundWebhookRow {
+  id: string;
+  project_id: string;
+  secret: string;
+  mapping: string;
+  created_at: string;
+}
+
+// Inbound webhook configurations and the keys of deliveries they processed
+export class InboundWebhookStore {
+  private readonly insertWebhookStmt: Statement;
+  private readonly getWebhookStmt: Statement;
+  private readonly getWebhooksByProjectStmt: Statement;
+  private readonly deleteWebhookStmt: Statement;
+  private readonly deleteDeliveriesStmt: Statement;
+  private readonly getDeliveryStmt: Statement;
+  private readonly insertDeliveryStmt: Statement;
+
+  constructor(private readonly db: Database) {
+    this.insertWebhookStmt = db.prepare(`
+      INSERT INTO inbound_webhooks (id, project_id, secret, mapping, created_at) VALUES (?, ?, ?, ?, ?)
+    `);
+
+    this.getWebhookStmt = db.prepare(`SELECT * FROM inbound_webhooks WHERE id = ?`);
+
+    this.getWebhooksByProjectStmt = db.prepare(`
+      SELECT * FROM inbound_webhooks WHERE project_id = ? ORDER BY created_at ASC, rowid ASC
+    `);
+
+    this.deleteWebhookStmt = db.prepare(`DELETE FROM inbound_webhooks WHERE id = ?`);
+
+    this.deleteDeliveriesStmt = db.prepare(`DELETE FROM inbound_deliveries WHERE webhook_id = ?`);
+
+    this.getDeliveryStmt = db.prepare(`
+      SELECT result FROM inbound_deliveries WHERE webhook_id = ? AND delivery_key = ?
+    `);
+
+    this.insertDeliveryStmt = db.prepare(`
+      INSERT INTO inbound_deliveries (webhook_id, delivery_key, result, received_at) VALUES (?, ?, ?, ?)
+    `);
+  }
+
+  create<M>(webhook: InboundWebhook<M> & { secret: string }): InboundWebhook<M> & { secret: string } {
+    this.insertWebhookStmt.run(
+      webhook.id,
+      webhook.project_id,
+      webhook.secret,
+      JSON.stringify(webhook.mapping),
+      webhook.created_at
+    );
+    return webhook;
+  }
+
+  // Includes the secret, for verifying deliveries
+  get<M>(webhookId: string): (InboundWebhook<M> & { secret: string }) | undefined {
+    const row = this.getWebhookStmt.get(webhookId) as InboundWebhookRow | undefined;
+    return row && { ...this.toWebhook<M>(row), secret: row.secret };
+  }
+
+  getByProject<M>(projectId: string): InboundWebhook<M>[] {
+    const rows = this.getWebhooksByProjectStmt.all(projectId) as InboundWebhookRow[];
+    return rows.map(row => this.toWebhook<M>(row));
+  }
+
+  delete(webhookId: string): boolean {
+    return this.db.transaction(() => {
+      this.deleteDeliveriesStmt.run(webhookId);
+      return this.deleteWebhookStmt.run(webhookId).changes > 0;
+    })();
+  }
+
+  // Runs process once per delivery key. The key is recorded in the same
+  // transaction as the events process appends, so a delivery that failed can
+  // be retried and one that succeeded is answered with its first result.
+  processOnce<T>(webhookId: string, deliveryKey: string, process: () => T): { result: T; duplicate: boolean } {
+    return this.db.transaction(() => {
+      const row = this.getDeliveryStmt.get(webhookId, deliveryKey) as { result: string } | undefined;
+      if (row) {
+        return { result: JSON.parse(row.result) as T, duplicate: true };
+      }
+      const result = process();
+      this.insertDeliveryStmt.run(webhookId, deliveryKey, JSON.stringify(result), new Date().toISOString());
+      return { result, duplicate: false };
+    }).immediate();
+  }
+
+  private toWebhook<M>(row: InboundWebhookRow): InboundWebhook<M> {
+    return {
+      id: row.id,
+      project_id: row.project_id,
+      mapping: JSON.parse(row.mapping) as M,
+      created_at: row.created_at
+    };
+  }
+}
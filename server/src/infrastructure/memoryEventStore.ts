@@ -0,0 +1,193 @@
+import type { AggregateType, DomainEvent } from '../types.js';
+import { ConcurrencyError, EventQuery, EventStore, NewEvent } from './eventStore.js';
+import { currentSchemaVersion } from './upcasters.js';
+
+const NAMED_ENTITY_EVENTS = new Set([
+  'CardAdded', 'CardUpdated', 'ColumnAdded', 'ColumnRenamed', 'LabelCreated', 'LabelRenamed',
+  'ChecklistItemAdded', 'ChecklistItemRenamed'
+]);
+const NAMED_MEMBER_EVENTS = new Set(['MemberAdded', 'MemberUpdated']);
+
+// Keeps the log in process memory, for tests and for embedding the domain
+// where no database is wanted. Events are cloned on the way in and out, so
+// callers never share state with the store. Nothing is broadcast.
+export class InMemoryEventStore implements EventStore {
+  private events: DomainEvent[] = [];
+  private versions = new Set<string>();
+  private workspaceByProject = new Map<string, string>();
+
+  append(event: NewEvent): DomainEvent {
+    return this.appendBatch([event])[0];
+  }
+
+  appendBatch(events: NewEvent[]): DomainEvent[] {
+    if (events.length === 0) {
+      return [];
+    }
+
+    // Check every version before storing anything, so a conflict leaves the
+    // log untouched just like a rolled back transaction
+    const taken = new Set<string>();
+    for (const event of events) {
+      const key = this.versionKey(event);
+      if (this.versions.has(key) || taken.has(key)) {
+        const first = events[0];
+        throw new ConcurrencyError(
+          first.aggregate_type,
+          first.aggregate_id,
+          first.version - 1,
+          this.getLatestVersion(first.aggregate_type, first.aggregate_id)
+        );
+      }
+      taken.add(key);
+    }
+
+    const commitTime = new Date().toISOString();
+    const savedEvents = events.map(event => {
+      const savedEvent = {
+        ...structuredClone(event),
+        id: this.events.length + 1,
+        timestamp: event.timestamp ?? commitTime,
+        schema_version: currentSchemaVersion(event.event_type)
+      } as DomainEvent;
+      this.events.push(savedEvent);
+      this.versions.add(this.versionKey(savedEvent));
+      if (savedEvent.event_type === 'ProjectCreated') {
+        this.workspaceByProject.set(savedEvent.aggregate_id, savedEvent.event_data.workspace_id);
+      }
+      return savedEvent;
+    });
+    return structuredClone(savedEvents);
+  }
+
+  getEvents(
+    aggregateType: AggregateType,
+    aggregateId: string,
+    afterVersion: number = 0,
+    untilVersion: number = Number.MAX_SAFE_INTEGER
+  ): DomainEvent[] {
+    return this.select(event =>
+      this.belongsTo(event, aggregateType, aggregateId)
+      && event.version > afterVersion
+      && event.version <= untilVersion
+    ).sort((a, b) => a.version - b.version);
+  }
+
+  getEventsAfterIdForAggregate(aggregateType: AggregateType, aggregateId: string, afterId: number): DomainEvent[] {
+    return this.select(event => this.belongsTo(event, aggregateType, aggregateId) && event.id! > afterId);
+  }
+
+  getLatestVersion(aggregateType: AggregateType, aggregateId: string): number {
+    return this.aggregateEvents(aggregateType, aggregateId)
+      .reduce((latest, event) => Math.max(latest, event.version), 0);
+  }
+
+  getVersionAt(aggregateType: AggregateType, aggregateId: string, timestamp: string): number {
+    return this.aggregateEvents(aggregateType, aggregateId)
+      .filter(event => event.timestamp <= timestamp)
+      .reduce((latest, event) => Math.max(latest, event.version), 0);
+  }
+
+  getLatestEventId(aggregateType: AggregateType, aggregateId: string): number {
+    const events = this.aggregateEvents(aggregateType, aggregateId);
+    return events.length > 0 ? events[events.length - 1].id! : 0;
+  }
+
+  getAggregateIds(aggregateType: AggregateType): string[] {
+    const ids = this.events
+      .filter(event => event.aggregate_type === aggregateType)
+      .map(event => event.aggregate_id);
+    return [...new Set(ids)];
+  }
+
+  getEventsAfterId(afterId: number, limit: number): DomainEvent[] {
+    return structuredClone(this.events.slice(afterId, afterId + limit));
+  }
+
+  getWorkspaceEvents(workspaceId: string, limit?: number): DomainEvent[] {
+    const events = this.select(event => this.inWorkspace(event, workspaceId))
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.id! - b.id!);
+    return limit ? events.slice(-limit) : events;
+  }
+
+  getProjectIdsByWorkspace(workspaceId: string): string[] {
+    return [...this.workspaceByProject]
+      .filter(([, projectWorkspaceId]) => projectWorkspaceId === workspaceId)
+      .map(([projectId]) => projectId);
+  }
+
+  queryEvents(query: EventQuery): DomainEvent[] {
+    const matches = (event: DomainEvent): boolean => {
+      const data = event.event_data as Record<string, unknown>;
+      const metadata = event.metadata;
+      return (!query.projectId || this.belongsTo(event, 'project', query.projectId))
+        && (!query.workspaceId || this.inWorkspace(event, query.workspaceId))
+        && (!query.eventTypes?.length || query.eventTypes.includes(event.event_type))
+        && (!query.source || metadata?.source === query.source)
+        && (!query.actor || metadata?.actor_id === query.actor || metadata?.actor_name === query.actor)
+        && (!query.cardId || data.card_id === query.cardId || data.depends_on_card_id === query.cardId)
+        && (!query.columnId || data.column_id === query.columnId)
+        && (!query.since || event.timestamp >= query.since)
+        && (!query.until || event.timestamp <= query.until)
+        && (!query.beforeId || event.id! < query.beforeId);
+    };
+    return this.select(matches).reverse().slice(0, query.limit);
+  }
+
+  getEntityNames(projectIds: string[], workspaceIds: string[] = []): Map<string, string> {
+    const names = new Map<string, string>();
+    const workspaces = new Set(workspaceIds);
+    for (const projectId of projectIds) {
+      const workspaceId = this.workspaceByProject.get(projectId);
+      if (workspaceId) {
+        workspaces.add(workspaceId);
+      }
+    }
+    for (const event of this.events) {
+      const named = event.aggregate_type === 'project'
+        ? projectIds.includes(event.aggregate_id) && NAMED_ENTITY_EVENTS.has(event.event_type)
+        : workspaces.has(event.aggregate_id) && NAMED_MEMBER_EVENTS.has(event.event_type);
+      if (!named) {
+        continue;
+      }
+      const data = event.event_data as Record<string, unknown>;
+      const name = data.title ?? data.name ?? data.text;
+      if (typeof name === 'string') {
+        names.set((data.item_id ?? data.card_id ?? data.column_id ?? data.label_id ?? data.member_id) as string, name);
+      }
+    }
+    return names;
+  }
+
+  getCardEvents(projectId: string, cardId: string, limit?: number): DomainEvent[] {
+    const events = this.select(event => {
+      const data = event.event_data as Record<string, unknown>;
+      return this.belongsTo(event, 'project', projectId)
+        && (data.card_id === cardId || data.depends_on_card_id === cardId);
+    }).reverse();
+    return limit ? events.slice(0, limit) : events;
+  }
+
+  private select(predicate: (event: DomainEvent) => boolean): DomainEvent[] {
+    return structuredClone(this.events.filter(predicate));
+  }
+
+  private aggregateEvents(aggregateType: AggregateType, aggregateId: string): DomainEvent[] {
+    return this.events.filter(event => this.belongsTo(event, aggregateType, aggregateId));
+  }
+
+  private belongsTo(event: DomainEvent, aggregateType: AggregateType, aggregateId: string): boolean {
+    return event.aggregate_type === aggregateType && event.aggregate_id === aggregateId;
+  }
+
+  private inWorkspace(event: DomainEvent, workspaceId: string): boolean {
+    if (event.aggregate_type === 'workspace') {
+      return event.aggregate_id === workspaceId;
+    }
+    return this.workspaceByProject.get(event.aggregate_id) === workspaceId;
+  }
+
+  private versionKey(event: { aggregate_type: string; aggregate_id: string; version: number }): string {
+    return `${event.aggregate_type}:${event.aggregate_id}:${event.version}`;
+  }
+}
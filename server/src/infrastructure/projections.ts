@@ -0,0 +1,665 @@
+import type { Database, Statement } from 'better-sqlite3';
+import type { Project, Column, Card, ChecklistItem, Label, Priority, DomainEvent, UpcomingCard } from '../types.js';
+
+const CHECKPOINT = 'read_model';
+
+interface ProjectRow {
+  id: string;
+  workspace_id: string;
+  name: string;
+  description: string;
+  deleted: number;
+  version: number;
+  created_at: string;
+  updated_at: string;
+}
+
+interface ColumnRow {
+  id: string;
+  project_id: string;
+  name: string;
+  position: number;
+}
+
+interface CardRow {
+  id: string;
+  project_id: string;
+  column_id: string;
+  title: string;
+  description: string;
+  position: number;
+  external_id: string | null;
+  start_date: string | null;
+  due_date: string | null;
+  priority: Priority | null;
+  estimate: number | null;
+}
+
+interface UpcomingCardRow extends CardRow {
+  project_name: string;
+  column_name: string;
+}
+
+interface DependencyRow {
+  card_id: string;
+  depends_on_card_id: string;
+}
+
+interface CardLabelRow {
+  card_id: string;
+  label_id: string;
+}
+
+interface CardAssigneeRow {
+  card_id: string;
+  member_id: string;
+}
+
+interface ChecklistItemRow {
+  id: string;
+  card_id: string;
+  text: string;
+  checked: number;
+}
+
+// Materialized projects, columns, cards, dependencies, labels, assignees and
+// checklist items. Rows are updated in the same transaction as the events they
+// derive from, so reads never need to replay the event log.
+export class ProjectionStore {
+  private readonly insertProjectStmt: Statement;
+  private readonly touchProjectStmt: Statement;
+  private readonly renameProjectStmt: Statement;
+  private readonly describeProjectStmt: Statement;
+  private readonly deleteProjectStmt: Statement;
+  private readonly insertColumnStmt: Statement;
+  private readonly renameColumnStmt: Statement;
+  private readonly moveColumnStmt: Statement;
+  private readonly deleteColumnStmt: Statement;
+  private readonly insertCardStmt: Statement;
+  private readonly updateCardStmt: Statement;
+  private readonly moveCardStmt: Statement;
+  private readonly scheduleCardStmt: Statement;
+  private readonly planCardStmt: Statement;
+  private readonly deleteCardStmt: Statement;
+  private readonly deleteCardDependenciesStmt: Statement;
+  private readonly addDependencyStmt: Statement;
+  private readonly removeDependencyStmt: Statement;
+  private readonly insertLabelStmt: Statement;
+  private readonly renameLabelStmt: Statement;
+  private readonly deleteLabelStmt: Statement;
+  private readonly labelCardStmt: Statement;
+  private readonly unlabelCardStmt: Statement;
+  private readonly deleteCardLabelsStmt: Statement;
+  private readonly assignCardStmt: Statement;
+  private readonly unassignCardStmt: Statement;
+  private readonly deleteCardAssigneesStmt: Statement;
+  private readonly insertChecklistItemStmt: Statement;
+  private readonly openChecklistGapStmt: Statement;
+  private readonly closeChecklistGapStmt: Statement;
+  private readonly renameChecklistItemStmt: Statement;
+  private readonly checkChecklistItemStmt: Statement;
+  private readonly moveChecklistItemStmt: Statement;
+  private readonly deleteChecklistItemStmt: Statement;
+  private readonly deleteCardChecklistStmt: Statement;
+  private readonly getProjectStmt: Statement;
+  private readonly getProjectsByWorkspaceStmt: Statement;
+  private readonly getProjectIdsByWorkspaceStmt: Statement;
+  private readonly getColumnsStmt: Statement;
+  private readonly getCardsStmt: Statement;
+  private readonly getDependenciesStmt: Statement;
+  private readonly getLabelsStmt: Statement;
+  private readonly getCardLabelsStmt: Statement;
+  private readonly getCardAssigneesStmt: Statement;
+  private readonly getChecklistItemsStmt: Statement;
+  private readonly getCardStmt: Statement;
+  private readonly getCardDependencyIdsStmt: Statement;
+  private readonly getCardLabelIdsStmt: Statement;
+  private readonly getCardAssigneeIdsStmt: Statement;
+  private readonly getCardChecklistStmt: Statement;
+  private readonly getDependencyCardsStmt: Statement;
+  private readonly getDependentCardsStmt: Statement;
+  private readonly getUpcomingCardsStmt: Statement;
+  private readonly getCheckpointStmt: Statement;
+  private readonly setCheckpointStmt: Statement;
+
+  constructor(private readonly db: Database) {
+    this.insertProjectStmt = db.prepare(`
+      INSERT OR REPLACE INTO projects (id, workspace_id, name, description, deleted, version, created_at, updated_at)
+      VALUES (?, ?, ?, ?, 0, ?, ?, ?)
+    `);
+
+    this.touchProjectStmt = db.prepare(`
+      UPDATE projects SET version = ?, updated_at = ? WHERE id = ?
+    `);
+
+    this.renameProjectStmt = db.prepare(`UPDATE projects SET name = ? WHERE id = ?`);
+
+    this.describeProjectStmt = db.prepare(`UPDATE projects SET description = ? WHERE id = ?`);
+
+    this.deleteProjectStmt = db.prepare(`UPDATE projects SET deleted = 1 WHERE id = ?`);
+
+    this.insertColumnStmt = db.prepare(`
+      INSERT OR REPLACE INTO columns (id, project_id, name, position) VALUES (?, ?, ?, ?)
+    `);
+
+    this.renameColumnStmt = db.prepare(`UPDATE columns SET name = ? WHERE id = ?`);
+
+    this.moveColumnStmt = db.prepare(`UPDATE columns SET position = ? WHERE id = ?`);
+
+    this.deleteColumnStmt = db.prepare(`DELETE FROM columns WHERE id = ?`);
+
+    this.insertCardStmt = db.prepare(`
+      INSERT OR REPLACE INTO cards (id, project_id, column_id, title, description, position, external_id)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.updateCardStmt = db.prepare(`
+      UPDATE cards SET title = COALESCE(?, title), description = COALESCE(?, description) WHERE id = ?
+    `);
+
+    this.moveCardStmt = db.prepare(`UPDATE cards SET column_id = ?, position = ? WHERE id = ?`);
+
+    this.scheduleCardStmt = db.prepare(`UPDATE cards SET start_date = ?, due_date = ? WHERE id = ?`);
+
+    this.planCardStmt = db.prepare(`UPDATE cards SET priority = ?, estimate = ? WHERE id = ?`);
+
+    this.deleteCardStmt = db.prepare(`DELETE FROM cards WHERE id = ?`);
+
+    this.deleteCardDependenciesStmt = db.prepare(`DELETE FROM card_dependencies WHERE card_id = ?`);
+
+    this.addDependencyStmt = db.prepare(`
+      INSERT OR IGNORE INTO card_dependencies (project_id, card_id, depends_on_card_id)
+      SELECT project_id, id, ? FROM cards WHERE id = ?
+    `);
+
+    this.removeDependencyStmt = db.prepare(`
+      DELETE FROM card_dependencies WHERE card_id = ? AND depends_on_card_id = ?
+    `);
+
+    this.insertLabelStmt = db.prepare(`
+      INSERT OR REPLACE INTO labels (id, project_id, name, color) VALUES (?, ?, ?, ?)
+    `);
+
+    this.renameLabelStmt = db.prepare(`UPDATE labels SET name = ? WHERE id = ?`);
+
+    this.deleteLabelStmt = db.prepare(`DELETE FROM labels WHERE id = ?`);
+
+    this.labelCardStmt = db.prepare(`
+      INSERT OR IGNORE INTO card_labels (project_id, card_id, label_id)
+      SELECT project_id, id, ? FROM cards WHERE id = ?
+    `);
+
+    this.unlabelCardStmt = db.prepare(`DELETE FROM card_labels WHERE card_id = ? AND label_id = ?`);
+
+    this.deleteCardLabelsStmt = db.prepare(`DELETE FROM card_labels WHERE card_id = ?`);
+
+    this.assignCardStmt = db.prepare(`
+      INSERT OR IGNORE INTO card_assignees (project_id, card_id, member_id)
+      SELECT project_id, id, ? FROM cards WHERE id = ?
+    `);
+
+    this.unassignCardStmt = db.prepare(`DELETE FROM card_assignees WHERE card_id = ? AND member_id = ?`);
+
+    this.deleteCardAssigneesStmt = db.prepare(`DELETE FROM card_assignees WHERE card_id = ?`);
+
+    // Positions are indexes into the card's checklist. Adding, moving and
+    // deleting an item shift the items after it; the gap statements take the
+    // item's id twice.
+    this.insertChecklistItemStmt = db.prepare(`
+      INSERT OR IGNORE INTO checklist_items (id, project_id, card_id, text, checked, position)
+      SELECT ?, project_id, id, ?, 0, ? FROM cards WHERE id = ?
+    `);
+
+    this.openChecklistGapStmt = db.prepare(`
+      UPDATE checklist_items SET position = position + 1
+      WHERE card_id = (SELECT card_id FROM checklist_items WHERE id = ?) AND id != ? AND position >= ?
+    `);
+
+    this.closeChecklistGapStmt = db.prepare(`
+      UPDATE checklist_items SET position = position - 1
+      WHERE card_id = (SELECT card_id FROM checklist_items WHERE id = ?)
+        AND position > (SELECT position FROM checklist_items WHERE id = ?)
+    `);
+
+    this.renameChecklistItemStmt = db.prepare(`UPDATE checklist_items SET text = ? WHERE id = ?`);
+
+    this.checkChecklistItemStmt = db.prepare(`UPDATE checklist_items SET checked = ? WHERE id = ?`);
+
+    this.moveChecklistItemStmt = db.prepare(`UPDATE checklist_items SET position = ? WHERE id = ?`);
+
+    this.deleteChecklistItemStmt = db.prepare(`DELETE FROM checklist_items WHERE id = ?`);
+
+    this.deleteCardChecklistStmt = db.prepare(`DELETE FROM checklist_items WHERE card_id = ?`);
+
+    this.getProjectStmt = db.prepare(`SELECT * FROM projects WHERE id = ?`);
+
+    this.getProjectsByWorkspaceStmt = db.prepare(`
+      SELECT * FROM projects WHERE workspace_id = ? AND deleted = 0 ORDER BY created_at ASC, rowid ASC
+    `);
+
+    this.getProjectIdsByWorkspaceStmt = db.prepare(`
+      SELECT id FROM projects WHERE workspace_id = ?
+    `);
+
+    this.getColumnsStmt = db.prepare(`
+      SELECT * FROM columns WHERE project_id = ? ORDER BY position ASC, rowid ASC
+    `);
+
+    this.getCardsStmt = db.prepare(`
+      SELECT * FROM cards WHERE project_id = ? ORDER BY position ASC, rowid ASC
+    `);
+
+    this.getDependenciesStmt = db.prepare(`
+      SELECT card_id, depends_on_card_id FROM card_dependencies WHERE project_id = ? ORDER BY rowid ASC
+    `);
+
+    this.getLabelsStmt = db.prepare(`
+      SELECT id, name, color FROM labels WHERE project_id = ? ORDER BY name COLLATE NOCASE ASC, rowid ASC
+    `);
+
+    this.getCardLabelsStmt = db.prepare(`
+      SELECT card_id, label_id FROM card_labels WHERE project_id = ? ORDER BY rowid ASC
+    `);
+
+    this.getCardAssigneesStmt = db.prepare(`
+      SELECT card_id, member_id FROM card_assignees WHERE project_id = ? ORDER BY rowid ASC
+    `);
+
+    this.getChecklistItemsStmt = db.prepare(`
+      SELECT id, card_id, text, checked FROM checklist_items WHERE project_id = ? ORDER BY position ASC, rowid ASC
+    `);
+
+    this.getCardStmt = db.prepare(`SELECT * FROM cards WHERE id = ? AND project_id = ?`);
+
+    this.getCardDependencyIdsStmt = db.prepare(`
+      SELECT depends_on_card_id FROM card_dependencies WHERE card_id = ? ORDER BY rowid ASC
+    `);
+
+    this.getCardLabelIdsStmt = db.prepare(`
+      SELECT label_id FROM card_labels WHERE card_id = ? ORDER BY rowid ASC
+    `);
+
+    this.getCardAssigneeIdsStmt = db.prepare(`
+      SELECT member_id FROM card_assignees WHERE card_id = ? ORDER BY rowid ASC
+    `);
+
+    this.getCardChecklistStmt = db.prepare(`
+      SELECT id, card_id, text, checked FROM checklist_items WHERE card_id = ? ORDER BY position ASC, rowid ASC
+    `);
+
+    this.getDependencyCardsStmt = db.prepare(`
+      SELECT c.* FROM card_dependencies d
+      JOIN cards c ON c.id = d.depends_on_card_id
+      WHERE d.card_id = ?
+      ORDER BY d.rowid ASC
+    `);
+
+    this.getDependentCardsStmt = db.prepare(`
+      SELECT c.* FROM card_dependencies d
+      JOIN cards c ON c.id = d.card_id
+      JOIN columns col ON col.id = c.column_id
+      WHERE d.depends_on_card_id = ?
+      ORDER BY col.position ASC, col.rowid ASC, c.position ASC, c.rowid ASC
+    `);
+
+    // Cards in a project's last column count as done, as on the board
+    this.getUpcomingCardsStmt = db.prepare(`
+      SELECT c.*, p.name AS project_name, col.name AS column_name FROM cards c
+      JOIN projects p ON p.id = c.project_id
+      JOIN columns col ON col.id = c.column_id
+      WHERE p.workspace_id = ? AND p.deleted = 0
+        AND c.due_date IS NOT NULL AND c.due_date <= ?
+        AND col.position < (SELECT MAX(position) FROM columns WHERE project_id = c.project_id)
+      ORDER BY c.due_date ASC, p.created_at ASC, col.position ASC, c.position ASC, c.rowid ASC
+    `);
+
+    this.getCheckpointStmt = db.prepare(`
+      SELECT last_event_id FROM projection_checkpoints WHERE name = ?
+    `);
+
+    this.setCheckpointStmt = db.prepare(`
+      INSERT OR REPLACE INTO projection_checkpoints (name, last_event_id) VALUES (?, ?)
+    `);
+  }
+
+  // Must mirror applyEvent in the project aggregate
+  apply(event: DomainEvent): void {
+    if (event.aggregate_type === 'project') {
+      this.applyProjectEvent(event);
+    }
+    if (event.id !== undefined) {
+      this.setCheckpointStmt.run(CHECKPOINT, event.id);
+    }
+  }
+
+  private applyProjectEvent(event: Extract<DomainEvent, { aggregate_type: 'project' }>): void {
+    const projectId = event.aggregate_id;
+
+    switch (event.event_type) {
+      case 'ProjectCreated':
+        this.insertProjectStmt.run(
+          projectId,
+          event.event_data.workspace_id,
+          event.event_data.name,
+          event.event_data.description,
+          event.version,
+          event.timestamp,
+          event.timestamp
+        );
+        break;
+
+      case 'ProjectRenamed':
+        this.renameProjectStmt.run(event.event_data.name, projectId);
+        break;
+
+      case 'ProjectDescriptionUpdated':
+        this.describeProjectStmt.run(event.event_data.description, projectId);
+        break;
+
+      case 'ProjectDeleted':
+        this.deleteProjectStmt.run(projectId);
+        break;
+
+      case 'ColumnAdded':
+        this.insertColumnStmt.run(event.event_data.column_id, projectId, event.event_data.name, event.event_data.position);
+        break;
+
+      case 'ColumnRenamed':
+        this.renameColumnStmt.run(event.event_data.name, event.event_data.column_id);
+        break;
+
+      case 'ColumnMoved':
+        this.moveColumnStmt.run(event.event_data.position, event.event_data.column_id);
+        break;
+
+      case 'ColumnDeleted':
+        this.deleteColumnStmt.run(event.event_data.column_id);
+        break;
+
+      case 'CardAdded':
+        this.insertCardStmt.run(
+          event.event_data.card_id,
+          projectId,
+          event.event_data.column_id,
+          event.event_data.title,
+          event.event_data.description,
+          event.event_data.position,
+          event.event_data.external_id ?? null
+        );
+        break;
+
+      case 'CardUpdated':
+        this.updateCardStmt.run(
+          event.event_data.title ?? null,
+          event.event_data.description ?? null,
+          event.event_data.card_id
+        );
+        break;
+
+      case 'CardMoved':
+        this.moveCardStmt.run(event.event_data.column_id, event.event_data.position, event.event_data.card_id);
+        break;
+
+      case 'CardDeleted':
+        this.deleteCardStmt.run(event.event_data.card_id);
+        this.deleteCardDependenciesStmt.run(event.event_data.card_id);
+        this.deleteCardLabelsStmt.run(event.event_data.card_id);
+        this.deleteCardAssigneesStmt.run(event.event_data.card_id);
+        this.deleteCardChecklistStmt.run(event.event_data.card_id);
+        break;
+
+      case 'DependencyAdded':
+        this.addDependencyStmt.run(event.event_data.depends_on_card_id, event.event_data.card_id);
+        break;
+
+      case 'DependencyRemoved':
+        this.removeDependencyStmt.run(event.event_data.card_id, event.event_data.depends_on_card_id);
+        break;
+
+      case 'LabelCreated':
+        this.insertLabelStmt.run(event.event_data.label_id, projectId, event.event_data.name, event.event_data.color);
+        break;
+
+      case 'LabelRenamed':
+        this.renameLabelStmt.run(event.event_data.name, event.event_data.label_id);
+        break;
+
+      case 'LabelDeleted':
+        this.deleteLabelStmt.run(event.event_data.label_id);
+        break;
+
+      case 'CardLabeled':
+        this.labelCardStmt.run(event.event_data.label_id, event.event_data.card_id);
+        break;
+
+      case 'CardUnlabeled':
+        this.unlabelCardStmt.run(event.event_data.card_id, event.event_data.label_id);
+        break;
+
+      case 'CardScheduled':
+        this.scheduleCardStmt.run(event.event_data.start_date, event.event_data.due_date, event.event_data.card_id);
+        break;
+
+      case 'CardPlanned':
+        this.planCardStmt.run(event.event_data.priority, event.event_data.estimate, event.event_data.card_id);
+        break;
+
+      case 'CardAssigned':
+        this.assignCardStmt.run(event.event_data.member_id, event.event_data.card_id);
+        break;
+
+      case 'CardUnassigned':
+        this.unassignCardStmt.run(event.event_data.card_id, event.event_data.member_id);
+        break;
+
+      case 'ChecklistItemAdded': {
+        const { card_id, item_id, text, position } = event.event_data;
+        if (this.insertChecklistItemStmt.run(item_id, text, position, card_id).changes > 0) {
+          this.openChecklistGapStmt.run(item_id, item_id, position);
+        }
+        break;
+      }
+
+      case 'ChecklistItemRenamed':
+        this.renameChecklistItemStmt.run(event.event_data.text, event.event_data.item_id);
+        break;
+
+      case 'ChecklistItemChecked':
+        this.checkChecklistItemStmt.run(1, event.event_data.item_id);
+        break;
+
+      case 'ChecklistItemUnchecked':
+        this.checkChecklistItemStmt.run(0, event.event_data.item_id);
+        break;
+
+      case 'ChecklistItemMoved': {
+        const { item_id, position } = event.event_data;
+        this.closeChecklistGapStmt.run(item_id, item_id);
+        this.openChecklistGapStmt.run(item_id, item_id, position);
+        this.moveChecklistItemStmt.run(position, item_id);
+        break;
+      }
+
+      case 'ChecklistItemDeleted':
+        this.closeChecklistGapStmt.run(event.event_data.item_id, event.event_data.item_id);
+        this.deleteChecklistItemStmt.run(event.event_data.item_id);
+        break;
+    }
+
+    this.touchProjectStmt.run(event.version, event.timestamp, projectId);
+  }
+
+  getCheckpoint(): number {
+    const row = this.getCheckpointStmt.get(CHECKPOINT) as { last_event_id: number } | undefined;
+    return row?.last_event_id ?? 0;
+  }
+
+  // Empties every read-model table; the caller replays the event log afterwards
+  reset(): void {
+    this.db.exec(`
+      DELETE FROM projects;
+      DELETE FROM columns;
+      DELETE FROM cards;
+      DELETE FROM card_dependencies;
+      DELETE FROM labels;
+      DELETE FROM card_labels;
+      DELETE FROM card_assignees;
+      DELETE FROM checklist_items;
+    `);
+    this.setCheckpointStmt.run(CHECKPOINT, 0);
+  }
+
+  // Queries
+  getProject(projectId: string): { project: Project; version: number } | null {
+    const row = this.getProjectStmt.get(projectId) as ProjectRow | undefined;
+    if (!row || row.deleted) {
+      return null;
+    }
+    return { project: this.toProject(row), version: row.version };
+  }
+
+  getProjectsByWorkspace(workspaceId: string): Project[] {
+    const rows = this.getProjectsByWorkspaceStmt.all(workspaceId) as ProjectRow[];
+    return rows.map(row => this.toProject(row));
+  }
+
+  // Includes deleted projects, whose events still belong to the workspace
+  getWorkspaceId(projectId: string): string | undefined {
+    const row = this.getProjectStmt.get(projectId) as ProjectRow | undefined;
+    return row?.workspace_id;
+  }
+
+  getProjectIdsByWorkspace(workspaceId: string): string[] {
+    const rows = this.getProjectIdsByWorkspaceStmt.all(workspaceId) as { id: string }[];
+    return rows.map(r => r.id);
+  }
+
+  getCard(projectId: string, cardId: string): Card | undefined {
+    const row = this.getCardStmt.get(cardId, projectId) as CardRow | undefined;
+    if (!row) {
+      return undefined;
+    }
+    const dependencies = this.getCardDependencyIdsStmt.all(cardId) as { depends_on_card_id: string }[];
+    const labels = this.getCardLabelIdsStmt.all(cardId) as { label_id: string }[];
+    const assignees = this.getCardAssigneeIdsStmt.all(cardId) as { member_id: string }[];
+    const checklist = this.getCardChecklistStmt.all(cardId) as ChecklistItemRow[];
+    return this.toCard(
+      row,
+      dependencies.map(dep => dep.depends_on_card_id),
+      labels.map(label => label.label_id),
+      assignees.map(assignee => assignee.member_id),
+      checklist.map(item => this.toChecklistItem(item))
+    );
+  }
+
+  getDependencies(cardId: string): Card[] {
+    const rows = this.getDependencyCardsStmt.all(cardId) as CardRow[];
+    return rows.map(row => this.getCard(row.project_id, row.id)!);
+  }
+
+  getDependents(cardId: string): Card[] {
+    const rows = this.getDependentCardsStmt.all(cardId) as CardRow[];
+    return rows.map(row => this.getCard(row.project_id, row.id)!);
+  }
+
+  // Open cards of the workspace's projects due on or before the given date,
+  // overdue ones included, soonest first
+  getUpcomingCards(workspaceId: string, until: string): UpcomingCard[] {
+    const rows = this.getUpcomingCardsStmt.all(workspaceId, until) as UpcomingCardRow[];
+    return rows.map(row => ({
+      project_id: row.project_id,
+      project_name: row.project_name,
+      column_name: row.column_name,
+      card: this.getCard(row.project_id, row.id)!
+    }));
+  }
+
+  private toProject(row: ProjectRow): Project {
+    const columnRows = this.getColumnsStmt.all(row.id) as ColumnRow[];
+    const cardRows = this.getCardsStmt.all(row.id) as CardRow[];
+    const dependencyRows = this.getDependenciesStmt.all(row.id) as DependencyRow[];
+
+    const dependencies = new Map<string, string[]>();
+    for (const dep of dependencyRows) {
+      const list = dependencies.get(dep.card_id) ?? [];
+      list.push(dep.depends_on_card_id);
+      dependencies.set(dep.card_id, list);
+    }
+
+    const cardLabels = new Map<string, string[]>();
+    for (const { card_id, label_id } of this.getCardLabelsStmt.all(row.id) as CardLabelRow[]) {
+      const list = cardLabels.get(card_id) ?? [];
+      list.push(label_id);
+      cardLabels.set(card_id, list);
+    }
+
+    const cardAssignees = new Map<string, string[]>();
+    for (const { card_id, member_id } of this.getCardAssigneesStmt.all(row.id) as CardAssigneeRow[]) {
+      const list = cardAssignees.get(card_id) ?? [];
+      list.push(member_id);
+      cardAssignees.set(card_id, list);
+    }
+
+    const checklists = new Map<string, ChecklistItem[]>();
+    for (const item of this.getChecklistItemsStmt.all(row.id) as ChecklistItemRow[]) {
+      const list = checklists.get(item.card_id) ?? [];
+      list.push(this.toChecklistItem(item));
+      checklists.set(item.card_id, list);
+    }
+
+    const columns: Column[] = columnRows.map(col => ({
+      id: col.id,
+      project_id: col.project_id,
+      name: col.name,
+      position: col.position,
+      cards: cardRows
+        .filter(card => card.column_id === col.id)
+        .map(card => this.toCard(
+          card,
+          dependencies.get(card.id) ?? [],
+          cardLabels.get(card.id) ?? [],
+          cardAssignees.get(card.id) ?? [],
+          checklists.get(card.id) ?? []
+        ))
+    }));
+
+    return {
+      id: row.id,
+      workspace_id: row.workspace_id,
+      name: row.name,
+      description: row.description,
+      columns,
+      labels: this.getLabelsStmt.all(row.id) as Label[]
+    };
+  }
+
+  private toCard(
+    row: CardRow,
+    dependencies: string[],
+    labels: string[],
+    assignees: string[],
+    checklist: ChecklistItem[]
+  ): Card {
+    return {
+      id: row.id,
+      column_id: row.column_id,
+      title: row.title,
+      description: row.description,
+      position: row.position,
+      dependencies,
+      labels,
+      assignees,
+      checklist,
+      ...(row.external_id !== null && { external_id: row.external_id }),
+      ...(row.start_date !== null && { start_date: row.start_date }),
+      ...(row.due_date !== null && { due_date: row.due_date }),
+      ...(row.priority !== null && { priority: row.priority }),
+      ...(row.estimate !== null && { estimate: row.estimate })
+    };
+  }
+
+  private toChecklistItem(row: ChecklistItemRow): ChecklistItem {
+    return { id: row.id, text: row.text, checked: row.checked === 1 };
+  }
+}
+
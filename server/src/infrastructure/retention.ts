@@ -0,0 +1,277 @@
+import type { Database, Statement } from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+// Which data a retention run removes. A policy left out is not applied.
+export interface RetentionPolicy {
+  deleted_project_days?: number; // purge projects deleted at least this long ago
+  idle_workspace_days?: number; // drop empty workspaces untouched for this long
+  archive?: boolean; // write the removed events to an archive file first
+}
+
+export interface PurgedProject {
+  id: string;
+  workspace_id: string;
+  name: string;
+  deleted_at: string;
+  events: number;
+}
+
+export interface PurgedWorkspace {
+  id: string;
+  last_activity_at: string;
+  events: number;
+}
+
+// What a run removed, or for a dry run what it would remove. Only runs that
+// removed something are recorded, under id.
+export interface RetentionReport {
+  id: number | null;
+  dry_run: boolean;
+  ran_at: string;
+  policy: RetentionPolicy;
+  projects: PurgedProject[];
+  workspaces: PurgedWorkspace[];
+  events_removed: number;
+  archive_path: string | null;
+}
+
+export const ARCHIVE_FORMAT = 'yakataka-archive';
+export const ARCHIVE_FORMAT_VERSION = 1;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface EventRow {
+  id: number;
+  aggregate_type: string;
+  aggregate_id: string;
+  event_type: string;
+  event_data: string;
+  version: number;
+  timestamp: string;
+  command_id: string | null;
+  schema_version: number;
+  metadata: string | null;
+}
+
+interface RunRow {
+  id: number;
+  ran_at: string;
+  policy: string;
+  projects: string;
+  workspaces: string;
+  events_removed: number;
+  archive_path: string | null;
+}
+
+// Hard deletion of aggregates. Everything else in the store is append-only,
+// so this is the one place that knows every table an aggregate leaves rows in.
+export class RetentionStore {
+  private readonly getDeletedProjectsStmt: Statement;
+  private readonly getIdleWorkspacesStmt: Statement;
+  private readonly getProjectIdsStmt: Statement;
+  private readonly getEventsStmt: Statement;
+  private readonly purgeProjectStmts: Statement[];
+  private readonly purgeWorkspaceStmts: Statement[];
+  private readonly insertRunStmt: Statement;
+  private readonly getRunsStmt: Statement;
+
+  constructor(private readonly db: Database) {
+    // A project listed once, by its latest ProjectDeleted event, however many
+    // the log holds
+    this.getDeletedProjectsStmt = db.prepare(`
+      SELECT p.id, p.workspace_id, p.name, MAX(e.timestamp) AS deleted_at,
+        (SELECT COUNT(*) FROM events c WHERE c.aggregate_type = 'project' AND c.aggregate_id = p.id) AS events
+      FROM projects p
+      JOIN events e ON e.aggregate_type = 'project' AND e.aggregate_id = p.id AND e.event_type = 'ProjectDeleted'
+      WHERE p.deleted = 1
+      GROUP BY p.id
+      HAVING deleted_at <= ?
+      ORDER BY deleted_at ASC
+    `);
+
+    // Activity includes the events of the workspace's projects. Workspaces
+    // with webhooks are still in use even when nothing happens in them.
+    this.getIdleWorkspacesStmt = db.prepare(`
+      SELECT * FROM (
+        SELECT w.aggregate_id AS id, COUNT(*) AS events,
+          MAX(MAX(w.timestamp), COALESCE((
+            SELECT MAX(e.timestamp) FROM events e
+            JOIN projects p ON e.aggregate_type = 'project' AND e.aggregate_id = p.id
+            WHERE p.workspace_id = w.aggregate_id
+          ), '')) AS last_activity_at
+        FROM events w
+        WHERE w.aggregate_type = 'workspace'
+          AND NOT EXISTS (SELECT 1 FROM webhooks WHERE workspace_id = w.aggregate_id)
+        GROUP BY w.aggregate_id
+      )
+      WHERE last_activity_at <= ?
+      ORDER BY last_activity_at ASC
+    `);
+
+    this.getProjectIdsStmt = db.prepare(`SELECT id FROM projects WHERE workspace_id = ?`);
+
+    this.getEventsStmt = db.prepare(`
+      SELECT * FROM events WHERE aggregate_type = ? AND aggregate_id = ? ORDER BY version ASC
+    `);
+
+    this.purgeProjectStmts = [
+      `DELETE FROM events WHERE aggregate_type = 'project' AND aggregate_id = ?`,
+      `DELETE FROM snapshots WHERE aggregate_type = 'project' AND aggregate_id = ?`,
+      `DELETE FROM card_dependencies WHERE project_id = ?`,
+      `DELETE FROM card_labels WHERE project_id = ?`,
+      `DELETE FROM card_assignees WHERE project_id = ?`,
+      `DELETE FROM checklist_items WHERE project_id = ?`,
+      `DELETE FROM labels WHERE project_id = ?`,
+      `DELETE FROM cards WHERE project_id = ?`,
+      `DELETE FROM columns WHERE project_id = ?`,
+      `DELETE FROM projects WHERE id = ?`,
+      `DELETE FROM webhook_deliveries WHERE webhook_id IN (SELECT id FROM webhooks WHERE project_id = ?)`,
+      `DELETE FROM webhooks WHERE project_id = ?`,
+      `DELETE FROM inbound_deliveries WHERE webhook_id IN (SELECT id FROM inbound_webhooks WHERE project_id = ?)`,
+      `DELETE FROM inbound_webhooks WHERE project_id = ?`
+    ].map(sql => db.prepare(sql));
+
+    this.purgeWorkspaceStmts = [
+      `DELETE FROM events WHERE aggregate_type = 'workspace' AND aggregate_id = ?`,
+      `DELETE FROM snapshots WHERE aggregate_type = 'workspace' AND aggregate_id = ?`
+    ].map(sql => db.prepare(sql));
+
+    this.insertRunStmt = db.prepare(`
+      INSERT INTO retention_runs (ran_at, policy, projects, workspaces, events_removed, archive_path)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    this.getRunsStmt = db.prepare(`SELECT * FROM retention_runs ORDER BY id DESC LIMIT ?`);
+  }
+
+  // Projects deleted at or before the cutoff, oldest deletion first
+  getDeletedProjects(cutoff: string): PurgedProject[] {
+    return this.getDeletedProjectsStmt.all(cutoff) as PurgedProject[];
+  }
+
+  // Workspaces last active at or before the cutoff whose projects are all in
+  // purgedProjects, i.e. that are empty once those are gone
+  getIdleWorkspaces(cutoff: string, purgedProjects: ReadonlySet<string>): PurgedWorkspace[] {
+    const candidates = this.getIdleWorkspacesStmt.all(cutoff) as PurgedWorkspace[];
+    return candidates.filter(workspace => {
+      const projectIds = this.getProjectIdsStmt.all(workspace.id) as { id: string }[];
+      return projectIds.every(project => purgedProjects.has(project.id));
+    });
+  }
+
+  // Removes the projects and workspaces in one transaction and records the
+  // run. With an archive path, their events are written there first; if that
+  // fails nothing is removed.
+  purge(report: Omit<RetentionReport, 'id' | 'dry_run'>): number {
+    return this.db.transaction(() => {
+      if (report.archive_path) {
+        this.writeArchive(report);
+      }
+      for (const project of report.projects) {
+        for (const stmt of this.purgeProjectStmts) {
+          stmt.run(project.id);
+        }
+      }
+      for (const workspace of report.workspaces) {
+        for (const stmt of this.purgeWorkspaceStmts) {
+          stmt.run(workspace.id);
+        }
+      }
+      const result = this.insertRunStmt.run(
+        report.ran_at,
+        JSON.stringify(report.policy),
+        JSON.stringify(report.projects),
+        JSON.stringify(report.workspaces),
+        report.events_removed,
+        report.archive_path
+      );
+      return Number(result.lastInsertRowid);
+    }).immediate();
+  }
+
+  // Most recent first
+  getRuns(limit: number): RetentionReport[] {
+    const rows = this.getRunsStmt.all(limit) as RunRow[];
+    return rows.map(row => ({
+      id: row.id,
+      dry_run: false,
+      ran_at: row.ran_at,
+      policy: JSON.parse(row.policy),
+      projects: JSON.parse(row.projects),
+      workspaces: JSON.parse(row.workspaces),
+      events_removed: row.events_removed,
+      archive_path: row.archive_path
+    }));
+  }
+
+  // Directory archives are written to: YAKATAKA_ARCHIVE_DIR, or archive/ next
+  // to the database file
+  archiveDir(): string {
+    return process.env.YAKATAKA_ARCHIVE_DIR ?? path.join(path.dirname(this.db.name), 'archive');
+  }
+
+  // NDJSON: a header line, then the removed events as stored, with their
+  // original store ids and schema versions
+  private writeArchive(report: Omit<RetentionReport, 'id' | 'dry_run'>): void {
+    const lines = [JSON.stringify({
+      format: ARCHIVE_FORMAT,
+      format_version: ARCHIVE_FORMAT_VERSION,
+      ran_at: report.ran_at,
+      projects: report.projects,
+      workspaces: report.workspaces
+    })];
+    const aggregates = [
+      ...report.projects.map(project => ['project', project.id]),
+      ...report.workspaces.map(workspace => ['workspace', workspace.id])
+    ];
+    for (const [aggregateType, aggregateId] of aggregates) {
+      const rows = this.getEventsStmt.all(aggregateType, aggregateId) as EventRow[];
+      for (const row of rows) {
+        lines.push(JSON.stringify({
+          ...row,
+          event_data: JSON.parse(row.event_data),
+          metadata: row.metadata ? JSON.parse(row.metadata) : null
+        }));
+      }
+    }
+    fs.mkdirSync(path.dirname(report.archive_path!), { recursive: true });
+    fs.writeFileSync(report.archive_path!, lines.join('\n') + '\n', { flag: 'wx' });
+  }
+}
+
+// Applies the policy. A dry run reports what would be removed and changes
+// nothing; otherwise the removal is recorded in the retention runs.
+export function runRetention(
+  retention: RetentionStore,
+  policy: RetentionPolicy,
+  dryRun: boolean,
+  now: Date = new Date()
+): RetentionReport {
+  const cutoff = (days: number) => new Date(now.getTime() - days * DAY_MS).toISOString();
+  const projects = policy.deleted_project_days !== undefined
+    ? retention.getDeletedProjects(cutoff(policy.deleted_project_days))
+    : [];
+  const workspaces = policy.idle_workspace_days !== undefined
+    ? retention.getIdleWorkspaces(cutoff(policy.idle_workspace_days), new Set(projects.map(project => project.id)))
+    : [];
+
+  const ranAt = now.toISOString();
+  const removesAnything = projects.length > 0 || workspaces.length > 0;
+  const report: RetentionReport = {
+    id: null,
+    dry_run: dryRun,
+    ran_at: ranAt,
+    policy,
+    projects,
+    workspaces,
+    events_removed: [...projects, ...workspaces].reduce((sum, aggregate) => sum + aggregate.events, 0),
+    archive_path: policy.archive && removesAnything
+      ? path.join(retention.archiveDir(), `retention-${ranAt.replace(/[:.]/g, '-')}.ndjson`)
+      : null
+  };
+  if (!dryRun && removesAnything) {
+    report.id = retention.purge(report);
+  }
+  return report;
+}
@@ -0,0 +1,120 @@
+import type { Database, Statement } from 'better-sqlite3';
+import type { AggregateType } from '../types.js';
+
+interface SnapshotRow {
+  aggregate_type: string;
+  aggregate_id: string;
+  version: number;
+  schema_version: number;
+  state: string;
+  timestamp: string;
+}
+
+export interface Snapshot<T> {
+  aggregate_type: AggregateType;
+  aggregate_id: string;
+  version: number;
+  state: T;
+  timestamp: string;
+}
+
+export interface SnapshotStore {
+  // Snapshots written with another schema version are ignored, so bumping the
+  // version invalidates them without touching stored state
+  get<T>(aggregateType: AggregateType, aggregateId: string, schemaVersion: number): Snapshot<T> | null;
+  save<T>(aggregateType: AggregateType, aggregateId: string, version: number, schemaVersion: number, state: T): void;
+  deleteAll(aggregateType: AggregateType): number;
+}
+
+export class SqliteSnapshotStore implements SnapshotStore {
+  private readonly getStmt: Statement;
+  private readonly saveStmt: Statement;
+  private readonly deleteByTypeStmt: Statement;
+
+  constructor(db: Database) {
+    this.getStmt = db.prepare(`
+      SELECT * FROM snapshots
+      WHERE aggregate_type = ? AND aggregate_id = ? AND schema_version = ?
+    `);
+
+    this.saveStmt = db.prepare(`
+      INSERT OR REPLACE INTO snapshots (aggregate_type, aggregate_id, version, schema_version, state, timestamp)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    this.deleteByTypeStmt = db.prepare(`
+      DELETE FROM snapshots WHERE aggregate_type = ?
+    `);
+  }
+
+  get<T>(aggregateType: AggregateType, aggregateId: string, schemaVersion: number): Snapshot<T> | null {
+    const row = this.getStmt.get(aggregateType, aggregateId, schemaVersion) as SnapshotRow | undefined;
+    if (!row) {
+      return null;
+    }
+    return {
+      aggregate_type: row.aggregate_type as AggregateType,
+      aggregate_id: row.aggregate_id,
+      version: row.version,
+      state: JSON.parse(row.state) as T,
+      timestamp: row.timestamp
+    };
+  }
+
+  save<T>(aggregateType: AggregateType, aggregateId: string, version: number, schemaVersion: number, state: T): void {
+    this.saveStmt.run(
+      aggregateType,
+      aggregateId,
+      version,
+      schemaVersion,
+      JSON.stringify(state),
+      new Date().toISOString()
+    );
+  }
+
+  deleteAll(aggregateType: AggregateType): number {
+    return this.deleteByTypeStmt.run(aggregateType).changes;
+  }
+}
+
+// Keeps snapshots as serialized JSON, like the table does, so callers never
+// share state with the store
+export class InMemorySnapshotStore implements SnapshotStore {
+  private snapshots = new Map<string, Snapshot<string> & { schema_version: number }>();
+
+  get<T>(aggregateType: AggregateType, aggregateId: string, schemaVersion: number): Snapshot<T> | null {
+    const snapshot = this.snapshots.get(`${aggregateType}:${aggregateId}`);
+    if (!snapshot || snapshot.schema_version !== schemaVersion) {
+      return null;
+    }
+    return {
+      aggregate_type: snapshot.aggregate_type,
+      aggregate_id: snapshot.aggregate_id,
+      version: snapshot.version,
+      state: JSON.parse(snapshot.state) as T,
+      timestamp: snapshot.timestamp
+    };
+  }
+
+  save<T>(aggregateType: AggregateType, aggregateId: string, version: number, schemaVersion: number, state: T): void {
+    this.snapshots.set(`${aggregateType}:${aggregateId}`, {
+      aggregate_type: aggregateType,
+      aggregate_id: aggregateId,
+      version,
+      schema_version: schemaVersion,
+      state: JSON.stringify(state),
+      timestamp: new Date().toISOString()
+    });
+  }
+
+  deleteAll(aggregateType: AggregateType): number {
+    let deleted = 0;
+    for (const [key, snapshot] of this.snapshots) {
+      if (snapshot.aggregate_type === aggregateType) {
+        this.snapshots.delete(key);
+        deleted++;
+      }
+    }
+    return deleted;
+  }
+}
@@ -0,0 +1,414 @@
+import type { Database, Statement, Transaction } from 'better-sqlite3';
+import type { AggregateType, DomainEvent } from '../types.js';
+import { ConcurrencyError, EventQuery, EventStore, NewEvent } from './eventStore.js';
+import type { ProjectionStore } from './projections.js';
+import { currentSchemaVersion, upcast } from './upcasters.js';
+import type { WebhookStore } from './webhooks.js';
+
+const PROJECTION_SYNC_BATCH_SIZE = 1000;
+
+// An event's source as the upcasters report it. Events stored before the
+// metadata envelope existed only have the legacy _source key, and anything
+// but 'mcp' there is read as 'api'.
+const EVENT_SOURCE_SQL = `
+  CASE
+    WHEN metadata IS NOT NULL THEN json_extract(metadata, '$.source')
+    WHEN json_extract(event_data, '$._source') IS NULL THEN NULL
+    WHEN json_extract(event_data, '$._source') = 'mcp' THEN 'mcp'
+    ELSE 'api'
+  END`;
+
+interface EventRow {
+  id: number;
+  aggregate_type: string;
+  aggregate_id: string;
+  event_type: string;
+  event_data: string;
+  version: number;
+  timestamp: string;
+  command_id: string | null;
+  schema_version: number;
+  metadata: string | null;
+}
+
+// Events live in the events table of a better-sqlite3 database. The read
+// model and the webhook outbox are updated in the same transaction as the
+// events they derive from.
+export class SqliteEventStore implements EventStore {
+  private readonly insertStmt: Statement;
+  private readonly getEventsStmt: Statement;
+  private readonly getVersionAtStmt: Statement;
+  private readonly getAggregateEventsAfterIdStmt: Statement;
+  private readonly getLatestEventIdStmt: Statement;
+  private readonly getAggregateIdsStmt: Statement;
+  private readonly getLatestVersionStmt: Statement;
+  private readonly getEventsByWorkspaceStmt: Statement;
+  private readonly getRecentEventsByWorkspaceStmt: Statement;
+  private readonly getEventsAfterIdStmt: Statement;
+  private readonly getCardEventsStmt: Statement;
+  private readonly getLastEventIdStmt: Statement;
+  private readonly commitListeners: ((events: DomainEvent[]) => void)[] = [];
+  private readonly insertBatch: Transaction<(events: NewEvent[], commitTime: string) => DomainEvent[]>;
+
+  constructor(
+    private readonly db: Database,
+    private readonly projections: ProjectionStore,
+    private readonly webhooks: WebhookStore
+  ) {
+    this.insertStmt = db.prepare(`
+      INSERT INTO events (aggregate_type, aggregate_id, event_type, event_data, version, timestamp, command_id, schema_version, metadata)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.getEventsStmt = db.prepare(`
+      SELECT * FROM events
+      WHERE aggregate_type = ? AND aggregate_id = ? AND version > ? AND version <= ?
+      ORDER BY version ASC
+    `);
+
+    this.getVersionAtStmt = db.prepare(`
+      SELECT MAX(version) as version FROM events
+      WHERE aggregate_type = ? AND aggregate_id = ? AND timestamp <= ?
+    `);
+
+    this.getAggregateEventsAfterIdStmt = db.prepare(`
+      SELECT * FROM events
+      WHERE aggregate_type = ? AND aggregate_id = ? AND id > ?
+      ORDER BY id ASC
+    `);
+
+    this.getLatestEventIdStmt = db.prepare(`
+      SELECT MAX(id) as id FROM events
+      WHERE aggregate_type = ? AND aggregate_id = ?
+    `);
+
+    this.getLastEventIdStmt = db.prepare(`SELECT MAX(id) as id FROM events`);
+
+    this.getAggregateIdsStmt = db.prepare(`
+      SELECT DISTINCT aggregate_id FROM events
+      WHERE aggregate_type = ?
+    `);
+
+    this.getLatestVersionStmt = db.prepare(`
+      SELECT MAX(version) as version FROM events
+      WHERE aggregate_type = ? AND aggregate_id = ?
+    `);
+
+    this.getEventsByWorkspaceStmt = db.prepare(`
+      SELECT e.* FROM events e
+      WHERE (e.aggregate_type = 'workspace' AND e.aggregate_id = ?)
+         OR (e.aggregate_type = 'project' AND e.aggregate_id IN (
+           SELECT id FROM projects WHERE workspace_id = ?
+         ))
+      ORDER BY e.timestamp ASC
+    `);
+
+    this.getRecentEventsByWorkspaceStmt = db.prepare(`
+      SELECT e.* FROM events e
+      WHERE (e.aggregate_type = 'workspace' AND e.aggregate_id = ?)
+         OR (e.aggregate_type = 'project' AND e.aggregate_id IN (
+           SELECT id FROM projects WHERE workspace_id = ?
+         ))
+      ORDER BY e.timestamp DESC, e.id DESC
+      LIMIT ?
+    `);
+
+    this.getEventsAfterIdStmt = db.prepare(`
+      SELECT * FROM events
+      WHERE id > ?
+      ORDER BY id ASC
+      LIMIT ?
+    `);
+
+    this.getCardEventsStmt = db.prepare(`
+      SELECT * FROM events
+      WHERE aggregate_type = 'project'
+      AND aggregate_id = ?
+      AND (
+        json_extract(event_data, '$.card_id') = ?
+        OR json_extract(event_data, '$.depends_on_card_id') = ?
+      )
+      ORDER BY timestamp DESC
+    `);
+
+    this.insertBatch = db.transaction((events: NewEvent[], commitTime: string): DomainEvent[] => {
+      return events.map(event => {
+        const timestamp = event.timestamp ?? commitTime;
+        const schemaVersion = currentSchemaVersion(event.event_type);
+        const result = this.insertStmt.run(
+          event.aggregate_type,
+          event.aggregate_id,
+          event.event_type,
+          JSON.stringify(event.event_data),
+          event.version,
+          timestamp,
+          event.command_id ?? null,
+          schemaVersion,
+          event.metadata ? JSON.stringify(event.metadata) : null
+        );
+        const savedEvent = {
+          id: Number(result.lastInsertRowid),
+          ...event,
+          timestamp,
+          schema_version: schemaVersion
+        } as DomainEvent;
+        this.projections.apply(savedEvent);
+        this.webhooks.enqueue(savedEvent, this.getWorkspaceId(savedEvent));
+        return savedEvent;
+      });
+    });
+  }
+
+  append(event: NewEvent): DomainEvent {
+    return this.appendBatch([event])[0];
+  }
+
+  // Writes all events of one command in a single transaction, so either every
+  // event is stored or none is, and notifies commit listeners afterwards
+  appendBatch(events: NewEvent[]): DomainEvent[] {
+    if (events.length === 0) {
+      return [];
+    }
+
+    let savedEvents: DomainEvent[];
+    try {
+      savedEvents = this.insertBatch(events, new Date().toISOString());
+    } catch (err: unknown) {
+      if (err instanceof Error && err.message.includes('UNIQUE constraint failed')) {
+        const first = events[0];
+        throw new ConcurrencyError(
+          first.aggregate_type,
+          first.aggregate_id,
+          first.version - 1,
+          this.getLatestVersion(first.aggregate_type, first.aggregate_id)
+        );
+      }
+      throw err;
+    }
+
+    for (const listener of this.commitListeners) {
+      listener(savedEvents);
+    }
+
+    return savedEvents;
+  }
+
+  getEvents(
+    aggregateType: AggregateType,
+    aggregateId: string,
+    afterVersion: number = 0,
+    untilVersion: number = Number.MAX_SAFE_INTEGER
+  ): DomainEvent[] {
+    const rows = this.getEventsStmt.all(aggregateType, aggregateId, afterVersion, untilVersion) as EventRow[];
+    return rows.map(this.rowToEvent);
+  }
+
+  getEventsAfterIdForAggregate(aggregateType: AggregateType, aggregateId: string, afterId: number): DomainEvent[] {
+    const rows = this.getAggregateEventsAfterIdStmt.all(aggregateType, aggregateId, afterId) as EventRow[];
+    return rows.map(this.rowToEvent);
+  }
+
+  getLatestVersion(aggregateType: AggregateType, aggregateId: string): number {
+    const result = this.getLatestVersionStmt.get(aggregateType, aggregateId) as { version: number | null };
+    return result.version ?? 0;
+  }
+
+  // Version the aggregate was at when the given moment had passed
+  getVersionAt(aggregateType: AggregateType, aggregateId: string, timestamp: string): number {
+    const result = this.getVersionAtStmt.get(aggregateType, aggregateId, timestamp) as { version: number | null };
+    return result.version ?? 0;
+  }
+
+  getLatestEventId(aggregateType: AggregateType, aggregateId: string): number {
+    const result = this.getLatestEventIdStmt.get(aggregateType, aggregateId) as { id: number | null };
+    return result.id ?? 0;
+  }
+
+  getAggregateIds(aggregateType: AggregateType): string[] {
+    const rows = this.getAggregateIdsStmt.all(aggregateType) as { aggregate_id: string }[];
+    return rows.map(r => r.aggregate_id);
+  }
+
+  getWorkspaceEvents(workspaceId: string, limit?: number): DomainEvent[] {
+    if (limit) {
+      const rows = this.getRecentEventsByWorkspaceStmt.all(workspaceId, workspaceId, limit) as EventRow[];
+      return rows.reverse().map(this.rowToEvent);
+    }
+    const rows = this.getEventsByWorkspaceStmt.all(workspaceId, workspaceId) as EventRow[];
+    return rows.map(this.rowToEvent);
+  }
+
+  // Newest first. Filters on provenance read the metadata envelope and, for
+  // events stored before it existed, the legacy _source key mapped the way
+  // the upcasters map it.
+  queryEvents(query: EventQuery): DomainEvent[] {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (query.projectId) {
+      conditions.push(`aggregate_type = 'project' AND aggregate_id = ?`);
+      params.push(query.projectId);
+    }
+    if (query.workspaceId) {
+      conditions.push(`((aggregate_type = 'workspace' AND aggregate_id = ?)
+        OR (aggregate_type = 'project' AND aggregate_id IN (SELECT id FROM projects WHERE workspace_id = ?)))`);
+      params.push(query.workspaceId, query.workspaceId);
+    }
+    if (query.eventTypes && query.eventTypes.length > 0) {
+      conditions.push(`event_type IN (${query.eventTypes.map(() => '?').join(', ')})`);
+      params.push(...query.eventTypes);
+    }
+    if (query.source) {
+      conditions.push(`${EVENT_SOURCE_SQL} = ?`);
+      params.push(query.source);
+    }
+    if (query.actor) {
+      conditions.push(`(json_extract(metadata, '$.actor_id') = ? OR json_extract(metadata, '$.actor_name') = ?)`);
+      params.push(query.actor, query.actor);
+    }
+    if (query.cardId) {
+      conditions.push(`(json_extract(event_data, '$.card_id') = ? OR json_extract(event_data, '$.depends_on_card_id') = ?)`);
+      params.push(query.cardId, query.cardId);
+    }
+    if (query.columnId) {
+      conditions.push(`json_extract(event_data, '$.column_id') = ?`);
+      params.push(query.columnId);
+    }
+    if (query.since) {
+      conditions.push(`timestamp >= ?`);
+      params.push(query.since);
+    }
+    if (query.until) {
+      conditions.push(`timestamp <= ?`);
+      params.push(query.until);
+    }
+    if (query.beforeId) {
+      conditions.push(`id < ?`);
+      params.push(query.beforeId);
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = this.db.prepare(`SELECT * FROM events ${where} ORDER BY id DESC LIMIT ?`)
+      .all(...params, query.limit) as EventRow[];
+    return rows.map(this.rowToEvent);
+  }
+
+  // Latest card titles and column and label names of the given projects,
+  // including deleted ones, and latest member names of the given workspaces
+  // and of the projects' workspaces
+  getEntityNames(projectIds: string[], workspaceIds: string[] = []): Map<string, string> {
+    const names = new Map<string, string>();
+    if (projectIds.length === 0 && workspaceIds.length === 0) {
+      return names;
+    }
+    const projectList = projectIds.map(() => '?').join(', ');
+    const workspaceList = workspaceIds.map(() => '?').join(', ');
+    const rows = this.db.prepare(`
+      SELECT
+        COALESCE(
+          json_extract(event_data, '$.item_id'),
+          json_extract(event_data, '$.card_id'),
+          json_extract(event_data, '$.column_id'),
+          json_extract(event_data, '$.label_id'),
+          json_extract(event_data, '$.member_id')
+        ) AS entity_id,
+        COALESCE(
+          json_extract(event_data, '$.title'),
+          json_extract(event_data, '$.name'),
+          json_extract(event_data, '$.text')
+        ) AS name
+      FROM events
+      WHERE (aggregate_type = 'project'
+          AND aggregate_id IN (${projectList})
+          AND event_type IN ('CardAdded', 'CardUpdated', 'ColumnAdded', 'ColumnRenamed', 'LabelCreated', 'LabelRenamed',
+            'ChecklistItemAdded', 'ChecklistItemRenamed'))
+        OR (aggregate_type = 'workspace'
+          AND (aggregate_id IN (${workspaceList})
+            OR aggregate_id IN (SELECT workspace_id FROM projects WHERE id IN (${projectList})))
+          AND event_type IN ('MemberAdded', 'MemberUpdated'))
+      ORDER BY id ASC
+    `).all(...projectIds, ...workspaceIds, ...projectIds) as { entity_id: string; name: string | null }[];
+    for (const row of rows) {
+      if (row.name !== null) {
+        names.set(row.entity_id, row.name);
+      }
+    }
+    return names;
+  }
+
+  getProjectIdsByWorkspace(workspaceId: string): string[] {
+    return this.projections.getProjectIdsByWorkspace(workspaceId);
+  }
+
+  getEventsAfterId(afterId: number, limit: number): DomainEvent[] {
+    const rows = this.getEventsAfterIdStmt.all(afterId, limit) as EventRow[];
+    return rows.map(this.rowToEvent);
+  }
+
+  // Applies every event the read model has not seen yet, e.g. on a database
+  // created before the projection tables existed. With rebuild, the read model
+  // is emptied first and replayed from the start of the log.
+  syncProjections(rebuild: boolean = false): number {
+    return this.db.transaction(() => {
+      if (rebuild) {
+        this.projections.reset();
+      }
+      let applied = 0;
+      let events = this.getEventsAfterId(this.projections.getCheckpoint(), PROJECTION_SYNC_BATCH_SIZE);
+      while (events.length > 0) {
+        for (const event of events) {
+          this.projections.apply(event);
+        }
+        applied += events.length;
+        events = this.getEventsAfterId(events[events.length - 1].id!, PROJECTION_SYNC_BATCH_SIZE);
+      }
+      return applied;
+    })();
+  }
+
+  getCardEvents(projectId: string, cardId: string, limit?: number): DomainEvent[] {
+    const rows = this.getCardEventsStmt.all(projectId, cardId, cardId) as EventRow[];
+    const events = rows.map(this.rowToEvent);
+    return limit ? events.slice(0, limit) : events;
+  }
+
+  // Called after every successful appendBatch in this process. Listeners may
+  // run while an enclosing transaction is still open, and must not assume the
+  // events are visible to other connections yet.
+  onCommit(listener: (events: DomainEvent[]) => void): void {
+    this.commitListeners.push(listener);
+  }
+
+  // Id of the newest event in the store, 0 when it is empty
+  getLastEventId(): number {
+    const result = this.getLastEventIdStmt.get() as { id: number | null };
+    return result.id ?? 0;
+  }
+
+  getWorkspaceId(event: DomainEvent): string | undefined {
+    return event.aggregate_type === 'workspace'
+      ? event.aggregate_id
+      : this.projections.getWorkspaceId(event.aggregate_id);
+  }
+
+  // Payloads stored under an older schema version are upcast to the current one
+  private rowToEvent(row: EventRow): DomainEvent {
+    const { event_data, metadata } = upcast(row.event_type, row.schema_version, {
+      event_data: JSON.parse(row.event_data),
+      ...(row.metadata && { metadata: JSON.parse(row.metadata) })
+    });
+    return {
+      id: row.id,
+      aggregate_type: row.aggregate_type as AggregateType,
+      aggregate_id: row.aggregate_id,
+      event_type: row.event_type,
+      event_data,
+      version: row.version,
+      timestamp: row.timestamp,
+      ...(row.command_id && { command_id: row.command_id }),
+      schema_version: currentSchemaVersion(row.event_type),
+      ...(metadata && { metadata })
+    } as DomainEvent;
+  }
+}
+
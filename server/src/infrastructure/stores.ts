@@ -0,0 +1,58 @@
+import type { Database } from 'better-sqlite3';
+import { openDatabase } from '../db/index.js';
+import { BackupService } from './backups.js';
+import type { EventStore } from './eventStore.js';
+import { InboundWebhookStore } from './inboundWebhooks.js';
+import { InMemoryEventStore } from './memoryEventStore.js';
+import { ProjectionStore } from './projections.js';
+import { RetentionStore } from './retention.js';
+import { InMemorySnapshotStore, SnapshotStore, SqliteSnapshotStore } from './snapshotStore.js';
+import { SqliteEventStore } from './sqliteEventStore.js';
+import { WebhookStore } from './webhooks.js';
+
+// Everything the aggregates need to load and save themselves
+export interface Stores {
+  events: EventStore;
+  snapshots: SnapshotStore;
+}
+
+export interface SqliteStores extends Stores {
+  db: Database;
+  events: SqliteEventStore;
+  projections: ProjectionStore;
+  webhooks: WebhookStore;
+  inboundWebhooks: InboundWebhookStore;
+  retention: RetentionStore;
+  backups: BackupService;
+}
+
+export function createSqliteStores(filePath?: string): SqliteStores {
+  const db = openDatabase(filePath);
+  const projections = new ProjectionStore(db);
+  const webhooks = new WebhookStore(db);
+  return {
+    db,
+    events: new SqliteEventStore(db, projections, webhooks),
+    snapshots: new SqliteSnapshotStore(db),
+    projections,
+    webhooks,
+    inboundWebhooks: new InboundWebhookStore(db),
+    retention: new RetentionStore(db),
+    backups: new BackupService(db)
+  };
+}
+
+export function createMemoryStores(): Stores {
+  return {
+    events: new InMemoryEventStore(),
+    snapshots: new InMemorySnapshotStore()
+  };
+}
+
+let serverStores: SqliteStores | undefined;
+
+// The stores behind the HTTP server, opened on first use at DEFAULT_DB_PATH
+export function getServerStores(): SqliteStores {
+  serverStores ??= createSqliteStores();
+  return serverStores;
+}
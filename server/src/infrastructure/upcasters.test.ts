@@ -0,0 +1,180 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { createSqliteStores } from './stores.js';
+import { currentSchemaVersion, registerUpcaster, upcast } from './upcasters.js';
+import { loadProject } from '../domain/project/aggregate.js';
+
+// Event rows as older releases stored them. Version 1 payloads carry the
+// legacy _source key and no metadata; version 2 payloads keep provenance in
+// the metadata envelope.
+interface FixtureRow {
+  event_type: string;
+  event_data: Record<string, unknown>;
+  schema_version: number;
+  command_id?: string;
+  metadata?: Record<string, unknown>;
+}
+
+const PROJECT_ID = 'project-1';
+
+const V1_LOG: FixtureRow[] = [
+  {
+    event_type: 'ProjectCreated',
+    event_data: { project_id: PROJECT_ID, workspace_id: 'workspace-1', name: 'Roadmap', description: '', _source: 'web' },
+    schema_version: 1
+  },
+  { event_type: 'ColumnAdded', event_data: { column_id: 'todo', name: 'To Do', position: 0, _source: 'web' }, schema_version: 1 },
+  { event_type: 'ColumnAdded', event_data: { column_id: 'done', name: 'Done', position: 1, _source: 'web' }, schema_version: 1 },
+  {
+    event_type: 'CardAdded',
+    event_data: { card_id: 'card-1', column_id: 'todo', title: 'Write docs', description: '', position: 0, _source: 'mcp' },
+    schema_version: 1
+  },
+  { event_type: 'CardMoved', event_data: { card_id: 'card-1', column_id: 'done', position: 0 }, schema_version: 1 }
+];
+
+const V2_LOG: FixtureRow[] = [
+  ...V1_LOG,
+  {
+    event_type: 'ProjectRenamed',
+    event_data: { name: 'Plans' },
+    schema_version: 2,
+    command_id: 'rename',
+    metadata: { source: 'web', actor_id: 'ada', event_id: 'event-rename' }
+  },
+  {
+    event_type: 'CardUpdated',
+    event_data: { card_id: 'card-1', title: 'Write the docs' },
+    schema_version: 2,
+    command_id: 'edit',
+    metadata: { source: 'mcp', event_id: 'event-edit' }
+  },
+  {
+    event_type: 'ProjectDescriptionUpdated',
+    event_data: { description: 'Next quarter', _source: 'web' },
+    schema_version: 1,
+    command_id: 'describe'
+  }
+];
+
+function storeWithRows(rows: FixtureRow[]) {
+  const stores = createSqliteStores(':memory:');
+  const insert = stores.db.prepare(`
+    INSERT INTO events (aggregate_type, aggregate_id, event_type, event_data, version, timestamp, command_id, schema_version, metadata)
+    VALUES ('project', ?, ?, ?, ?, ?, ?, ?, ?)
+  `);
+  rows.forEach((row, index) => {
+    insert.run(
+      PROJECT_ID,
+      row.event_type,
+      JSON.stringify(row.event_data),
+      index + 1,
+      new Date(Date.UTC(2024, 0, 1, 0, index)).toISOString(),
+      row.command_id ?? null,
+      row.schema_version,
+      row.metadata ? JSON.stringify(row.metadata) : null
+    );
+  });
+  return stores;
+}
+
+describe('upcaster registry', () => {
+  it('runs every step from the stored version to the current one', () => {
+    registerUpcaster('TestStepped', 1, ({ event_data }) => ({ event_data: { ...event_data, steps: ['1to2'] } }));
+    registerUpcaster('TestStepped', 2, ({ event_data }) => ({
+      event_data: { ...event_data, steps: [...(event_data.steps as string[] ?? []), '2to3'] }
+    }));
+
+    assert.equal(currentSchemaVersion('TestStepped'), 3);
+    assert.deepEqual(upcast('TestStepped', 1, { event_data: {} }).event_data, { steps: ['1to2', '2to3'] });
+    assert.deepEqual(upcast('TestStepped', 2, { event_data: {} }).event_data, { steps: ['2to3'] });
+    assert.deepEqual(upcast('TestStepped', 3, { event_data: { steps: [] } }).event_data, { steps: [] });
+  });
+
+  it('leaves event types without upcasters at version 1', () => {
+    assert.equal(currentSchemaVersion('TestUnregistered'), 1);
+    assert.deepEqual(upcast('TestUnregistered', 1, { event_data: { a: 1 } }), { event_data: { a: 1 } });
+  });
+
+  it('fails on a missing step instead of skipping it', () => {
+    registerUpcaster('TestGap', 2, payload => payload);
+    assert.throws(() => upcast('TestGap', 1, { event_data: {} }), /No upcaster for TestGap from schema version 1/);
+  });
+});
+
+describe('project event upcasters', () => {
+  it('moves the legacy _source key into metadata, reading anything but mcp as api', () => {
+    assert.deepEqual(upcast('ProjectRenamed', 1, { event_data: { name: 'A', _source: 'mcp' } }), {
+      event_data: { name: 'A' },
+      metadata: { source: 'mcp' }
+    });
+    assert.deepEqual(upcast('ProjectRenamed', 1, { event_data: { name: 'A', _source: 'web' } }), {
+      event_data: { name: 'A' },
+      metadata: { source: 'api' }
+    });
+    assert.deepEqual(upcast('ProjectRenamed', 1, { event_data: { name: 'A' } }), {
+      event_data: { name: 'A' },
+      metadata: undefined
+    });
+  });
+
+  it('keeps metadata stored alongside a legacy _source key', () => {
+    const payload = upcast('CardUpdated', 1, {
+      event_data: { card_id: 'card-1', title: 'A', _source: 'mcp' },
+      metadata: { source: 'web', actor_id: 'ada' }
+    });
+    assert.deepEqual(payload, { event_data: { card_id: 'card-1', title: 'A' }, metadata: { source: 'web', actor_id: 'ada' } });
+  });
+});
+
+describe('SqliteEventStore reading older rows', () => {
+  it('rebuilds a project from a version 1 log', () => {
+    const stores = storeWithRows(V1_LOG);
+    const project = loadProject(PROJECT_ID, undefined, stores).toProject();
+
+    assert.equal(project.name, 'Roadmap');
+    assert.deepEqual(project.columns.map(column => [column.id, column.name, column.cards.map(card => card.id)]), [
+      ['todo', 'To Do', []],
+      ['done', 'Done', ['card-1']]
+    ]);
+    assert.equal(project.columns[1].cards[0].title, 'Write docs');
+  });
+
+  it('decodes legacy provenance into metadata.source', () => {
+    const stores = storeWithRows(V1_LOG);
+    const events = stores.events.getEvents('project', PROJECT_ID);
+
+    assert.deepEqual(events.map(event => event.metadata?.source), ['api', 'api', 'api', 'mcp', undefined]);
+    for (const event of events) {
+      assert.equal('_source' in event.event_data, false);
+      assert.equal(event.schema_version, currentSchemaVersion(event.event_type));
+    }
+  });
+
+  it('rebuilds a version 2 log that mixes in version 1 rows', () => {
+    const stores = storeWithRows(V2_LOG);
+    const project = loadProject(PROJECT_ID, undefined, stores).toProject();
+    assert.equal(project.name, 'Plans');
+    assert.equal(project.description, 'Next quarter');
+    assert.equal(project.columns[1].cards[0].title, 'Write the docs');
+
+    const [rename, edit, redescribe] = stores.events.getEvents('project', PROJECT_ID).slice(-3);
+    assert.deepEqual(rename.event_data, { name: 'Plans' });
+    assert.deepEqual(rename.metadata, { source: 'web', actor_id: 'ada', event_id: 'event-rename' });
+    assert.deepEqual(edit.metadata, { source: 'mcp', event_id: 'event-edit' });
+    assert.deepEqual(redescribe.event_data, { description: 'Next quarter' });
+    assert.deepEqual(redescribe.metadata, { source: 'api' });
+  });
+
+  it('filters legacy events by the source the upcasters report', () => {
+    const stores = storeWithRows(V2_LOG);
+    const versions = (source: 'api' | 'mcp' | 'web') => stores.events
+      .queryEvents({ projectId: PROJECT_ID, source, limit: 100 })
+      .map(event => event.version)
+      .sort((a, b) => a - b);
+
+    assert.deepEqual(versions('api'), [1, 2, 3, 8]);
+    assert.deepEqual(versions('mcp'), [4, 7]);
+    assert.deepEqual(versions('web'), [6]);
+  });
+});
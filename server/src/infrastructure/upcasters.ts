@@ -0,0 +1,73 @@
+import type { EventMetadata } from '../types.js';
+
+// Stored event payloads are never rewritten. When the shape of an event's
+// event_data changes, bump its entry in CURRENT_SCHEMA_VERSIONS and register
+// an upcaster that turns a payload of the previous version into the next one.
+// Events are upcast as they are read, so applyEvent and every other consumer
+// only ever sees the current shape.
+
+export interface StoredPayload {
+  event_data: Record<string, unknown>;
+  metadata?: EventMetadata;
+}
+
+type Upcaster = (payload: StoredPayload) => StoredPayload;
+
+// Event types not listed here are at version 1
+const CURRENT_SCHEMA_VERSIONS: Record<string, number> = {};
+
+// upcasters[eventType][n] migrates a payload from version n to n + 1
+const upcasters: Record<string, Record<number, Upcaster>> = {};
+
+export function registerUpcaster(eventType: string, fromVersion: number, upcast: Upcaster): void {
+  upcasters[eventType] ??= {};
+  upcasters[eventType][fromVersion] = upcast;
+  CURRENT_SCHEMA_VERSIONS[eventType] = Math.max(CURRENT_SCHEMA_VERSIONS[eventType] ?? 1, fromVersion + 1);
+}
+
+export function currentSchemaVersion(eventType: string): number {
+  return CURRENT_SCHEMA_VERSIONS[eventType] ?? 1;
+}
+
+// Runs every upcaster between the stored version and the current one
+export function upcast(eventType: string, schemaVersion: number, payload: StoredPayload): StoredPayload {
+  const target = currentSchemaVersion(eventType);
+  let current = payload;
+  for (let version = schemaVersion; version < target; version++) {
+    const step = upcasters[eventType]?.[version];
+    if (!step) {
+      throw new Error(`No upcaster for ${eventType} from schema version ${version}`);
+    }
+    current = step(current);
+  }
+  return current;
+}
+
+// Version 2 of project events: provenance moved from an ad-hoc _source key in
+// event_data into the metadata envelope
+const PROJECT_EVENT_TYPES_V2 = [
+  'ProjectCreated',
+  'ProjectRenamed',
+  'ProjectDescriptionUpdated',
+  'ProjectDeleted',
+  'ColumnAdded',
+  'ColumnRenamed',
+  'ColumnMoved',
+  'ColumnDeleted',
+  'CardAdded',
+  'CardUpdated',
+  'CardMoved',
+  'CardDeleted',
+  'DependencyAdded',
+  'DependencyRemoved'
+];
+
+for (const eventType of PROJECT_EVENT_TYPES_V2) {
+  registerUpcaster(eventType, 1, ({ event_data, metadata }) => {
+    const { _source, ...data } = event_data;
+    if (metadata || _source === undefined) {
+      return { event_data: data, metadata };
+    }
+    return { event_data: data, metadata: { source: _source === 'mcp' ? 'mcp' : 'api' } };
+  });
+}
@@ -0,0 +1,124 @@
+import { createHmac } from 'crypto';
+import type { DueDelivery, WebhookStore } from './webhooks.js';
+
+const POLL_INTERVAL_MS = 1000;
+const BATCH_SIZE = 20;
+const REQUEST_TIMEOUT_MS = 10_000;
+
+// A claimed delivery is not picked up again until the request has had time
+// to finish
+const CLAIM_LEASE_MS = REQUEST_TIMEOUT_MS * 3;
+
+// Failed attempts are retried after 10s, 20s, 40s, ... up to an hour apart.
+// After MAX_ATTEMPTS the delivery is marked failed and stays in the log.
+const MAX_ATTEMPTS = 10;
+const BASE_RETRY_DELAY_MS = 10_000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export const SIGNATURE_HEADER = 'X-Yakataka-Signature';
+
+// Receivers recompute this over the raw request body with their secret
+export function signPayload(secret: string, body: string): string {
+  return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(BASE_RETRY_DELAY_MS * 2 ** (attempts - 1), MAX_RETRY_DELAY_MS);
+}
+
+// Drains the webhook outbox in the background. Events are only ever queued by
+// the event store, so a slow or failing receiver never delays a write.
+export class WebhookDispatcher {
+  private timer: NodeJS.Timeout | undefined;
+  private dispatching = false;
+
+  constructor(private readonly webhooks: WebhookStore) {}
+
+  start(): void {
+    if (this.timer) {
+      return;
+    }
+    this.timer = setInterval(() => {
+      this.dispatchDue().catch(err => console.error('Webhook dispatch failed:', err));
+    }, POLL_INTERVAL_MS);
+    this.timer.unref();
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  // Sends every delivery that is due, one batch at a time. Returns how many
+  // were attempted.
+  async dispatchDue(): Promise<number> {
+    if (this.dispatching) {
+      return 0;
+    }
+    this.dispatching = true;
+    try {
+      let attempted = 0;
+      let due = this.claimDue();
+      while (due.length > 0) {
+        await Promise.all(due.map(delivery => this.deliver(delivery)));
+        attempted += due.length;
+        due = this.claimDue();
+      }
+      return attempted;
+    } finally {
+      this.dispatching = false;
+    }
+  }
+
+  private claimDue(): DueDelivery[] {
+    const now = Date.now();
+    const leaseUntil = new Date(now + CLAIM_LEASE_MS).toISOString();
+    return this.webhooks
+      .getDueDeliveries(new Date(now).toISOString(), BATCH_SIZE)
+      .filter(delivery => this.webhooks.claim(delivery, leaseUntil));
+  }
+
+  private async deliver(delivery: DueDelivery): Promise<void> {
+    let responseStatus: number | undefined;
+    let error: string | undefined;
+    try {
+      const response = await fetch(delivery.url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Yakataka-Webhooks',
+          'X-Yakataka-Event': delivery.event_type,
+          'X-Yakataka-Delivery': String(delivery.id),
+          [SIGNATURE_HEADER]: signPayload(delivery.secret, delivery.payload)
+        },
+        body: delivery.payload,
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS)
+      });
+      responseStatus = response.status;
+      if (!response.ok) {
+        error = `Receiver responded with ${response.status}`;
+      }
+    } catch (err) {
+      error = (err as Error).message;
+    }
+
+    const attemptedAt = new Date().toISOString();
+    if (!error) {
+      this.webhooks.recordAttempt(delivery.id, { status: 'delivered', attemptedAt, responseStatus });
+      return;
+    }
+
+    const attempts = delivery.attempts + 1;
+    if (attempts >= MAX_ATTEMPTS) {
+      this.webhooks.recordAttempt(delivery.id, { status: 'failed', attemptedAt, responseStatus, error });
+      return;
+    }
+    this.webhooks.recordAttempt(delivery.id, {
+      status: 'pending',
+      attemptedAt,
+      nextAttemptAt: new Date(Date.now() + retryDelay(attempts)).toISOString(),
+      responseStatus,
+      error
+    });
+  }
+}
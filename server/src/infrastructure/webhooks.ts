@@ -0,0 +1,240 @@
+import type { Database, Statement } from 'better-sqlite3';
+import type { DomainEvent } from '../types.js';
+
+export interface Webhook {
+  id: string;
+  workspace_id: string;
+  project_id: string | null;
+  url: string;
+  event_types: string[] | null; // null: every event type
+  created_at: string;
+}
+
+export type DeliveryStatus = 'pending' | 'delivered' | 'failed';
+
+export interface WebhookDelivery {
+  id: number;
+  webhook_id: string;
+  event_id: number;
+  event_type: string;
+  status: DeliveryStatus;
+  attempts: number;
+  next_attempt_at: string;
+  last_attempt_at: string | null;
+  response_status: number | null;
+  last_error: string | null;
+  created_at: string;
+}
+
+// A delivery that is due, with what the dispatcher needs to send it
+export interface DueDelivery extends WebhookDelivery {
+  url: string;
+  secret: string;
+  payload: string;
+}
+
+export interface DeliveryQuery {
+  status?: DeliveryStatus;
+  beforeId?: number;
+  limit: number;
+}
+
+// Outcome of one attempt. A pending delivery is retried at nextAttemptAt.
+export interface DeliveryAttempt {
+  status: DeliveryStatus;
+  attemptedAt: string;
+  nextAttemptAt?: string;
+  responseStatus?: number;
+  error?: string;
+}
+
+interface WebhookRow {
+  id: string;
+  workspace_id: string;
+  project_id: string | null;
+  url: string;
+  secret: string;
+  event_types: string | null;
+  created_at: string;
+}
+
+// Webhook subscriptions and their outbox. enqueue runs inside the transaction
+// that stores the event, so a delivery exists if and only if the event does;
+// sending happens later in the WebhookDispatcher.
+export class WebhookStore {
+  private readonly insertWebhookStmt: Statement;
+  private readonly getWebhookStmt: Statement;
+  private readonly getWebhooksByWorkspaceStmt: Statement;
+  private readonly deleteWebhookStmt: Statement;
+  private readonly deleteDeliveriesStmt: Statement;
+  private readonly getSubscribersStmt: Statement;
+  private readonly insertDeliveryStmt: Statement;
+  private readonly getDueDeliveriesStmt: Statement;
+  private readonly claimDeliveryStmt: Statement;
+  private readonly recordAttemptStmt: Statement;
+
+  constructor(private readonly db: Database) {
+    this.insertWebhookStmt = db.prepare(`
+      INSERT INTO webhooks (id, workspace_id, project_id, url, secret, event_types, created_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `);
+
+    this.getWebhookStmt = db.prepare(`SELECT * FROM webhooks WHERE id = ?`);
+
+    this.getWebhooksByWorkspaceStmt = db.prepare(`
+      SELECT * FROM webhooks WHERE workspace_id = ? ORDER BY created_at ASC, rowid ASC
+    `);
+
+    this.deleteWebhookStmt = db.prepare(`DELETE FROM webhooks WHERE id = ?`);
+
+    this.deleteDeliveriesStmt = db.prepare(`DELETE FROM webhook_deliveries WHERE webhook_id = ?`);
+
+    this.getSubscribersStmt = db.prepare(`
+      SELECT * FROM webhooks
+      WHERE workspace_id = ? AND (project_id IS NULL OR project_id = ?)
+    `);
+
+    this.insertDeliveryStmt = db.prepare(`
+      INSERT INTO webhook_deliveries (webhook_id, event_id, event_type, payload, next_attempt_at, created_at)
+      VALUES (?, ?, ?, ?, ?, ?)
+    `);
+
+    this.getDueDeliveriesStmt = db.prepare(`
+      SELECT d.*, w.url, w.secret FROM webhook_deliveries d
+      JOIN webhooks w ON w.id = d.webhook_id
+      WHERE d.status = 'pending' AND d.next_attempt_at <= ?
+      ORDER BY d.id ASC
+      LIMIT ?
+    `);
+
+    this.claimDeliveryStmt = db.prepare(`
+      UPDATE webhook_deliveries SET next_attempt_at = ?
+      WHERE id = ? AND status = 'pending' AND next_attempt_at = ?
+    `);
+
+    this.recordAttemptStmt = db.prepare(`
+      UPDATE webhook_deliveries
+      SET status = ?, attempts = attempts + 1, last_attempt_at = ?, next_attempt_at = COALESCE(?, next_attempt_at),
+          response_status = ?, last_error = ?
+      WHERE id = ?
+    `);
+  }
+
+  create(webhook: Webhook & { secret: string }): Webhook & { secret: string } {
+    this.insertWebhookStmt.run(
+      webhook.id,
+      webhook.workspace_id,
+      webhook.project_id,
+      webhook.url,
+      webhook.secret,
+      webhook.event_types ? JSON.stringify(webhook.event_types) : null,
+      webhook.created_at
+    );
+    return webhook;
+  }
+
+  get(webhookId: string): Webhook | undefined {
+    const row = this.getWebhookStmt.get(webhookId) as WebhookRow | undefined;
+    return row && this.toWebhook(row);
+  }
+
+  getByWorkspace(workspaceId: string): Webhook[] {
+    const rows = this.getWebhooksByWorkspaceStmt.all(workspaceId) as WebhookRow[];
+    return rows.map(row => this.toWebhook(row));
+  }
+
+  // Removes the subscription together with its outbox and delivery log
+  delete(webhookId: string): boolean {
+    return this.db.transaction(() => {
+      this.deleteDeliveriesStmt.run(webhookId);
+      return this.deleteWebhookStmt.run(webhookId).changes > 0;
+    })();
+  }
+
+  // Queues the event for every subscription of its workspace and project whose
+  // filter accepts it. The payload is frozen now, as the event was committed.
+  enqueue(event: DomainEvent, workspaceId: string | undefined): void {
+    if (!workspaceId) {
+      return;
+    }
+    const projectId = event.aggregate_type === 'project' ? event.aggregate_id : null;
+    const rows = this.getSubscribersStmt.all(workspaceId, projectId) as WebhookRow[];
+    const now = new Date().toISOString();
+    for (const row of rows) {
+      const webhook = this.toWebhook(row);
+      if (webhook.event_types && !webhook.event_types.includes(event.event_type)) {
+        continue;
+      }
+      const payload = JSON.stringify({
+        webhook_id: webhook.id,
+        workspace_id: workspaceId,
+        event: {
+          id: event.id,
+          aggregate_type: event.aggregate_type,
+          aggregate_id: event.aggregate_id,
+          event_type: event.event_type,
+          event_data: event.event_data,
+          version: event.version,
+          timestamp: event.timestamp,
+          metadata: event.metadata ?? null
+        }
+      });
+      this.insertDeliveryStmt.run(webhook.id, event.id, event.event_type, payload, now, now);
+    }
+  }
+
+  getDueDeliveries(now: string, limit: number): DueDelivery[] {
+    return this.getDueDeliveriesStmt.all(now, limit) as DueDelivery[];
+  }
+
+  // Pushes the delivery's next attempt out to leaseUntil, unless another
+  // dispatcher got to it first. Only the dispatcher that claimed it sends it,
+  // and if that one dies the delivery becomes due again once the lease ends.
+  claim(delivery: DueDelivery, leaseUntil: string): boolean {
+    return this.claimDeliveryStmt.run(leaseUntil, delivery.id, delivery.next_attempt_at).changes > 0;
+  }
+
+  recordAttempt(deliveryId: number, attempt: DeliveryAttempt): void {
+    this.recordAttemptStmt.run(
+      attempt.status,
+      attempt.attemptedAt,
+      attempt.nextAttemptAt ?? null,
+      attempt.responseStatus ?? null,
+      attempt.error ?? null,
+      deliveryId
+    );
+  }
+
+  // Delivery log of one webhook, newest first
+  getDeliveries(webhookId: string, query: DeliveryQuery): WebhookDelivery[] {
+    const conditions = ['webhook_id = ?'];
+    const params: unknown[] = [webhookId];
+    if (query.status) {
+      conditions.push('status = ?');
+      params.push(query.status);
+    }
+    if (query.beforeId) {
+      conditions.push('id < ?');
+      params.push(query.beforeId);
+    }
+    return this.db.prepare(`
+      SELECT id, webhook_id, event_id, event_type, status, attempts, next_attempt_at, last_attempt_at,
+             response_status, last_error, created_at
+      FROM webhook_deliveries
+      WHERE ${conditions.join(' AND ')}
+      ORDER BY id DESC
+      LIMIT ?
+    `).all(...params, query.limit) as WebhookDelivery[];
+  }
+
+  private toWebhook(row: WebhookRow): Webhook {
+    return {
+      id: row.id,
+      workspace_id: row.workspace_id,
+      project_id: row.project_id,
+      url: row.url,
+      event_types: row.event_types ? JSON.parse(row.event_types) : null,
+      created_at: row.created_at
+    };
+  }
+}
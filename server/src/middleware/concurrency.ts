@@ -0,0 +1,59 @@
+import type { Request, Response, NextFunction } from 'express';
+import { ConcurrencyError } from '../infrastructure/eventStore.js';
+
+const IF_MATCH_RE = /^(?:W\/)?"?(\d+)"?$/;
+
+export function setVersionHeader(res: Response, version: number): void {
+  res.setHeader('ETag', `"${version}"`);
+}
+
+function sendConflict(res: Response, message: string, currentVersion: number): void {
+  setVersionHeader(res, currentVersion);
+  res.status(409).json({ error: message, current_version: currentVersion });
+}
+
+// Version the client expects the aggregate to be at, taken from If-Match or
+// expected_version. Undefined when the client asked for no check, null when malformed.
+export function getExpectedVersion(req: Request): number | null | undefined {
+  const ifMatch = req.headers['if-match'];
+  if (ifMatch !== undefined && ifMatch.trim() !== '*') {
+    const match = IF_MATCH_RE.exec(ifMatch.trim());
+    return match ? parseInt(match[1], 10) : null;
+  }
+
+  const raw = req.body?.expected_version ?? req.query.expected_version;
+  if (raw === undefined) {
+    return undefined;
+  }
+  const version = Number(raw);
+  return Number.isInteger(version) && version >= 0 ? version : null;
+}
+
+// Responds with 400 or 409 and returns false when the request cannot proceed
+export function checkExpectedVersion(req: Request, res: Response, aggregate: { getVersion(): number }): boolean {
+  const expectedVersion = getExpectedVersion(req);
+  if (expectedVersion === null) {
+    res.status(400).json({ error: 'If-Match or expected_version must be a version number' });
+    return false;
+  }
+  const currentVersion = aggregate.getVersion();
+  if (expectedVersion !== undefined && expectedVersion !== currentVersion) {
+    sendConflict(
+      res,
+      `Concurrency conflict: expected version ${expectedVersion}, current version is ${currentVersion}`,
+      currentVersion
+    );
+    return false;
+  }
+  return true;
+}
+
+// Turns conflicts detected by the event store (two writers racing on the same
+// version) into a 409 instead of an unhandled 500
+export function concurrencyErrorHandler(err: unknown, req: Request, res: Response, next: NextFunction): void {
+  if (err instanceof ConcurrencyError) {
+    sendConflict(res, err.message, err.currentVersion);
+    return;
+  }
+  next(err);
+}
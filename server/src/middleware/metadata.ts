@@ -0,0 +1,42 @@
+import type { Request, Response, NextFunction } from 'express';
+import { v4 as uuidv4 } from 'uuid';
+import type { EventMetadata, EventSource } from '../types.js';
+
+const EVENT_SOURCES: EventSource[] = ['web', 'mcp', 'api', 'automation'];
+
+declare global {
+  namespace Express {
+    interface Request {
+      eventMetadata?: EventMetadata;
+    }
+  }
+}
+
+// Builds the metadata for events committed while serving the request from the
+// X-Source, X-Actor-Id and X-Actor-Name headers. The correlation id is taken
+// from X-Correlation-Id or generated, and echoed back to the client.
+export function eventMetadata(req: Request, res: Response, next: NextFunction): void {
+  const source = req.header('X-Source') as EventSource | undefined;
+  const correlationId = req.header('X-Correlation-Id') || uuidv4();
+  res.setHeader('X-Correlation-Id', correlationId);
+
+  const metadata: EventMetadata = {
+    source: source && EVENT_SOURCES.includes(source) ? source : 'api',
+    correlation_id: correlationId
+  };
+  const actorId = req.header('X-Actor-Id');
+  const actorName = req.header('X-Actor-Name');
+  if (actorId) {
+    metadata.actor_id = actorId;
+  }
+  if (actorName) {
+    metadata.actor_name = actorName;
+  }
+  req.eventMetadata = metadata;
+  next();
+}
+
+// The eventMetadata middleware runs before every route
+export function getEventMetadata(req: Request): EventMetadata {
+  return req.eventMetadata!;
+}
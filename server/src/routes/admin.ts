@@ -0,0 +1,127 @@
+import { Router } from 'express';
+import { rebuildProjectSnapshots } from '../domain/project/aggregate.js';
+import { verifyEventLog } from '../domain/integrity.js';
+import { getEventMetadata } from '../middleware/metadata.js';
+import { getServerStores } from '../infrastructure/stores.js';
+import { runRetention, RetentionPolicy } from '../infrastructure/retention.js';
+import { BackupError } from '../infrastructure/backups.js';
+
+const { events: eventStore, retention, backups } = getServerStores();
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+// Admin operations act on every workspace, so they require ADMIN_TOKEN to be
+// configured and sent as a bearer token
+router.use((req, res, next) => {
+  const adminToken = process.env.ADMIN_TOKEN;
+  if (!adminToken) {
+    return res.status(403).json({ error: 'Admin API is disabled' });
+  }
+  if (req.headers.authorization !== `Bearer ${adminToken}`) {
+    return res.status(401).json({ error: 'Invalid admin token' });
+  }
+  next();
+});
+
+// Rebuild all project snapshots from the event log
+router.post('/snapshots/rebuild', (req, res) => {
+  const count = rebuildProjectSnapshots();
+  res.json({ rebuilt: count });
+});
+
+// Rebuild the read-model tables from the event log
+router.post('/projections/rebuild', (req, res) => {
+  const count = eventStore.syncProjections(true);
+  res.json({ replayed: count });
+});
+
+// Replay every aggregate and report invariant violations
+router.get('/integrity', (req, res) => {
+  res.json(verifyEventLog());
+});
+
+// Same as above, then append corrective events for the violations that can be
+// fixed without rewriting history
+router.post('/integrity/repair', (req, res) => {
+  res.json(verifyEventLog({ repair: true, metadata: getEventMetadata(req) }));
+});
+
+// Purge old deleted projects and drop idle empty workspaces. Runs dry, only
+// reporting what it would remove, unless dry_run is false.
+router.post('/retention', (req, res) => {
+  const { deleted_project_days, idle_workspace_days, archive, dry_run } = req.body;
+  for (const [field, value] of Object.entries({ deleted_project_days, idle_workspace_days })) {
+    if (value !== undefined && (!Number.isInteger(value) || value < 0)) {
+      return res.status(400).json({ error: `${field} must be a non-negative integer` });
+    }
+  }
+  if (deleted_project_days === undefined && idle_workspace_days === undefined) {
+    return res.status(400).json({ error: 'deleted_project_days or idle_workspace_days is required' });
+  }
+  if (archive !== undefined && typeof archive !== 'boolean') {
+    return res.status(400).json({ error: 'archive must be a boolean' });
+  }
+  if (dry_run !== undefined && typeof dry_run !== 'boolean') {
+    return res.status(400).json({ error: 'dry_run must be a boolean' });
+  }
+  const policy: RetentionPolicy = {
+    ...(deleted_project_days !== undefined && { deleted_project_days }),
+    ...(idle_workspace_days !== undefined && { idle_workspace_days }),
+    ...(archive && { archive })
+  };
+  res.json(runRetention(retention, policy, dry_run ?? true));
+});
+
+// Record of past retention runs, most recent first
+router.get('/retention/runs', (req, res) => {
+  const { limit } = req.query;
+  const pageSize = limit !== undefined ? parseInt(limit as string, 10) : DEFAULT_PAGE_SIZE;
+  if (!Number.isInteger(pageSize) || pageSize < 1) {
+    return res.status(400).json({ error: 'limit must be a positive number' });
+  }
+  res.json(retention.getRuns(Math.min(pageSize, MAX_PAGE_SIZE)));
+});
+
+// Back up the database now
+router.post('/backups', async (req, res, next) => {
+  try {
+    res.status(201).json(await backups.backup());
+  } catch (err) {
+    next(err);
+  }
+});
+
+// Backups on disk, newest first
+router.get('/backups', (req, res) => {
+  res.json(backups.list());
+});
+
+// A backup and the result of validating it
+router.get('/backups/:name', (req, res) => {
+  const backup = backups.get(req.params.name);
+  if (!backup) {
+    return res.status(404).json({ error: 'Backup not found' });
+  }
+  res.json({ ...backup, validation: backups.validate(backup.path) });
+});
+
+// Replace the database with a backup. The current state is backed up first.
+router.post('/backups/:name/restore', async (req, res, next) => {
+  const backup = backups.get(req.params.name);
+  if (!backup) {
+    return res.status(404).json({ error: 'Backup not found' });
+  }
+  try {
+    res.json(await backups.restore(backup.path));
+  } catch (err) {
+    if (err instanceof BackupError) {
+      return res.status(422).json({ error: err.message });
+    }
+    next(err);
+  }
+});
+
+export default router;
@@ -0,0 +1,109 @@
+import { Router } from 'express';
+import type { Request, Response } from 'express';
+import { queryAuditLog } from '../domain/audit.js';
+import type { EventQuery } from '../infrastructure/eventStore.js';
+import { getServerStores } from '../infrastructure/stores.js';
+
+const { events: eventStore } = getServerStores();
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const EVENT_SOURCES = ['web', 'mcp', 'api', 'automation'];
+
+const POSITIVE_INTEGER_RE = /^[1-9]\d*$/;
+
+// Filters that take one value. Repeated parameters arrive as arrays and
+// bracketed ones as objects, and neither is accepted.
+const SINGLE_VALUE_PARAMS = ['source', 'actor', 'card_id', 'column_id', 'since', 'until', 'cursor', 'limit'];
+
+function parseTime(value: string | undefined): string | null | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  const time = Date.parse(value);
+  return isNaN(time) ? null : new Date(time).toISOString();
+}
+
+function parsePositiveInteger(value: string): number | null {
+  return POSITIVE_INTEGER_RE.test(value) ? parseInt(value, 10) : null;
+}
+
+// Reads the filters shared by the project and workspace audit logs. Sends a
+// 400 and returns null if any of them is malformed.
+function parseAuditQuery(req: Request, res: Response): Omit<EventQuery, 'projectId' | 'workspaceId'> | null {
+  for (const param of SINGLE_VALUE_PARAMS) {
+    const value = req.query[param];
+    if (value !== undefined && typeof value !== 'string') {
+      res.status(400).json({ error: `${param} must be a single value` });
+      return null;
+    }
+  }
+  const query = req.query as Record<string, string | undefined>;
+  const { source, actor, card_id, column_id } = query;
+  const since = parseTime(query.since);
+  const until = parseTime(query.until);
+  const beforeId = query.cursor !== undefined ? parsePositiveInteger(query.cursor) : undefined;
+  const pageSize = query.limit !== undefined ? parsePositiveInteger(query.limit) : DEFAULT_PAGE_SIZE;
+  const types = req.query.type === undefined ? undefined : [req.query.type].flat();
+
+  if (since === null || until === null) {
+    res.status(400).json({ error: 'since and until must be timestamps' });
+    return null;
+  }
+  if (source !== undefined && !EVENT_SOURCES.includes(source)) {
+    res.status(400).json({ error: `source must be one of ${EVENT_SOURCES.join(', ')}` });
+    return null;
+  }
+  if (beforeId === null) {
+    res.status(400).json({ error: 'cursor must be an event id' });
+    return null;
+  }
+  if (pageSize === null) {
+    res.status(400).json({ error: 'limit must be a positive number' });
+    return null;
+  }
+  if (types?.some(t => typeof t !== 'string')) {
+    res.status(400).json({ error: 'type must be an event type' });
+    return null;
+  }
+
+  return {
+    // type may be repeated or comma-separated
+    eventTypes: types ? (types as string[]).flatMap(t => t.split(',')).filter(Boolean) : undefined,
+    source,
+    actor,
+    cardId: card_id,
+    columnId: column_id,
+    since,
+    until,
+    beforeId,
+    limit: Math.min(pageSize, MAX_PAGE_SIZE)
+  };
+}
+
+// Audit log of one project: filterable by type, source, actor, card, column and
+// time range, newest first, paged with the returned next_cursor
+router.get('/projects/:id/audit', (req, res) => {
+  if (eventStore.getLatestVersion('project', req.params.id) === 0) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  const query = parseAuditQuery(req, res);
+  if (!query) {
+    return;
+  }
+  res.json(queryAuditLog({ ...query, projectId: req.params.id }));
+});
+
+// Audit log of a workspace and every project in it, with the same filters
+router.get('/workspaces/:uuid/audit', (req, res) => {
+  const query = parseAuditQuery(req, res);
+  if (!query) {
+    return;
+  }
+  res.json(queryAuditLog({ ...query, workspaceId: req.params.uuid }));
+});
+
+export default router;
@@ -1,9 +1,17 @@
 import { Router } from 'express';
 import { loadProject, getProjectsByWorkspace } from '../domain/project/aggregate.js';
-import { eventStore } from '../infrastructure/eventStore.js';
+import { isDate } from '../domain/project/dates.js';
+import { checkExpectedVersion, setVersionHeader } from '../middleware/concurrency.js';
+import { getEventMetadata } from '../middleware/metadata.js';
+import { getServerStores } from '../infrastructure/stores.js';
+import type { Priority } from '../types.js';
+
+const { events: eventStore } = getServerStores();
 
 const router = Router();
 
+const PRIORITIES: ReadonlySet<string> = new Set<Priority>(['P0', 'P1', 'P2', 'P3']);
+
 // Helper to find project containing a card
 function findProjectForCard(cardId: string, workspaceId?: string): { aggregate: ReturnType<typeof loadProject>; card: NonNullable<ReturnType<ReturnType<typeof loadProject>['getCard']>> } | null {
   // If workspaceId provided, search in that workspace's projects
@@ -20,81 +28,162 @@ function findProjectForCard(cardId: string, workspaceId?: string): { aggregate:
   return null;
 }
 
+// start_date and due_date may each be left out, a YYYY-MM-DD date or null to
+// clear it. Returns an error message, checked against the card's current
+// dates if it has any.
+function checkDates(
+  body: { start_date?: unknown; due_date?: unknown },
+  current: { start_date?: string; due_date?: string } = {}
+): string | null {
+  for (const field of ['start_date', 'due_date'] as const) {
+    if (body[field] !== undefined && body[field] !== null && !isDate(body[field])) {
+      return `${field} must be a date such as 2024-05-31, or null`;
+    }
+  }
+  const startDate = body.start_date !== undefined ? body.start_date : current.start_date;
+  const dueDate = body.due_date !== undefined ? body.due_date : current.due_date;
+  if (startDate && dueDate && (startDate as string) > (dueDate as string)) {
+    return 'Start date must not be after due date';
+  }
+  return null;
+}
+
+// priority and estimate may each be left out, or null to clear them
+function checkPlan(body: { priority?: unknown; estimate?: unknown }): string | null {
+  if (body.priority !== undefined && body.priority !== null && !PRIORITIES.has(body.priority as string)) {
+    return 'priority must be P0, P1, P2, P3 or null';
+  }
+  if (body.estimate !== undefined && body.estimate !== null
+    && (typeof body.estimate !== 'number' || !Number.isFinite(body.estimate) || body.estimate < 0)) {
+    return 'estimate must be a number of at least 0, or null';
+  }
+  return null;
+}
+
 // Create card in column
 router.post('/columns/:columnId/cards', (req, res) => {
-  const { title, description, position, project_id } = req.body;
-  const source = (req as any).source;
+  const { title, description, position, project_id, external_id, start_date, due_date } = req.body;
   if (!title) {
     return res.status(400).json({ error: 'Title is required' });
   }
+  const datesError = checkDates(req.body);
+  if (datesError) {
+    return res.status(400).json({ error: datesError });
+  }
   if (!project_id) {
     return res.status(400).json({ error: 'project_id is required' });
   }
-  const aggregate = loadProject(project_id);
+  const aggregate = loadProject(project_id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
   const column = aggregate.getColumn(req.params.columnId);
   if (!column) {
     return res.status(404).json({ error: 'Column not found' });
   }
-  const card = aggregate.addCard(req.params.columnId, title, description || '', position, source);
+  if (external_id !== undefined && typeof external_id !== 'string') {
+    return res.status(400).json({ error: 'external_id must be a string' });
+  }
+  if (external_id !== undefined && aggregate.findCardByExternalId(external_id)) {
+    return res.status(409).json({ error: 'A card with this external id already exists' });
+  }
+  const card = aggregate.command(() => {
+    const added = aggregate.addCard(req.params.columnId, title, description || '', position, external_id);
+    if (start_date || due_date) {
+      aggregate.scheduleCard(added.id, { start_date, due_date });
+    }
+    return aggregate.getCard(added.id)!;
+  });
+  setVersionHeader(res, aggregate.getVersion());
   res.status(201).json(card);
 });
 
 // Update card
 router.put('/cards/:id', (req, res) => {
-  const { title, description, column_id, position, project_id } = req.body;
-  const source = (req as any).source;
+  const { title, description, column_id, position, project_id, start_date, due_date, priority, estimate } = req.body;
   if (!project_id) {
     return res.status(400).json({ error: 'project_id is required' });
   }
-  const aggregate = loadProject(project_id);
+  const aggregate = loadProject(project_id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
   const card = aggregate.getCard(req.params.id);
   if (!card) {
     return res.status(404).json({ error: 'Card not found' });
   }
-
-  // Update title/description if provided
-  if (title !== undefined || description !== undefined) {
-    aggregate.updateCard(req.params.id, {
-      ...(title !== undefined && { title }),
-      ...(description !== undefined && { description })
-    }, source);
+  const datesError = checkDates(req.body, card);
+  if (datesError) {
+    return res.status(400).json({ error: datesError });
   }
-
-  // Move card if column_id or position provided
-  if (column_id !== undefined || position !== undefined) {
-    aggregate.moveCard(
-      req.params.id,
-      column_id ?? card.column_id,
-      position,
-      source
-    );
+  const planError = checkPlan(req.body);
+  if (planError) {
+    return res.status(400).json({ error: planError });
   }
 
+  // Field changes and the move are committed together
+  aggregate.command(() => {
+    // Update title/description if provided
+    if (title !== undefined || description !== undefined) {
+      aggregate.updateCard(req.params.id, {
+        ...(title !== undefined && { title }),
+        ...(description !== undefined && { description })
+      });
+    }
+
+    if (start_date !== undefined || due_date !== undefined) {
+      aggregate.scheduleCard(req.params.id, {
+        ...(start_date !== undefined && { start_date }),
+        ...(due_date !== undefined && { due_date })
+      });
+    }
+
+    if (priority !== undefined || estimate !== undefined) {
+      aggregate.planCard(req.params.id, {
+        ...(priority !== undefined && { priority }),
+        ...(estimate !== undefined && { estimate })
+      });
+    }
+
+    // Move card if column_id or position provided
+    if (column_id !== undefined || position !== undefined) {
+      aggregate.moveCard(
+        req.params.id,
+        column_id ?? card.column_id,
+        position
+      );
+    }
+  });
+
+  setVersionHeader(res, aggregate.getVersion());
   res.json(aggregate.getCard(req.params.id));
 });
 
 // Delete card
 router.delete('/cards/:id', (req, res) => {
   const { project_id } = req.body;
-  const source = (req as any).source;
   if (!project_id) {
     return res.status(400).json({ error: 'project_id is required' });
   }
-  const aggregate = loadProject(project_id);
+  const aggregate = loadProject(project_id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
   const card = aggregate.getCard(req.params.id);
   if (!card) {
     return res.status(404).json({ error: 'Card not found' });
   }
-  aggregate.deleteCard(req.params.id, source);
+  aggregate.deleteCard(req.params.id);
+  setVersionHeader(res, aggregate.getVersion());
   res.status(204).send();
 });
 
@@ -104,7 +193,7 @@ router.get('/cards/:id/events', (req, res) => {
   if (!project_id || typeof project_id !== 'string') {
     return res.status(400).json({ error: 'project_id query parameter is required' });
   }
-  const aggregate = loadProject(project_id);
+  const aggregate = loadProject(project_id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
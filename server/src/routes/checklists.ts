@@ -0,0 +1,107 @@
+import { Router } from 'express';
+import { loadProject } from '../domain/project/aggregate.js';
+import { checkExpectedVersion, setVersionHeader } from '../middleware/concurrency.js';
+import { getEventMetadata } from '../middleware/metadata.js';
+
+const router = Router();
+
+function isPosition(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+// Add item to the card's checklist, at the end unless a position is given
+router.post('/cards/:id/checklist', (req, res) => {
+  const { text, position, project_id } = req.body;
+  if (!text || typeof text !== 'string' || !text.trim()) {
+    return res.status(400).json({ error: 'Text is required' });
+  }
+  if (position !== undefined && !isPosition(position)) {
+    return res.status(400).json({ error: 'position must be a whole number of at least 0' });
+  }
+  if (!project_id) {
+    return res.status(400).json({ error: 'project_id is required' });
+  }
+  const aggregate = loadProject(project_id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+  if (!aggregate.getCard(req.params.id)) {
+    return res.status(404).json({ error: 'Card not found' });
+  }
+  const item = aggregate.addChecklistItem(req.params.id, text.trim(), position);
+  setVersionHeader(res, aggregate.getVersion());
+  res.status(201).json(item);
+});
+
+// Rename, check or uncheck, and move checklist item
+router.put('/cards/:id/checklist/:itemId', (req, res) => {
+  const { text, checked, position, project_id } = req.body;
+  if (text !== undefined && (typeof text !== 'string' || !text.trim())) {
+    return res.status(400).json({ error: 'Text must not be empty' });
+  }
+  if (checked !== undefined && typeof checked !== 'boolean') {
+    return res.status(400).json({ error: 'checked must be true or false' });
+  }
+  if (position !== undefined && !isPosition(position)) {
+    return res.status(400).json({ error: 'position must be a whole number of at least 0' });
+  }
+  if (!project_id) {
+    return res.status(400).json({ error: 'project_id is required' });
+  }
+  const aggregate = loadProject(project_id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+  if (!aggregate.getCard(req.params.id)) {
+    return res.status(404).json({ error: 'Card not found' });
+  }
+  if (!aggregate.getChecklistItem(req.params.id, req.params.itemId)) {
+    return res.status(404).json({ error: 'Checklist item not found' });
+  }
+
+  aggregate.command(() => {
+    if (text !== undefined) {
+      aggregate.renameChecklistItem(req.params.id, req.params.itemId, text.trim());
+    }
+    if (checked !== undefined) {
+      aggregate.checkChecklistItem(req.params.id, req.params.itemId, checked);
+    }
+    if (position !== undefined) {
+      aggregate.moveChecklistItem(req.params.id, req.params.itemId, position);
+    }
+  });
+  setVersionHeader(res, aggregate.getVersion());
+  res.json(aggregate.getChecklistItem(req.params.id, req.params.itemId));
+});
+
+// Delete checklist item
+router.delete('/cards/:id/checklist/:itemId', (req, res) => {
+  const { project_id } = req.body;
+  if (!project_id) {
+    return res.status(400).json({ error: 'project_id is required' });
+  }
+  const aggregate = loadProject(project_id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+  if (!aggregate.getCard(req.params.id)) {
+    return res.status(404).json({ error: 'Card not found' });
+  }
+  if (!aggregate.getChecklistItem(req.params.id, req.params.itemId)) {
+    return res.status(404).json({ error: 'Checklist item not found' });
+  }
+  aggregate.deleteChecklistItem(req.params.id, req.params.itemId);
+  setVersionHeader(res, aggregate.getVersion());
+  res.status(204).send();
+});
+
+export default router;
@@ -1,5 +1,7 @@
 import { Router } from 'express';
 import { loadProject } from '../domain/project/aggregate.js';
+import { checkExpectedVersion, setVersionHeader } from '../middleware/concurrency.js';
+import { getEventMetadata } from '../middleware/metadata.js';
 
 const router = Router();
 
@@ -9,11 +11,15 @@ router.post('/projects/:projectId/columns', (req, res) => {
   if (!name) {
     return res.status(400).json({ error: 'Name is required' });
   }
-  const aggregate = loadProject(req.params.projectId);
+  const aggregate = loadProject(req.params.projectId, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
   const column = aggregate.addColumn(name, position);
+  setVersionHeader(res, aggregate.getVersion());
   res.status(201).json(column);
 });
 
@@ -23,20 +29,26 @@ router.put('/columns/:id', (req, res) => {
   if (!project_id) {
     return res.status(400).json({ error: 'project_id is required' });
   }
-  const aggregate = loadProject(project_id);
+  const aggregate = loadProject(project_id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
   const column = aggregate.getColumn(req.params.id);
   if (!column) {
     return res.status(404).json({ error: 'Column not found' });
   }
-  if (name !== undefined) {
-    aggregate.renameColumn(req.params.id, name);
-  }
-  if (position !== undefined) {
-    aggregate.moveColumn(req.params.id, position);
-  }
+  aggregate.command(() => {
+    if (name !== undefined) {
+      aggregate.renameColumn(req.params.id, name);
+    }
+    if (position !== undefined) {
+      aggregate.moveColumn(req.params.id, position);
+    }
+  });
+  setVersionHeader(res, aggregate.getVersion());
   res.json(aggregate.getColumn(req.params.id));
 });
 
@@ -46,15 +58,19 @@ router.delete('/columns/:id', (req, res) => {
   if (!project_id) {
     return res.status(400).json({ error: 'project_id is required' });
   }
-  const aggregate = loadProject(project_id);
+  const aggregate = loadProject(project_id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
   const column = aggregate.getColumn(req.params.id);
   if (!column) {
     return res.status(404).json({ error: 'Column not found' });
   }
   aggregate.deleteColumn(req.params.id);
+  setVersionHeader(res, aggregate.getVersion());
   res.status(204).send();
 });
 
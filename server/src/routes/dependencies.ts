@@ -1,5 +1,10 @@
 import { Router } from 'express';
 import { loadProject } from '../domain/project/aggregate.js';
+import { checkExpectedVersion, setVersionHeader } from '../middleware/concurrency.js';
+import { getEventMetadata } from '../middleware/metadata.js';
+import { getServerStores } from '../infrastructure/stores.js';
+
+const { projections: projectionStore } = getServerStores();
 
 const router = Router();
 
@@ -9,21 +14,14 @@ router.get('/cards/:id/dependencies', (req, res) => {
   if (!project_id || typeof project_id !== 'string') {
     return res.status(400).json({ error: 'project_id query parameter is required' });
   }
-  const aggregate = loadProject(project_id);
-  if (!aggregate.exists()) {
+  if (!projectionStore.getProject(project_id)) {
     return res.status(404).json({ error: 'Project not found' });
   }
-  const card = aggregate.getCard(req.params.id);
-  if (!card) {
+  if (!projectionStore.getCard(project_id, req.params.id)) {
     return res.status(404).json({ error: 'Card not found' });
   }
 
-  // Get the actual card objects for dependencies
-  const dependencies = card.dependencies
-    .map(depId => aggregate.getCard(depId))
-    .filter((c): c is NonNullable<typeof c> => c !== undefined);
-
-  res.json(dependencies);
+  res.json(projectionStore.getDependencies(req.params.id));
 });
 
 // Get cards that depend on this card
@@ -32,38 +30,32 @@ router.get('/cards/:id/dependents', (req, res) => {
   if (!project_id || typeof project_id !== 'string') {
     return res.status(400).json({ error: 'project_id query parameter is required' });
   }
-  const aggregate = loadProject(project_id);
-  if (!aggregate.exists()) {
+  if (!projectionStore.getProject(project_id)) {
     return res.status(404).json({ error: 'Project not found' });
   }
-  const card = aggregate.getCard(req.params.id);
-  if (!card) {
+  if (!projectionStore.getCard(project_id, req.params.id)) {
     return res.status(404).json({ error: 'Card not found' });
   }
 
-  // Find all cards that have this card in their dependencies
-  const project = aggregate.toProject();
-  const dependents = project.columns
-    .flatMap(col => col.cards)
-    .filter(c => c.dependencies.includes(req.params.id));
-
-  res.json(dependents);
+  res.json(projectionStore.getDependents(req.params.id));
 });
 
 // Add dependency
 router.post('/cards/:id/dependencies', (req, res) => {
   const { depends_on_card_id, project_id } = req.body;
-  const source = (req as any).source;
   if (!depends_on_card_id) {
     return res.status(400).json({ error: 'depends_on_card_id is required' });
   }
   if (!project_id) {
     return res.status(400).json({ error: 'project_id is required' });
   }
-  const aggregate = loadProject(project_id);
+  const aggregate = loadProject(project_id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
   const card = aggregate.getCard(req.params.id);
   if (!card) {
     return res.status(404).json({ error: 'Card not found' });
@@ -74,7 +66,8 @@ router.post('/cards/:id/dependencies', (req, res) => {
   }
 
   try {
-    aggregate.addDependency(req.params.id, depends_on_card_id, source);
+    aggregate.addDependency(req.params.id, depends_on_card_id);
+    setVersionHeader(res, aggregate.getVersion());
     res.status(201).json(aggregate.getCard(req.params.id));
   } catch (err) {
     res.status(400).json({ error: (err as Error).message });
@@ -84,20 +77,23 @@ router.post('/cards/:id/dependencies', (req, res) => {
 // Remove dependency
 router.delete('/cards/:id/dependencies/:dependsOnId', (req, res) => {
   const { project_id } = req.body;
-  const source = (req as any).source;
   if (!project_id) {
     return res.status(400).json({ error: 'project_id is required' });
   }
-  const aggregate = loadProject(project_id);
+  const aggregate = loadProject(project_id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
   const card = aggregate.getCard(req.params.id);
   if (!card) {
     return res.status(404).json({ error: 'Card not found' });
   }
 
-  aggregate.removeDependency(req.params.id, req.params.dependsOnId, source);
+  aggregate.removeDependency(req.params.id, req.params.dependsOnId);
+  setVersionHeader(res, aggregate.getVersion());
   res.status(204).send();
 });
 
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { getServerStores } from '../infrastructure/stores.js';
+
+const { events: eventStore } = getServerStores();
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 100;
+const MAX_PAGE_SIZE = 1000;
+
+// Global event feed: every event across all aggregates, ordered by store id.
+// Clients pass the returned next_after back as after to read the next page.
+router.get('/events', (req, res) => {
+  const afterId = req.query.after ? parseInt(req.query.after as string, 10) : 0;
+  const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : DEFAULT_PAGE_SIZE;
+  if (isNaN(afterId) || afterId < 0) {
+    return res.status(400).json({ error: 'after must be an event id' });
+  }
+  if (isNaN(limit) || limit < 1) {
+    return res.status(400).json({ error: 'limit must be a positive number' });
+  }
+
+  const pageSize = Math.min(limit, MAX_PAGE_SIZE);
+  const events = eventStore.getEventsAfterId(afterId, pageSize);
+  res.json({
+    events,
+    next_after: events.length > 0 ? events[events.length - 1].id : afterId,
+    has_more: events.length === pageSize
+  });
+});
+
+export default router;
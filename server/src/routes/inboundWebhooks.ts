@@ -0,0 +1,143 @@
+import express, { Router } from 'express';
+import type { Request } from 'express';
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { loadProject } from '../domain/project/aggregate.js';
+import {
+  applyInboundPayload,
+  parseMapping,
+  renderTemplate,
+  InboundMapping,
+  InboundWebhookError
+} from '../domain/project/inbound.js';
+import { getEventMetadata } from '../middleware/metadata.js';
+import { signPayload, SIGNATURE_HEADER } from '../infrastructure/webhookDispatcher.js';
+import { getServerStores } from '../infrastructure/stores.js';
+
+const { inboundWebhooks } = getServerStores();
+
+const router = Router();
+
+const MAX_PAYLOAD_SIZE = '1mb';
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+// Senders either sign the body like our outgoing webhooks do, or, when they
+// cannot sign, pass the secret itself in X-Webhook-Token or ?token=
+function isAuthentic(req: Request, secret: string, body: string): boolean {
+  const signature = req.header(SIGNATURE_HEADER);
+  if (signature) {
+    return safeEqual(signature, signPayload(secret, body));
+  }
+  const token = req.header('X-Webhook-Token') ?? req.query.token;
+  return typeof token === 'string' && safeEqual(token, secret);
+}
+
+// Resent deliveries carry the same key: the mapped delivery_id, the
+// Idempotency-Key header, or failing both the body itself
+function deliveryKey(req: Request, mapping: InboundMapping, payload: unknown, body: string): string {
+  const mapped = mapping.delivery_id !== undefined ? renderTemplate(mapping.delivery_id, payload) : '';
+  if (mapped !== '') {
+    return `id:${mapped}`;
+  }
+  const idempotencyKey = req.header('Idempotency-Key');
+  if (idempotencyKey) {
+    return `key:${idempotencyKey}`;
+  }
+  return `sha256:${createHash('sha256').update(body).digest('hex')}`;
+}
+
+// Create an inbound webhook for a project. The secret is only returned here.
+router.post('/projects/:id/inbound-webhooks', (req, res) => {
+  const { mapping, secret } = req.body;
+  const aggregate = loadProject(req.params.id);
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+    return res.status(400).json({ error: 'secret must be a string of at least 16 characters' });
+  }
+
+  let parsed: InboundMapping;
+  try {
+    parsed = parseMapping(mapping);
+  } catch (err) {
+    if (err instanceof InboundWebhookError) {
+      return res.status(400).json({ error: err.message });
+    }
+    throw err;
+  }
+
+  const webhook = inboundWebhooks.create({
+    id: uuidv4(),
+    project_id: req.params.id,
+    mapping: parsed,
+    secret: secret ?? randomBytes(32).toString('hex'),
+    created_at: new Date().toISOString()
+  });
+  res.status(201).json({ ...webhook, url: `/api/hooks/${webhook.id}` });
+});
+
+router.get('/projects/:id/inbound-webhooks', (req, res) => {
+  const webhooks = inboundWebhooks.getByProject<InboundMapping>(req.params.id);
+  res.json(webhooks.map(webhook => ({ ...webhook, url: `/api/hooks/${webhook.id}` })));
+});
+
+router.delete('/inbound-webhooks/:id', (req, res) => {
+  if (!inboundWebhooks.delete(req.params.id)) {
+    return res.status(404).json({ error: 'Inbound webhook not found' });
+  }
+  res.status(204).send();
+});
+
+// Receives deliveries. Signatures are computed over the raw body, so this
+// router is mounted ahead of the JSON body parser.
+export const hooksRouter = Router();
+
+hooksRouter.post('/hooks/:id', express.raw({ type: () => true, limit: MAX_PAYLOAD_SIZE }), (req, res) => {
+  const webhook = inboundWebhooks.get<InboundMapping>(req.params.id);
+  if (!webhook) {
+    return res.status(404).json({ error: 'Inbound webhook not found' });
+  }
+  const body = Buffer.isBuffer(req.body) ? req.body.toString('utf8') : '';
+  if (!isAuthentic(req, webhook.secret, body)) {
+    return res.status(401).json({ error: 'Invalid signature or token' });
+  }
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(body);
+  } catch {
+    return res.status(400).json({ error: 'Payload must be JSON' });
+  }
+
+  const aggregate = loadProject(webhook.project_id, {
+    ...getEventMetadata(req),
+    source: 'automation',
+    actor_id: `inbound-webhook:${webhook.id}`,
+    actor_name: 'Inbound webhook'
+  });
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+
+  try {
+    const { result, duplicate } = inboundWebhooks.processOnce(
+      webhook.id,
+      deliveryKey(req, webhook.mapping, payload, body),
+      () => applyInboundPayload(aggregate, webhook.mapping, payload)
+    );
+    res.json({ ...result, duplicate });
+  } catch (err) {
+    if (err instanceof InboundWebhookError) {
+      return res.status(422).json({ error: err.message });
+    }
+    throw err;
+  }
+});
+
+export default router;
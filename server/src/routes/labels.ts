@@ -0,0 +1,154 @@
+import { Router } from 'express';
+import { LabelNameTakenError, loadProject } from '../domain/project/aggregate.js';
+import { checkExpectedVersion, setVersionHeader } from '../middleware/concurrency.js';
+import { getEventMetadata } from '../middleware/metadata.js';
+import { getServerStores } from '../infrastructure/stores.js';
+
+const { projections: projectionStore } = getServerStores();
+
+const router = Router();
+
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+const DEFAULT_COLOR = '#6b7280';
+
+// List the project's labels
+router.get('/projects/:projectId/labels', (req, res) => {
+  const found = projectionStore.getProject(req.params.projectId);
+  if (!found) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  setVersionHeader(res, found.version);
+  res.json(found.project.labels);
+});
+
+// Create label
+router.post('/projects/:projectId/labels', (req, res) => {
+  const { name, color = DEFAULT_COLOR } = req.body;
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({ error: 'Name is required' });
+  }
+  if (typeof color !== 'string' || !COLOR_RE.test(color)) {
+    return res.status(400).json({ error: 'color must be a hex color such as #3b82f6' });
+  }
+  const aggregate = loadProject(req.params.projectId, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+
+  try {
+    const label = aggregate.createLabel(name.trim(), color.toLowerCase());
+    setVersionHeader(res, aggregate.getVersion());
+    res.status(201).json(label);
+  } catch (err) {
+    if (err instanceof LabelNameTakenError) {
+      return res.status(409).json({ error: err.message });
+    }
+    throw err;
+  }
+});
+
+// Rename label
+router.put('/labels/:id', (req, res) => {
+  const { name, project_id } = req.body;
+  if (!project_id) {
+    return res.status(400).json({ error: 'project_id is required' });
+  }
+  if (!name || typeof name !== 'string') {
+    return res.status(400).json({ error: 'Name is required' });
+  }
+  const aggregate = loadProject(project_id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+  if (!aggregate.getLabel(req.params.id)) {
+    return res.status(404).json({ error: 'Label not found' });
+  }
+
+  try {
+    aggregate.renameLabel(req.params.id, name.trim());
+    setVersionHeader(res, aggregate.getVersion());
+    res.json(aggregate.getLabel(req.params.id));
+  } catch (err) {
+    if (err instanceof LabelNameTakenError) {
+      return res.status(409).json({ error: err.message });
+    }
+    throw err;
+  }
+});
+
+// Delete label, removing it from every card first
+router.delete('/labels/:id', (req, res) => {
+  const { project_id } = req.body;
+  if (!project_id) {
+    return res.status(400).json({ error: 'project_id is required' });
+  }
+  const aggregate = loadProject(project_id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+  if (!aggregate.getLabel(req.params.id)) {
+    return res.status(404).json({ error: 'Label not found' });
+  }
+  aggregate.deleteLabel(req.params.id);
+  setVersionHeader(res, aggregate.getVersion());
+  res.status(204).send();
+});
+
+// Tag card with label
+router.post('/cards/:id/labels', (req, res) => {
+  const { label_id, project_id } = req.body;
+  if (!label_id) {
+    return res.status(400).json({ error: 'label_id is required' });
+  }
+  if (!project_id) {
+    return res.status(400).json({ error: 'project_id is required' });
+  }
+  const aggregate = loadProject(project_id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+  if (!aggregate.getCard(req.params.id)) {
+    return res.status(404).json({ error: 'Card not found' });
+  }
+  if (!aggregate.getLabel(label_id)) {
+    return res.status(404).json({ error: 'Label not found' });
+  }
+  aggregate.labelCard(req.params.id, label_id);
+  setVersionHeader(res, aggregate.getVersion());
+  res.status(201).json(aggregate.getCard(req.params.id));
+});
+
+// Remove label from card
+router.delete('/cards/:id/labels/:labelId', (req, res) => {
+  const { project_id } = req.body;
+  if (!project_id) {
+    return res.status(400).json({ error: 'project_id is required' });
+  }
+  const aggregate = loadProject(project_id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+  if (!aggregate.getCard(req.params.id)) {
+    return res.status(404).json({ error: 'Card not found' });
+  }
+  aggregate.unlabelCard(req.params.id, req.params.labelId);
+  setVersionHeader(res, aggregate.getVersion());
+  res.status(204).send();
+});
+
+export default router;
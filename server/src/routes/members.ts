@@ -0,0 +1,140 @@
+import { Router } from 'express';
+import { loadWorkspace, MemberNameTakenError, removeWorkspaceMember } from '../domain/workspace/aggregate.js';
+import { loadProject } from '../domain/project/aggregate.js';
+import { checkExpectedVersion, setVersionHeader } from '../middleware/concurrency.js';
+import { getEventMetadata } from '../middleware/metadata.js';
+import type { MemberKind } from '../types.js';
+
+const router = Router();
+
+const COLOR_RE = /^#[0-9a-fA-F]{6}$/;
+const DEFAULT_COLOR = '#6b7280';
+const MEMBER_KINDS: ReadonlySet<string> = new Set<MemberKind>(['human', 'agent']);
+
+// List the workspace's members
+router.get('/workspaces/:workspaceId/members', (req, res) => {
+  const workspace = loadWorkspace(req.params.workspaceId);
+  if (!workspace.exists()) {
+    return res.status(404).json({ error: 'Workspace not found' });
+  }
+  res.json(workspace.getState()!.members);
+});
+
+// Add member
+router.post('/workspaces/:workspaceId/members', (req, res) => {
+  const { name, color = DEFAULT_COLOR, kind = 'human' } = req.body;
+  if (!name || typeof name !== 'string' || !name.trim()) {
+    return res.status(400).json({ error: 'Name is required' });
+  }
+  if (typeof color !== 'string' || !COLOR_RE.test(color)) {
+    return res.status(400).json({ error: 'color must be a hex color such as #3b82f6' });
+  }
+  if (!MEMBER_KINDS.has(kind)) {
+    return res.status(400).json({ error: 'kind must be human or agent' });
+  }
+  const workspace = loadWorkspace(req.params.workspaceId, getEventMetadata(req));
+  if (!workspace.exists()) {
+    return res.status(404).json({ error: 'Workspace not found' });
+  }
+
+  try {
+    res.status(201).json(workspace.addMember(name.trim(), color.toLowerCase(), kind));
+  } catch (err) {
+    if (err instanceof MemberNameTakenError) {
+      return res.status(409).json({ error: err.message });
+    }
+    throw err;
+  }
+});
+
+// Update member's name, color or kind
+router.put('/workspaces/:workspaceId/members/:memberId', (req, res) => {
+  const { name, color, kind } = req.body;
+  if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+    return res.status(400).json({ error: 'Name must not be empty' });
+  }
+  if (color !== undefined && (typeof color !== 'string' || !COLOR_RE.test(color))) {
+    return res.status(400).json({ error: 'color must be a hex color such as #3b82f6' });
+  }
+  if (kind !== undefined && !MEMBER_KINDS.has(kind)) {
+    return res.status(400).json({ error: 'kind must be human or agent' });
+  }
+  const workspace = loadWorkspace(req.params.workspaceId, getEventMetadata(req));
+  if (!workspace.getMember(req.params.memberId)) {
+    return res.status(404).json({ error: 'Member not found' });
+  }
+
+  try {
+    const member = workspace.updateMember(req.params.memberId, {
+      ...(name !== undefined && { name: name.trim() }),
+      ...(color !== undefined && { color: color.toLowerCase() }),
+      ...(kind !== undefined && { kind })
+    });
+    res.json(member);
+  } catch (err) {
+    if (err instanceof MemberNameTakenError) {
+      return res.status(409).json({ error: err.message });
+    }
+    throw err;
+  }
+});
+
+// Remove member, unassigning it from every card first
+router.delete('/workspaces/:workspaceId/members/:memberId', (req, res) => {
+  const workspace = loadWorkspace(req.params.workspaceId);
+  if (!workspace.getMember(req.params.memberId)) {
+    return res.status(404).json({ error: 'Member not found' });
+  }
+  removeWorkspaceMember(req.params.workspaceId, req.params.memberId, getEventMetadata(req));
+  res.status(204).send();
+});
+
+// Assign card to a member of the project's workspace
+router.post('/cards/:id/assignees', (req, res) => {
+  const { member_id, project_id } = req.body;
+  if (!member_id) {
+    return res.status(400).json({ error: 'member_id is required' });
+  }
+  if (!project_id) {
+    return res.status(400).json({ error: 'project_id is required' });
+  }
+  const aggregate = loadProject(project_id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+  if (!aggregate.getCard(req.params.id)) {
+    return res.status(404).json({ error: 'Card not found' });
+  }
+  if (!loadWorkspace(aggregate.getWorkspaceId()).getMember(member_id)) {
+    return res.status(404).json({ error: 'Member not found' });
+  }
+  aggregate.assignCard(req.params.id, member_id);
+  setVersionHeader(res, aggregate.getVersion());
+  res.status(201).json(aggregate.getCard(req.params.id));
+});
+
+// Unassign member from card
+router.delete('/cards/:id/assignees/:memberId', (req, res) => {
+  const { project_id } = req.body;
+  if (!project_id) {
+    return res.status(400).json({ error: 'project_id is required' });
+  }
+  const aggregate = loadProject(project_id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
+  if (!aggregate.getCard(req.params.id)) {
+    return res.status(404).json({ error: 'Card not found' });
+  }
+  aggregate.unassignCard(req.params.id, req.params.memberId);
+  setVersionHeader(res, aggregate.getVersion());
+  res.status(204).send();
+});
+
+export default router;
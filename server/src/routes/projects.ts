@@ -1,15 +1,25 @@
-import { Router } from 'express';
+import express, { Router } from 'express';
+import type { RequestHandler } from 'express';
 import { getOrCreateWorkspace } from '../domain/workspace/aggregate.js';
-import { createProject, getProjectsByWorkspace, loadProject } from '../domain/project/aggregate.js';
-import { eventStore } from '../infrastructure/eventStore.js';
+import { createProject, loadProject } from '../domain/project/aggregate.js';
+import { parsePointInTime, loadProjectAt, diffProject } from '../domain/project/history.js';
+import { getUndoStatus, undo, redo, UndoError } from '../domain/project/undo.js';
+import { exportProject, importProject, ImportError } from '../domain/project/portability.js';
+import { isDate } from '../domain/project/dates.js';
+import { checkExpectedVersion, setVersionHeader } from '../middleware/concurrency.js';
+import { getEventMetadata } from '../middleware/metadata.js';
+import { getServerStores } from '../infrastructure/stores.js';
+import type { Card, Project } from '../types.js';
+
+const { events: eventStore, projections: projectionStore } = getServerStores();
 
 const router = Router();
 
 // List projects in workspace
 router.get('/workspaces/:uuid/projects', (req, res) => {
   // Ensure workspace exists
-  getOrCreateWorkspace(req.params.uuid);
-  const projects = getProjectsByWorkspace(req.params.uuid);
+  getOrCreateWorkspace(req.params.uuid, getEventMetadata(req));
+  const projects = projectionStore.getProjectsByWorkspace(req.params.uuid);
   res.json(projects);
 });
 
@@ -20,46 +30,174 @@ router.post('/workspaces/:uuid/projects', (req, res) => {
     return res.status(400).json({ error: 'Name is required' });
   }
   // Ensure workspace exists
-  getOrCreateWorkspace(req.params.uuid);
-  const project = createProject(req.params.uuid, name, description || '');
+  getOrCreateWorkspace(req.params.uuid, getEventMetadata(req));
+  const project = createProject(req.params.uuid, name, description || '', getEventMetadata(req));
   res.status(201).json(project);
 });
 
-// Get project with all columns and cards
+// Import a project exported as NDJSON into this workspace as a new project
+router.post(
+  '/workspaces/:uuid/projects/import',
+  express.text({ type: ['application/x-ndjson', 'text/plain'], limit: '50mb' }),
+  (req, res) => {
+    if (typeof req.body !== 'string' || req.body === '') {
+      return res.status(400).json({ error: 'Send the export as an application/x-ndjson body' });
+    }
+    // Ensure workspace exists
+    getOrCreateWorkspace(req.params.uuid, getEventMetadata(req));
+    try {
+      const project = importProject(req.params.uuid, req.body);
+      res.status(201).json(project);
+    } catch (err) {
+      if (err instanceof ImportError) {
+        return res.status(400).json({ error: err.message });
+      }
+      throw err;
+    }
+  }
+);
+
+// Keeps only the cards due between from and to, both inclusive and optional
+function filterByDueDate(project: Project, from?: string, to?: string): Project {
+  if (from === undefined && to === undefined) {
+    return project;
+  }
+  const inRange = (card: Card) => card.due_date !== undefined
+    && (from === undefined || card.due_date >= from)
+    && (to === undefined || card.due_date <= to);
+  return { ...project, columns: project.columns.map(col => ({ ...col, cards: col.cards.filter(inRange) })) };
+}
+
+// Get project with all columns and cards. With as_of (a version or a
+// timestamp), returns the board as it was at that point. due_from and due_to
+// (YYYY-MM-DD) keep only the cards due in that range.
 router.get('/projects/:id', (req, res) => {
-  const aggregate = loadProject(req.params.id);
-  if (!aggregate.exists()) {
+  const { due_from: dueFrom, due_to: dueTo } = req.query;
+  if ((dueFrom !== undefined && !isDate(dueFrom)) || (dueTo !== undefined && !isDate(dueTo))) {
+    return res.status(400).json({ error: 'due_from and due_to must be dates such as 2024-05-31' });
+  }
+
+  if (req.query.as_of !== undefined) {
+    const point = parsePointInTime(req.query.as_of as string);
+    if (!point) {
+      return res.status(400).json({ error: 'as_of must be a version or a timestamp' });
+    }
+    const aggregate = loadProjectAt(req.params.id, point);
+    if (!aggregate.exists()) {
+      return res.status(404).json({ error: 'Project not found at that point' });
+    }
+    setVersionHeader(res, aggregate.getVersion());
+    return res.json(filterByDueDate(aggregate.toProject(), dueFrom, dueTo));
+  }
+
+  const result = projectionStore.getProject(req.params.id);
+  if (!result) {
     return res.status(404).json({ error: 'Project not found' });
   }
-  res.json(aggregate.toProject());
+  setVersionHeader(res, result.version);
+  res.json(filterByDueDate(result.project, dueFrom, dueTo));
 });
 
 // Update project
 router.put('/projects/:id', (req, res) => {
   const { name, description } = req.body;
-  const aggregate = loadProject(req.params.id);
+  const aggregate = loadProject(req.params.id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
-  if (name !== undefined) {
-    aggregate.rename(name);
-  }
-  if (description !== undefined) {
-    aggregate.updateDescription(description);
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
   }
+  aggregate.command(() => {
+    if (name !== undefined) {
+      aggregate.rename(name);
+    }
+    if (description !== undefined) {
+      aggregate.updateDescription(description);
+    }
+  });
+  setVersionHeader(res, aggregate.getVersion());
   res.json(aggregate.toProject());
 });
 
 // Delete project
 router.delete('/projects/:id', (req, res) => {
-  const aggregate = loadProject(req.params.id);
+  const aggregate = loadProject(req.params.id, getEventMetadata(req));
   if (!aggregate.exists()) {
     return res.status(404).json({ error: 'Project not found' });
   }
+  if (!checkExpectedVersion(req, res, aggregate)) {
+    return;
+  }
   aggregate.delete();
+  setVersionHeader(res, aggregate.getVersion());
   res.status(204).send();
 });
 
+// Compare the board at two points (versions or timestamps); to defaults to now
+router.get('/projects/:id/diff', (req, res) => {
+  if (req.query.from === undefined) {
+    return res.status(400).json({ error: 'from query parameter is required' });
+  }
+  const from = parsePointInTime(req.query.from as string);
+  const to = req.query.to !== undefined
+    ? parsePointInTime(req.query.to as string)
+    : { version: Number.MAX_SAFE_INTEGER };
+  if (!from || !to) {
+    return res.status(400).json({ error: 'from and to must be versions or timestamps' });
+  }
+  if (eventStore.getLatestVersion('project', req.params.id) === 0) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  res.json(diffProject(req.params.id, from, to));
+});
+
+// What undo and redo would reverse next, if anything
+router.get('/projects/:id/undo', (req, res) => {
+  const aggregate = loadProject(req.params.id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  res.json(getUndoStatus(req.params.id));
+});
+
+// Undo or redo the latest command by appending compensating events
+function reverseLatestCommand(run: typeof undo): RequestHandler {
+  return (req, res) => {
+    const aggregate = loadProject(req.params.id, getEventMetadata(req));
+    if (!aggregate.exists()) {
+      return res.status(404).json({ error: 'Project not found' });
+    }
+    if (!checkExpectedVersion(req, res, aggregate)) {
+      return;
+    }
+    try {
+      const reversed = run(aggregate, req.params.id);
+      setVersionHeader(res, aggregate.getVersion());
+      res.json({ reversed, ...getUndoStatus(req.params.id), project: aggregate.toProject() });
+    } catch (err) {
+      if (err instanceof UndoError) {
+        return res.status(409).json({ error: err.message });
+      }
+      throw err;
+    }
+  };
+}
+
+router.post('/projects/:id/undo', reverseLatestCommand(undo));
+router.post('/projects/:id/redo', reverseLatestCommand(redo));
+
+// Export the project's full event log as NDJSON, headed by format metadata
+router.get('/projects/:id/export', (req, res) => {
+  const aggregate = loadProject(req.params.id, getEventMetadata(req));
+  if (!aggregate.exists()) {
+    return res.status(404).json({ error: 'Project not found' });
+  }
+  res.setHeader('Content-Type', 'application/x-ndjson');
+  res.setHeader('Content-Disposition', `attachment; filename="project-${req.params.id}.ndjson"`);
+  res.send(exportProject(req.params.id));
+});
+
 // Get project event history
 router.get('/projects/:id/events', (req, res) => {
   const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
@@ -1,13 +1,25 @@
 import { Router } from 'express';
-import { eventBroadcaster } from '../infrastructure/eventBroadcaster.js';
+import type { Request, Response } from 'express';
+import { eventBroadcaster, ClientScope } from '../infrastructure/eventBroadcaster.js';
+import { groupByCommand } from '../infrastructure/eventStore.js';
+import { getServerStores } from '../infrastructure/stores.js';
+
+const { events: eventStore } = getServerStores();
 
 const router = Router();
 
-// SSE endpoint for project events
-router.get('/projects/:projectId/events/stream', (req, res) => {
-  const { projectId } = req.params;
-  const clientId = `${projectId}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+const CATCH_UP_BATCH_SIZE = 500;
 
+// Sets SSE headers, keeps the connection alive and registers the client with
+// the broadcaster. Anything written by onOpen reaches the client before live
+// events; onOpen returns the id of the last event it sent.
+function openStream(
+  req: Request,
+  res: Response,
+  clientId: string,
+  scope: ClientScope,
+  onOpen: () => number
+): void {
   // Set SSE headers
   res.setHeader('Content-Type', 'text/event-stream');
   res.setHeader('Cache-Control', 'no-cache');
@@ -15,12 +27,11 @@ router.get('/projects/:projectId/events/stream', (req, res) => {
   res.setHeader('X-Accel-Buffering', 'no'); // Disable nginx buffering
   res.flushHeaders();
 
-  // Send initial connection event
-  res.write(`event: connected\n`);
-  res.write(`data: ${JSON.stringify({ clientId, projectId })}\n\n`);
+  const caughtUpTo = onOpen();
 
-  // Register client with broadcaster
-  eventBroadcaster.addClient(clientId, projectId, res);
+  // Register client with broadcaster. The event tailer may not have reached
+  // every event onOpen sent, so those are skipped when it does.
+  eventBroadcaster.addClient(clientId, scope, res, caughtUpTo);
 
   // Send heartbeat every 30 seconds to keep connection alive
   const heartbeatInterval = setInterval(() => {
@@ -36,6 +47,82 @@ router.get('/projects/:projectId/events/stream', (req, res) => {
     clearInterval(heartbeatInterval);
     eventBroadcaster.removeClient(clientId);
   });
+}
+
+// SSE endpoint for project events. A reconnecting client sends the id of the
+// last message it received (Last-Event-ID, or last_event_id for clients that
+// open a new EventSource) and first gets every event it missed.
+router.get('/projects/:projectId/events/stream', (req, res) => {
+  const { projectId } = req.params;
+  const lastEventId = req.query.last_event_id ?? req.headers['last-event-id'];
+  const resumeAfter = lastEventId !== undefined ? parseInt(lastEventId as string, 10) : undefined;
+  if (resumeAfter !== undefined && (isNaN(resumeAfter) || resumeAfter < 0)) {
+    return res.status(400).json({ error: 'Last-Event-ID must be an event id' });
+  }
+  const clientId = `${projectId}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  openStream(req, res, clientId, { type: 'project', projectId }, () => {
+    // The client is caught up to the last event it is sent here, not to the
+    // latest one stored: another process may write between the two reads, and
+    // the tailer delivers whatever comes after
+    const missed = resumeAfter !== undefined
+      ? eventStore.getEventsAfterIdForAggregate('project', projectId, resumeAfter)
+      : [];
+    const caughtUpTo = resumeAfter !== undefined
+      ? missed[missed.length - 1]?.id ?? resumeAfter
+      : eventStore.getLatestEventId('project', projectId);
+
+    // Send initial connection event. On a fresh connection its id gives the
+    // client a resume point even if no event arrives before it disconnects.
+    if (resumeAfter === undefined) {
+      res.write(`id: ${caughtUpTo}\n`);
+    }
+    res.write(`event: connected\n`);
+    res.write(`data: ${JSON.stringify({ clientId, projectId, resumed: resumeAfter !== undefined, replayed: missed.length })}\n\n`);
+
+    for (const events of groupByCommand(missed)) {
+      eventBroadcaster.writeProjectEvents(res, events);
+    }
+    return caughtUpTo;
+  });
+});
+
+// SSE endpoint for a workspace's project list: project lifecycle events,
+// per-project activity summaries and member directory changes
+router.get('/workspaces/:workspaceId/events/stream', (req, res) => {
+  const { workspaceId } = req.params;
+  const clientId = `${workspaceId}-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  openStream(req, res, clientId, { type: 'workspace', workspaceId }, () => {
+    // Send initial connection event
+    res.write(`event: connected\n`);
+    res.write(`data: ${JSON.stringify({ clientId, workspaceId })}\n\n`);
+    return eventStore.getLastEventId();
+  });
+});
+
+// SSE endpoint for the global event feed. Replays every event after the given
+// id (or Last-Event-ID on reconnect), then streams new events as they happen.
+router.get('/events/stream', (req, res) => {
+  const after = req.query.after ?? req.headers['last-event-id'] ?? '0';
+  const afterId = parseInt(after as string, 10);
+  if (isNaN(afterId) || afterId < 0) {
+    return res.status(400).json({ error: 'after must be an event id' });
+  }
+  const clientId = `feed-${Date.now()}-${Math.random().toString(36).slice(2)}`;
+
+  openStream(req, res, clientId, { type: 'feed' }, () => {
+    let cursor = afterId;
+    let events = eventStore.getEventsAfterId(cursor, CATCH_UP_BATCH_SIZE);
+    while (events.length > 0) {
+      for (const event of events) {
+        eventBroadcaster.writeFeedEvent(res, event);
+      }
+      cursor = events[events.length - 1].id!;
+      events = eventStore.getEventsAfterId(cursor, CATCH_UP_BATCH_SIZE);
+    }
+    return cursor;
+  });
 });
 
 export default router;
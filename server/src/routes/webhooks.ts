@@ -0,0 +1,120 @@
+import { Router } from 'express';
+import { randomBytes } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { PROJECT_EVENT_TYPES } from '../domain/project/aggregate.js';
+import { WORKSPACE_EVENT_TYPES } from '../domain/workspace/aggregate.js';
+import type { DeliveryStatus } from '../infrastructure/webhooks.js';
+import { getServerStores } from '../infrastructure/stores.js';
+
+const { webhooks, projections: projectionStore } = getServerStores();
+
+const router = Router();
+
+const DEFAULT_PAGE_SIZE = 50;
+const MAX_PAGE_SIZE = 500;
+
+const EVENT_TYPES = new Set([...WORKSPACE_EVENT_TYPES, ...PROJECT_EVENT_TYPES]);
+const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'delivered', 'failed'];
+
+function isHttpUrl(value: unknown): boolean {
+  try {
+    const { protocol } = new URL(value as string);
+    return protocol === 'http:' || protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Subscribe to the events of a workspace, or of one project in it. The secret
+// used to sign deliveries is only returned here.
+router.post('/workspaces/:uuid/webhooks', (req, res) => {
+  const { url, project_id, event_types, secret } = req.body;
+
+  if (!isHttpUrl(url)) {
+    return res.status(400).json({ error: 'url must be an http or https URL' });
+  }
+  if (event_types !== undefined && event_types !== null) {
+    if (!Array.isArray(event_types) || event_types.length === 0) {
+      return res.status(400).json({ error: 'event_types must be a non-empty array' });
+    }
+    const unknown = event_types.find((type: unknown) => !EVENT_TYPES.has(type as string));
+    if (unknown !== undefined) {
+      return res.status(400).json({ error: `Unknown event type ${unknown}` });
+    }
+  }
+  if (secret !== undefined && (typeof secret !== 'string' || secret.length < 16)) {
+    return res.status(400).json({ error: 'secret must be a string of at least 16 characters' });
+  }
+  if (project_id !== undefined && project_id !== null
+    && projectionStore.getWorkspaceId(project_id) !== req.params.uuid) {
+    return res.status(404).json({ error: 'Project not found in this workspace' });
+  }
+
+  const webhook = webhooks.create({
+    id: uuidv4(),
+    workspace_id: req.params.uuid,
+    project_id: project_id ?? null,
+    url,
+    event_types: event_types ?? null,
+    secret: secret ?? randomBytes(32).toString('hex'),
+    created_at: new Date().toISOString()
+  });
+  res.status(201).json(webhook);
+});
+
+router.get('/workspaces/:uuid/webhooks', (req, res) => {
+  res.json(webhooks.getByWorkspace(req.params.uuid));
+});
+
+router.get('/webhooks/:id', (req, res) => {
+  const webhook = webhooks.get(req.params.id);
+  if (!webhook) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+  res.json(webhook);
+});
+
+router.delete('/webhooks/:id', (req, res) => {
+  if (!webhooks.delete(req.params.id)) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+  res.status(204).send();
+});
+
+// Delivery log of one webhook, newest first, paged with the returned
+// next_cursor. status filters to pending, delivered or failed deliveries.
+router.get('/webhooks/:id/deliveries', (req, res) => {
+  if (!webhooks.get(req.params.id)) {
+    return res.status(404).json({ error: 'Webhook not found' });
+  }
+
+  const { status, cursor, limit } = req.query;
+  const beforeId = cursor !== undefined ? parseInt(cursor as string, 10) : undefined;
+  const pageSize = limit !== undefined ? parseInt(limit as string, 10) : DEFAULT_PAGE_SIZE;
+
+  if (status !== undefined && !DELIVERY_STATUSES.includes(status as DeliveryStatus)) {
+    return res.status(400).json({ error: `status must be one of ${DELIVERY_STATUSES.join(', ')}` });
+  }
+  if (beforeId !== undefined && (isNaN(beforeId) || beforeId < 1)) {
+    return res.status(400).json({ error: 'cursor must be a delivery id' });
+  }
+  if (isNaN(pageSize) || pageSize < 1) {
+    return res.status(400).json({ error: 'limit must be a positive number' });
+  }
+
+  const pageLimit = Math.min(pageSize, MAX_PAGE_SIZE);
+  const deliveries = webhooks.getDeliveries(req.params.id, {
+    status: status as DeliveryStatus | undefined,
+    beforeId,
+    limit: pageLimit + 1
+  });
+  const hasMore = deliveries.length > pageLimit;
+  const page = deliveries.slice(0, pageLimit);
+  res.json({
+    deliveries: page,
+    next_cursor: hasMore ? page[page.length - 1].id : null,
+    has_more: hasMore
+  });
+});
+
+export default router;
@@ -1,20 +1,27 @@
 import { Router } from 'express';
 import { v4 as uuidv4 } from 'uuid';
 import { getOrCreateWorkspace } from '../domain/workspace/aggregate.js';
-import { eventStore } from '../infrastructure/eventStore.js';
+import { addDays, today } from '../domain/project/dates.js';
+import { getEventMetadata } from '../middleware/metadata.js';
+import { getServerStores } from '../infrastructure/stores.js';
+
+const { events: eventStore, projections: projectionStore } = getServerStores();
+
+const DEFAULT_UPCOMING_DAYS = 7;
+const MAX_UPCOMING_DAYS = 366;
 
 const router = Router();
 
 // Create new workspace
 router.post('/', (req, res) => {
   const workspaceId = uuidv4();
-  const workspace = getOrCreateWorkspace(workspaceId);
+  const workspace = getOrCreateWorkspace(workspaceId, getEventMetadata(req));
   res.status(201).json(workspace);
 });
 
 // Get workspace (creates if not exists)
 router.get('/:uuid', (req, res) => {
-  const workspace = getOrCreateWorkspace(req.params.uuid);
+  const workspace = getOrCreateWorkspace(req.params.uuid, getEventMetadata(req));
   res.json(workspace);
 });
 
@@ -25,4 +32,14 @@ router.get('/:uuid/events', (req, res) => {
   res.json(events);
 });
 
+// Open cards across the workspace's projects that are overdue or due within
+// the next days (default 7), soonest first
+router.get('/:uuid/upcoming', (req, res) => {
+  const days = req.query.days !== undefined ? Number(req.query.days) : DEFAULT_UPCOMING_DAYS;
+  if (!Number.isInteger(days) || days < 0 || days > MAX_UPCOMING_DAYS) {
+    return res.status(400).json({ error: `days must be a whole number from 0 to ${MAX_UPCOMING_DAYS}` });
+  }
+  res.json(projectionStore.getUpcomingCards(req.params.uuid, addDays(today(), days)));
+});
+
 export default router;
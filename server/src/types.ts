@@ -7,6 +7,37 @@ export interface Card {
   description: string;
   position: number;
   dependencies: string[]; // card_ids this card depends on
+  external_id?: string; // id of the item in another system this card tracks
+  labels: string[]; // label_ids of the project labels the card is tagged with
+  assignees: string[]; // member_ids of the workspace members working on the card
+  checklist: ChecklistItem[]; // in checklist order
+  start_date?: string; // YYYY-MM-DD
+  due_date?: string; // YYYY-MM-DD
+  priority?: Priority;
+  estimate?: number; // story points or hours, as the team counts them
+}
+
+export interface ChecklistItem {
+  id: string;
+  text: string;
+  checked: boolean;
+}
+
+// P0 is the most urgent
+export type Priority = 'P0' | 'P1' | 'P2' | 'P3';
+
+// A card listed by the workspace's upcoming endpoint
+export interface UpcomingCard {
+  project_id: string;
+  project_name: string;
+  column_name: string;
+  card: Card;
+}
+
+export interface Label {
+  id: string;
+  name: string;
+  color: string; // hex, e.g. #3b82f6
 }
 
 export interface Column {
@@ -23,16 +54,48 @@ export interface Project {
   name: string;
   description: string;
   columns: Column[];
+  labels: Label[];
+}
+
+export type MemberKind = 'human' | 'agent';
+
+// Someone who works in a workspace: a person, or an agent such as an MCP session
+export interface Member {
+  id: string;
+  name: string;
+  color: string; // avatar color, hex
+  kind: MemberKind;
 }
 
 export interface Workspace {
   id: string;
   created_at: string;
+  members: Member[];
 }
 
 // Event types
 export type AggregateType = 'workspace' | 'project';
 
+// The client an event came through; automation covers the server's own jobs
+export type EventSource = 'web' | 'mcp' | 'api' | 'automation';
+
+// Who caused an event and why, kept apart from the domain payload in event_data
+export interface EventMetadata {
+  event_id?: string; // assigned when the event is appended, before it has a store id
+  source: EventSource;
+  actor_id?: string;
+  actor_name?: string;
+  correlation_id?: string; // the request that committed the event
+  causation_id?: string; // event_id of the event this one was derived from
+  compensates?: Compensation; // set on the events of an undo or redo
+}
+
+// The command an undo or redo reverses
+export interface Compensation {
+  direction: 'undo' | 'redo';
+  command_id: string;
+}
+
 export interface BaseEvent {
   id?: number;
   aggregate_type: AggregateType;
@@ -41,6 +104,9 @@ export interface BaseEvent {
   event_data: Record<string, unknown>;
   version: number;
   timestamp: string;
+  command_id?: string; // shared by all events committed by one command
+  schema_version?: number; // version of the event_data shape, see upcasters.ts
+  metadata?: EventMetadata;
 }
 
 // Workspace Events
@@ -52,6 +118,36 @@ export interface WorkspaceCreatedEvent extends BaseEvent {
   };
 }
 
+export interface MemberAddedEvent extends BaseEvent {
+  aggregate_type: 'workspace';
+  event_type: 'MemberAdded';
+  event_data: {
+    member_id: string;
+    name: string;
+    color: string;
+    kind: MemberKind;
+  };
+}
+
+export interface MemberUpdatedEvent extends BaseEvent {
+  aggregate_type: 'workspace';
+  event_type: 'MemberUpdated';
+  event_data: {
+    member_id: string;
+    name?: string;
+    color?: string;
+    kind?: MemberKind;
+  };
+}
+
+export interface MemberRemovedEvent extends BaseEvent {
+  aggregate_type: 'workspace';
+  event_type: 'MemberRemoved';
+  event_data: {
+    member_id: string;
+  };
+}
+
 // Project Events
 export interface ProjectCreatedEvent extends BaseEvent {
   aggregate_type: 'project';
@@ -131,6 +227,7 @@ export interface CardAddedEvent extends BaseEvent {
     title: string;
     description: string;
     position: number;
+    external_id?: string;
   };
 }
 
@@ -180,7 +277,155 @@ export interface DependencyRemovedEvent extends BaseEvent {
   };
 }
 
-export type WorkspaceEvent = WorkspaceCreatedEvent;
+export interface LabelCreatedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'LabelCreated';
+  event_data: {
+    label_id: string;
+    name: string;
+    color: string;
+  };
+}
+
+export interface LabelRenamedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'LabelRenamed';
+  event_data: {
+    label_id: string;
+    name: string;
+  };
+}
+
+export interface LabelDeletedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'LabelDeleted';
+  event_data: {
+    label_id: string;
+  };
+}
+
+export interface CardLabeledEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'CardLabeled';
+  event_data: {
+    card_id: string;
+    label_id: string;
+  };
+}
+
+export interface CardUnlabeledEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'CardUnlabeled';
+  event_data: {
+    card_id: string;
+    label_id: string;
+  };
+}
+
+export interface CardAssignedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'CardAssigned';
+  event_data: {
+    card_id: string;
+    member_id: string;
+  };
+}
+
+export interface CardUnassignedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'CardUnassigned';
+  event_data: {
+    card_id: string;
+    member_id: string;
+  };
+}
+
+// Sets both dates of the card; null clears one
+export interface CardScheduledEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'CardScheduled';
+  event_data: {
+    card_id: string;
+    start_date: string | null;
+    due_date: string | null;
+  };
+}
+
+// Sets the priority and estimate of the card; null clears one
+export interface CardPlannedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'CardPlanned';
+  event_data: {
+    card_id: string;
+    priority: Priority | null;
+    estimate: number | null;
+  };
+}
+
+// Checklist items belong to a card; position is the index in its checklist
+export interface ChecklistItemAddedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'ChecklistItemAdded';
+  event_data: {
+    card_id: string;
+    item_id: string;
+    text: string;
+    position: number;
+  };
+}
+
+export interface ChecklistItemRenamedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'ChecklistItemRenamed';
+  event_data: {
+    card_id: string;
+    item_id: string;
+    text: string;
+  };
+}
+
+export interface ChecklistItemCheckedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'ChecklistItemChecked';
+  event_data: {
+    card_id: string;
+    item_id: string;
+  };
+}
+
+export interface ChecklistItemUncheckedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'ChecklistItemUnchecked';
+  event_data: {
+    card_id: string;
+    item_id: string;
+  };
+}
+
+export interface ChecklistItemMovedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'ChecklistItemMoved';
+  event_data: {
+    card_id: string;
+    item_id: string;
+    position: number;
+  };
+}
+
+export interface ChecklistItemDeletedEvent extends BaseEvent {
+  aggregate_type: 'project';
+  event_type: 'ChecklistItemDeleted';
+  event_data: {
+    card_id: string;
+    item_id: string;
+  };
+}
+
+export type WorkspaceEvent =
+  | WorkspaceCreatedEvent
+  | MemberAddedEvent
+  | MemberUpdatedEvent
+  | MemberRemovedEvent;
 
 export type ProjectEvent =
   | ProjectCreatedEvent
@@ -196,6 +441,21 @@ export type ProjectEvent =
   | CardMovedEvent
   | CardDeletedEvent
   | DependencyAddedEvent
-  | DependencyRemovedEvent;
+  | DependencyRemovedEvent
+  | LabelCreatedEvent
+  | LabelRenamedEvent
+  | LabelDeletedEvent
+  | CardLabeledEvent
+  | CardUnlabeledEvent
+  | CardAssignedEvent
+  | CardUnassignedEvent
+  | CardScheduledEvent
+  | CardPlannedEvent
+  | ChecklistItemAddedEvent
+  | ChecklistItemRenamedEvent
+  | ChecklistItemCheckedEvent
+  | ChecklistItemUncheckedEvent
+  | ChecklistItemMovedEvent
+  | ChecklistItemDeletedEvent;
 
 export type DomainEvent = WorkspaceEvent | ProjectEvent;